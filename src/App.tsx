@@ -1,10 +1,28 @@
-import React, { useEffect, useCallback } from 'react';
+import React, { useEffect, useCallback, useMemo, useState } from 'react';
 import { useVoxelGrid } from './hooks/useVoxelGrid';
 import Grid from './components/Grid';
 import ColorPicker from './components/ColorPicker';
 import Controls from './components/Controls';
 import IsometricPreview from './components/IsometricPreview';
 import ExportButton from './components/ExportButton';
+import ProjectMenu from './components/ProjectMenu';
+import ProjectBrowser from './components/ProjectBrowser';
+import ToolPicker from './components/ToolPicker';
+import SelectionBar from './components/SelectionBar';
+import SculptBar from './components/SculptBar';
+import LayersPanel from './components/LayersPanel';
+import HistoryPanel from './components/HistoryPanel';
+import ImageImport from './components/ImageImport';
+import AnimationPanel from './components/AnimationPanel';
+import FrameTimeline from './components/FrameTimeline';
+import SpriteSheetPanel from './components/SpriteSheetPanel';
+import { useProjectLibrary } from './hooks/useProjectLibrary';
+import { isSculptTool } from './utils/sculpt';
+import { DEFAULT_SVG_ANIMATION } from './utils/animation';
+import { getOnionSkin } from './utils/frames';
+import { getVoxelLayerId } from './utils/layers';
+import type { ProjectData } from './types/project';
+import type { SVGAnimationOptions } from './types/voxel';
 
 /**
  * Main application component
@@ -15,21 +33,93 @@ const App: React.FC = () => {
         voxels,
         selectedColor,
         blockHeight,
-        lightingAngle,
+        maxHeight,
+        sculptRadius,
+        sculptFalloff,
+        lighting,
+        viewRotation,
+        voxelOutlines,
+        activeLayer,
+        placementMode,
+        tool,
+        selection,
+        symmetry,
+        symmetryAxis,
+        layers,
+        currentLayerId,
+        palette,
+        gridSize,
+        exportSettings,
         setSelectedColor,
         setBlockHeight,
-        setLightingAngle,
+        setMaxHeight,
+        setSculptRadius,
+        setSculptFalloff,
+        setLighting,
+        rotateView,
+        setVoxelOutlines,
+        setActiveLayer,
+        setPlacementMode,
+        setTool,
+        setSymmetry,
+        setSymmetryAxis,
+        setCurrentLayerId,
+        setExportSettings,
+        addLayer,
+        renameLayer,
+        moveLayer,
+        setLayerVisible,
+        setLayerLocked,
+        mergeLayerDown,
+        deleteLayer,
         addVoxel,
         removeVoxel,
+        paintCells,
+        sculptCells,
+        fillRegion,
+        importVoxels,
+        selectRegion,
+        moveSelection,
+        rotateSelection,
+        mirrorSelection,
+        deleteSelection,
+        copySelection,
+        cutSelection,
+        pasteClipboard,
         clearGrid,
+        resizeGrid,
+        loadProject,
+        beginStroke,
+        endStroke,
         undo,
         redo,
+        jumpToHistory,
+        getHistoryThumbnail,
+        addCheckpoint,
+        restoreCheckpoint,
+        deleteCheckpoint,
+        addFrame,
+        updateFrame,
+        showFrame,
+        deleteFrame,
+        moveFrame,
+        setFrameDuration,
+        history,
+        checkpoints,
+        frames,
+        currentFrameId,
         hasVoxel,
         getVoxel,
+        getColumnHeight,
         canUndo,
         canRedo,
+        canPaste,
     } = useVoxelGrid();
 
+    const [animation, setAnimation] = useState<SVGAnimationOptions>(DEFAULT_SVG_ANIMATION);
+    const [previewAnimation, setPreviewAnimation] = useState<boolean>(false);
+    const [onionSkin, setOnionSkin] = useState<boolean>(true);
+
     // Keyboard shortcuts
     useEffect(() => {
         const handleKeyDown = (event: KeyboardEvent) => {
@@ -41,16 +131,33 @@ const App: React.FC = () => {
                 } else if (event.key === 'y' || (event.key === 'z' && event.shiftKey)) {
                     event.preventDefault();
                     redo();
+                } else if (event.key === 'c' && selection) {
+                    event.preventDefault();
+                    copySelection();
+                } else if (event.key === 'x' && selection) {
+                    event.preventDefault();
+                    cutSelection();
+                } else if (event.key === 'v' && canPaste) {
+                    event.preventDefault();
+                    pasteClipboard();
                 }
             }
 
+            // Selection
+            if (selection && (event.key === 'Delete' || event.key === 'Backspace')) {
+                event.preventDefault();
+                deleteSelection();
+            } else if (selection && event.key === 'Escape') {
+                selectRegion(null);
+            }
+
             // Height adjustment
             if (event.key === 'h' || event.key === 'H') {
                 event.preventDefault();
                 if (event.shiftKey) {
                     setBlockHeight((prev) => Math.max(1, prev - 1));
                 } else {
-                    setBlockHeight((prev) => Math.min(10, prev + 1));
+                    setBlockHeight((prev) => Math.min(maxHeight, prev + 1));
                 }
             }
 
@@ -58,30 +165,250 @@ const App: React.FC = () => {
             if (event.key === 'l' || event.key === 'L') {
                 event.preventDefault();
                 if (event.shiftKey) {
-                    setLightingAngle((prev) => (prev - 15 + 360) % 360);
+                    setLighting((prev) => ({ ...prev, azimuth: (prev.azimuth - 15 + 360) % 360 }));
                 } else {
-                    setLightingAngle((prev) => (prev + 15) % 360);
+                    setLighting((prev) => ({ ...prev, azimuth: (prev.azimuth + 15) % 360 }));
                 }
             }
 
-            // Color selection (1-6)
+            // View rotation
+            if ((event.key === 'r' || event.key === 'R') && !event.ctrlKey && !event.metaKey) {
+                event.preventDefault();
+                rotateView(event.shiftKey ? -1 : 1);
+            }
+
+            // Color selection (1-9, first palette entries)
             const num = parseInt(event.key);
-            if (num >= 1 && num <= 6) {
+            if (num >= 1 && num <= Math.min(9, palette.length)) {
                 event.preventDefault();
-                const colors = ['#3B82F6', '#8B5CF6', '#10B981', '#F59E0B', '#14B8A6', '#475569'];
-                setSelectedColor(colors[num - 1]);
+                setSelectedColor(palette[num - 1].hex);
             }
         };
 
         window.addEventListener('keydown', handleKeyDown);
         return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [undo, redo, setBlockHeight, setLightingAngle, setSelectedColor]);
+    }, [
+        undo,
+        redo,
+        setBlockHeight,
+        maxHeight,
+        setLighting,
+        rotateView,
+        setSelectedColor,
+        palette,
+        selection,
+        canPaste,
+        copySelection,
+        cutSelection,
+        pasteClipboard,
+        deleteSelection,
+        selectRegion,
+    ]);
+
+    // Shrinking the grid drops voxels outside the new bounds, so ask first;
+    // blocks on hidden or locked layers are never dropped
+    const handleGridSizeChange = useCallback(
+        (size: number) => {
+            const editable = new Set(layers.filter((layer) => layer.visible && !layer.locked).map((layer) => layer.id));
+            let outside = 0;
+            let protectedOutside = 0;
+            voxels.forEach((voxel) => {
+                if (voxel.x < size && voxel.y < size) return;
+                if (editable.has(getVoxelLayerId(voxel, layers))) {
+                    outside++;
+                } else {
+                    protectedOutside++;
+                }
+            });
+
+            if (protectedOutside > 0) {
+                alert(`${protectedOutside} blocks on hidden or locked layers lie outside a ${size}×${size} grid. Show and unlock their layers to shrink it.`);
+                return;
+            }
+            if (outside === 0 || window.confirm(`Resizing to ${size}×${size} removes ${outside} blocks outside the grid. Continue?`)) {
+                resizeGrid(size);
+            }
+        },
+        [voxels, layers, resizeGrid]
+    );
+
+    const project = useMemo<ProjectData>(
+        () => ({ voxels, layers, lighting, palette, selectedColor, gridSize, checkpoints, frames, exportSettings }),
+        [voxels, layers, lighting, palette, selectedColor, gridSize, checkpoints, frames, exportSettings]
+    );
+
+    const library = useProjectLibrary(project, loadProject);
+
+    const projectBrowser = (
+        <ProjectBrowser
+            projects={library.projects}
+            currentId={library.currentId}
+            isAvailable={library.isAvailable}
+            onCreate={library.createProject}
+            onOpen={library.openProject}
+            onRename={library.renameProject}
+            onDuplicate={library.duplicateProject}
+            onDelete={library.removeProject}
+        />
+    );
+
+    const layersPanel = (
+        <LayersPanel
+            layers={layers}
+            currentLayerId={currentLayerId}
+            onSelect={setCurrentLayerId}
+            onAdd={addLayer}
+            onRename={renameLayer}
+            onMove={moveLayer}
+            onVisibleChange={setLayerVisible}
+            onLockedChange={setLayerLocked}
+            onMergeDown={mergeLayerDown}
+            onDelete={deleteLayer}
+        />
+    );
+
+    const imageImport = (
+        <ImageImport
+            gridSize={gridSize}
+            palette={palette}
+            selectedColor={selectedColor}
+            maxHeight={maxHeight}
+            onImport={importVoxels}
+        />
+    );
+
+    const historyPanel = (
+        <HistoryPanel
+            history={history}
+            checkpoints={checkpoints}
+            onJump={jumpToHistory}
+            getThumbnail={getHistoryThumbnail}
+            onAddCheckpoint={addCheckpoint}
+            onRestoreCheckpoint={restoreCheckpoint}
+            onDeleteCheckpoint={deleteCheckpoint}
+        />
+    );
+
+    const animationPanel = (
+        <AnimationPanel
+            voxels={voxels}
+            layers={layers}
+            lighting={lighting}
+            viewRotation={viewRotation}
+            voxelOutlines={voxelOutlines}
+            animation={animation}
+            previewing={previewAnimation}
+            onAnimationChange={setAnimation}
+            onPreviewChange={setPreviewAnimation}
+        />
+    );
+
+    const spriteSheetPanel = (
+        <SpriteSheetPanel
+            voxels={voxels}
+            layers={layers}
+            selection={selection}
+            lighting={lighting}
+            viewRotation={viewRotation}
+            voxelOutlines={voxelOutlines}
+        />
+    );
+
+    const frameTimeline = (
+        <FrameTimeline
+            frames={frames}
+            currentFrameId={currentFrameId}
+            lighting={lighting}
+            viewRotation={viewRotation}
+            voxelOutlines={voxelOutlines}
+            onionSkin={onionSkin}
+            onAddFrame={addFrame}
+            onUpdateFrame={updateFrame}
+            onShowFrame={showFrame}
+            onDeleteFrame={deleteFrame}
+            onMoveFrame={moveFrame}
+            onFrameDurationChange={setFrameDuration}
+            onOnionSkinChange={setOnionSkin}
+        />
+    );
+
+    // The frame before the current one, or the last frame when no frame is being edited
+    const onionSkinFrame = useMemo(() => {
+        if (!onionSkin) {
+            return undefined;
+        }
+        const index = frames.findIndex((frame) => frame.id === currentFrameId);
+        return index === -1 ? frames[frames.length - 1] : frames[index - 1];
+    }, [onionSkin, frames, currentFrameId]);
+
+    const onionSkinColors = useMemo(() => (onionSkinFrame ? getOnionSkin(onionSkinFrame) : undefined), [onionSkinFrame]);
 
+    // In layer mode the grid shows the active layer, otherwise the top of each column
     const getVoxelColor = useCallback(
         (x: number, y: number): string | undefined => {
-            return getVoxel(x, y)?.color;
+            return getVoxel(x, y, placementMode === 'layer' ? activeLayer : undefined)?.color;
+        },
+        [getVoxel, placementMode, activeLayer]
+    );
+
+    const hasCellVoxel = useCallback(
+        (x: number, y: number): boolean => {
+            return hasVoxel(x, y, placementMode === 'layer' ? activeLayer : undefined);
         },
-        [getVoxel]
+        [hasVoxel, placementMode, activeLayer]
+    );
+
+    const gridPanel = (
+        <div className="space-y-3">
+            <ToolPicker tool={tool} onToolChange={setTool} />
+            {(tool === 'select' || selection) && (
+                <SelectionBar
+                    hasSelection={selection !== null}
+                    canPaste={canPaste}
+                    onCopy={copySelection}
+                    onCut={cutSelection}
+                    onPaste={pasteClipboard}
+                    onRotate={rotateSelection}
+                    onMirror={mirrorSelection}
+                    onDelete={deleteSelection}
+                    onDeselect={() => selectRegion(null)}
+                />
+            )}
+            {isSculptTool(tool) && (
+                <SculptBar
+                    radius={sculptRadius}
+                    falloff={sculptFalloff}
+                    onRadiusChange={setSculptRadius}
+                    onFalloffChange={setSculptFalloff}
+                />
+            )}
+            <Grid
+                gridSize={gridSize}
+                onGridSizeChange={handleGridSizeChange}
+                onCellClick={addVoxel}
+                onCellRightClick={removeVoxel}
+                onPaintCells={paintCells}
+                onFill={fillRegion}
+                onSculpt={sculptCells}
+                onSelect={selectRegion}
+                onMoveSelection={moveSelection}
+                onSymmetryAxisChange={setSymmetryAxis}
+                onStrokeStart={beginStroke}
+                onStrokeEnd={endStroke}
+                hasVoxel={hasCellVoxel}
+                getVoxelColor={getVoxelColor}
+                getColumnHeight={getColumnHeight}
+                placementMode={placementMode}
+                activeLayer={activeLayer}
+                tool={tool}
+                selectedColor={selectedColor}
+                sculptRadius={sculptRadius}
+                selection={selection}
+                symmetry={symmetry}
+                symmetryAxis={symmetryAxis}
+                onionSkin={onionSkinColors}
+            />
+        </div>
     );
 
     return (
@@ -102,20 +429,25 @@ const App: React.FC = () => {
             <main className="container mx-auto px-4 py-6 md:py-8">
                 {/* Mobile/Tablet Layout (< 1024px) */}
                 <div className="lg:hidden space-y-4 md:space-y-6">
-                    <Grid
-                        onCellClick={addVoxel}
-                        onCellRightClick={removeVoxel}
-                        hasVoxel={hasVoxel}
-                        getVoxelColor={getVoxelColor}
-                    />
+                    {gridPanel}
 
-                    <ColorPicker selectedColor={selectedColor} onColorSelect={setSelectedColor} />
+                    <ColorPicker palette={palette} selectedColor={selectedColor} onColorSelect={setSelectedColor} />
 
                     <Controls
                         blockHeight={blockHeight}
-                        lightingAngle={lightingAngle}
+                        maxHeight={maxHeight}
+                        lighting={lighting}
+                        placementMode={placementMode}
+                        activeLayer={activeLayer}
+                        voxelOutlines={voxelOutlines}
+                        symmetry={symmetry}
                         onBlockHeightChange={setBlockHeight}
-                        onLightingAngleChange={setLightingAngle}
+                        onMaxHeightChange={setMaxHeight}
+                        onLightingChange={setLighting}
+                        onPlacementModeChange={setPlacementMode}
+                        onActiveLayerChange={setActiveLayer}
+                        onVoxelOutlinesChange={setVoxelOutlines}
+                        onSymmetryChange={setSymmetry}
                         onClear={clearGrid}
                         onUndo={undo}
                         onRedo={redo}
@@ -123,9 +455,42 @@ const App: React.FC = () => {
                         canRedo={canRedo}
                     />
 
-                    <IsometricPreview voxels={voxels} lightingAngle={lightingAngle} />
+                    <IsometricPreview
+                        voxels={voxels}
+                        layers={layers}
+                        lighting={lighting}
+                        viewRotation={viewRotation}
+                        voxelOutlines={voxelOutlines}
+                        animation={previewAnimation ? animation : null}
+                        onRotate={rotateView}
+                    />
+
+                    {layersPanel}
+
+                    {historyPanel}
+
+                    {projectBrowser}
+
+                    <ProjectMenu project={project} onLoad={library.addProject} />
+
+                    {imageImport}
+
+                    <ExportButton
+                        voxels={voxels}
+                        layers={layers}
+                        lighting={lighting}
+                        viewRotation={viewRotation}
+                        voxelOutlines={voxelOutlines}
+                        gridSize={gridSize}
+                        exportSettings={exportSettings}
+                        onExportSettingsChange={setExportSettings}
+                    />
+
+                    {animationPanel}
 
-                    <ExportButton voxels={voxels} lightingAngle={lightingAngle} />
+                    {spriteSheetPanel}
+
+                    {frameTimeline}
                 </div>
 
                 {/* Desktop Layout (>= 1024px) */}
@@ -133,13 +498,23 @@ const App: React.FC = () => {
                     {/* Left Sidebar - Controls */}
                     <div className="lg:col-span-3 space-y-6">
                         <div className="glass-effect rounded-lg p-6 space-y-6">
-                            <ColorPicker selectedColor={selectedColor} onColorSelect={setSelectedColor} />
+                            <ColorPicker palette={palette} selectedColor={selectedColor} onColorSelect={setSelectedColor} />
 
                             <Controls
                                 blockHeight={blockHeight}
-                                lightingAngle={lightingAngle}
+                                maxHeight={maxHeight}
+                                lighting={lighting}
+                                placementMode={placementMode}
+                                activeLayer={activeLayer}
+                                voxelOutlines={voxelOutlines}
+                                symmetry={symmetry}
                                 onBlockHeightChange={setBlockHeight}
-                                onLightingAngleChange={setLightingAngle}
+                                onMaxHeightChange={setMaxHeight}
+                                onLightingChange={setLighting}
+                                onPlacementModeChange={setPlacementMode}
+                                onActiveLayerChange={setActiveLayer}
+                                onVoxelOutlinesChange={setVoxelOutlines}
+                                onSymmetryChange={setSymmetry}
                                 onClear={clearGrid}
                                 onUndo={undo}
                                 onRedo={redo}
@@ -148,7 +523,30 @@ const App: React.FC = () => {
                             />
                         </div>
 
-                        <ExportButton voxels={voxels} lightingAngle={lightingAngle} />
+                        <div className="space-y-3">
+                            <ProjectMenu project={project} onLoad={library.addProject} />
+
+                            {imageImport}
+
+                            <ExportButton
+                                voxels={voxels}
+                                layers={layers}
+                                lighting={lighting}
+                                viewRotation={viewRotation}
+                                voxelOutlines={voxelOutlines}
+                                gridSize={gridSize}
+                                exportSettings={exportSettings}
+                                onExportSettingsChange={setExportSettings}
+                            />
+                        </div>
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {animationPanel}
+                        </div>
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {spriteSheetPanel}
+                        </div>
 
                         {/* Keyboard Shortcuts */}
                         <div className="glass-effect rounded-lg p-4 text-xs text-text-secondary">
@@ -159,24 +557,46 @@ const App: React.FC = () => {
                                 <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">H</kbd> Height +</li>
                                 <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">Shift+H</kbd> Height -</li>
                                 <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">L</kbd> Light +</li>
-                                <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">1-6</kbd> Select Color</li>
+                                <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">R</kbd> / <kbd className="px-1 py-0.5 bg-secondary-bg rounded">Shift+R</kbd> Rotate View</li>
+                                <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">1-9</kbd> Select Color</li>
+                                <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">Ctrl+C</kbd> / <kbd className="px-1 py-0.5 bg-secondary-bg rounded">X</kbd> / <kbd className="px-1 py-0.5 bg-secondary-bg rounded">V</kbd> Copy / Cut / Paste</li>
+                                <li><kbd className="px-1 py-0.5 bg-secondary-bg rounded">Del</kbd> Delete Selection</li>
                             </ul>
                         </div>
                     </div>
 
                     {/* Center - Grid */}
-                    <div className="lg:col-span-5">
-                        <Grid
-                            onCellClick={addVoxel}
-                            onCellRightClick={removeVoxel}
-                            hasVoxel={hasVoxel}
-                            getVoxelColor={getVoxelColor}
-                        />
+                    <div className="lg:col-span-5 space-y-6">
+                        {gridPanel}
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {frameTimeline}
+                        </div>
                     </div>
 
                     {/* Right Sidebar - Preview */}
-                    <div className="lg:col-span-4">
-                        <IsometricPreview voxels={voxels} lightingAngle={lightingAngle} />
+                    <div className="lg:col-span-4 space-y-6">
+                        <IsometricPreview
+                            voxels={voxels}
+                            layers={layers}
+                            lighting={lighting}
+                            viewRotation={viewRotation}
+                            voxelOutlines={voxelOutlines}
+                            animation={previewAnimation ? animation : null}
+                            onRotate={rotateView}
+                        />
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {layersPanel}
+                        </div>
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {historyPanel}
+                        </div>
+
+                        <div className="glass-effect rounded-lg p-4">
+                            {projectBrowser}
+                        </div>
                     </div>
                 </div>
             </main>
@@ -0,0 +1,92 @@
+import { readdirSync } from 'node:fs';
+import path from 'node:path';
+
+const GLOB_CHARS = /[*?[{]/;
+
+/**
+ * Turn a glob into a regular expression over `/`-separated paths.
+ * Supports `*`, `?`, `**` for any number of directories, `[abc]` and `{a,b}`.
+ * @param pattern - Glob pattern
+ * @returns Expression matching whole paths
+ */
+export const globToRegExp = (pattern: string): RegExp => {
+    let source = '';
+    let braces = 0;
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // `**/` matches zero or more directories
+            const slash = pattern[i + 2] === '/';
+            source += slash ? '(?:[^/]*/)*' : '.*';
+            i += slash ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[') {
+            const end = pattern.indexOf(']', i + 1);
+            if (end === -1) {
+                source += '\\[';
+            } else {
+                source += `[${pattern.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\')}]`;
+                i = end;
+            }
+        } else if (char === '{') {
+            braces++;
+            source += '(?:';
+        } else if (char === '}' && braces > 0) {
+            braces--;
+            source += ')';
+        } else if (char === ',' && braces > 0) {
+            source += '|';
+        } else {
+            source += char.replace(/[.+^$()|\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+};
+
+/**
+ * Every file under a directory, as paths joined to it
+ */
+const listFiles = (directory: string): string[] => {
+    const files: string[] = [];
+    readdirSync(directory, { withFileTypes: true }).forEach((entry) => {
+        const entryPath = directory === '.' ? entry.name : path.posix.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            if (entry.name !== 'node_modules' && entry.name !== '.git') {
+                files.push(...listFiles(entryPath));
+            }
+        } else if (entry.isFile()) {
+            files.push(entryPath);
+        }
+    });
+    return files;
+};
+
+/**
+ * Expand a glob into the files it matches, sorted. Paths without glob characters are returned as is,
+ * so shells that already expanded the pattern work too. `node_modules` and `.git` are not searched.
+ * @param pattern - File path or glob
+ * @returns Matching file paths
+ */
+export const expandGlob = (pattern: string): string[] => {
+    const normalized = pattern.split(path.sep).join('/');
+    if (!GLOB_CHARS.test(normalized)) {
+        return [pattern];
+    }
+
+    // Only search below the part of the pattern without glob characters
+    const segments = normalized.split('/');
+    const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+    const base = segments.slice(0, firstGlob).join('/') || (normalized.startsWith('/') ? '/' : '.');
+    const matcher = globToRegExp(normalized.replace(/^\.\//, ''));
+
+    let files: string[];
+    try {
+        files = listFiles(base);
+    } catch {
+        return [];
+    }
+    return files.filter((file) => matcher.test(file.replace(/^\.\//, ''))).sort();
+};
@@ -0,0 +1,369 @@
+import { existsSync, mkdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import type { ExportSettings, Lighting } from '../types/voxel';
+import { encodePNG } from '../utils/apng';
+import {
+    MAX_EXPORT_PADDING,
+    MAX_EXPORT_SCALE,
+    MAX_EXPORT_SIZE,
+    MAX_OUTLINE_WIDTH,
+    MIN_EXPORT_SCALE,
+    applyExportSettings,
+    getExportSceneOptions,
+} from '../utils/exportSettings';
+import { generateSceneSVG, optimizeSVG } from '../utils/isometric';
+import { MAX_LIGHT_ELEVATION, MIN_LIGHT_ELEVATION } from '../utils/lighting';
+import { PROJECT_EXTENSION, ProjectFileError, parseProject } from '../utils/project';
+import { rasterizeSVGPixels } from '../utils/softwareRaster';
+import { addSVGMetadata } from '../utils/svg';
+import { expandGlob } from './glob';
+import { version } from '../../package.json';
+
+type OutputFormat = 'svg' | 'png';
+
+/**
+ * Exit codes: rendering failures and bad command lines are told apart for scripts
+ */
+const EXIT_RENDER_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = `Usage: voxel-render <input...> [options]
+
+Render Isometric Voxel Builder projects (${PROJECT_EXTENSION}) to SVG or PNG.
+Inputs are files or quoted globs such as "docs/**/*${PROJECT_EXTENSION}".
+Image settings default to the ones saved with each project.
+
+Options:
+  -o, --output <path>       Output file, or a directory when rendering several inputs
+                            (default: next to each input)
+  -f, --format <svg|png>    Output format (default: the output file extension, else svg)
+      --angle <degrees>     Direction the light comes from, 0-360 (default: the project's)
+      --elevation <degrees> Height of the light, ${MIN_LIGHT_ELEVATION}-${MAX_LIGHT_ELEVATION}
+      --ambient <share>     Light reaching every face, 0-1
+      --light-color <color> Color of the direct light, #RRGGBB
+      --shadows <on|off>    Cast shadows onto the ground and lower blocks
+      --ambient-occlusion <on|off>
+                            Darken inner corners where blocks meet
+      --rotation <turns>    View rotation in quarter turns clockwise, 0-3 (default: 0)
+      --scale <factor>      Pixels per drawing unit, ${MIN_EXPORT_SCALE}-${MAX_EXPORT_SCALE}
+      --width <px>          Fit the scene into this width and --height, keeping its aspect ratio
+      --height <px>
+      --padding <units>     Space around the blocks, 0-${MAX_EXPORT_PADDING}
+      --background <color>  #RRGGBB, or "transparent"
+      --outline <color>     #RRGGBB, or "none"
+      --outline-width <n>   Outline width, 0-${MAX_OUTLINE_WIDTH}
+      --voxel-outlines      Draw every block face separately instead of merging flat areas
+  -h, --help                Show this help
+  -v, --version             Show the version`;
+
+const OPTIONS = {
+    output: { type: 'string', short: 'o' },
+    format: { type: 'string', short: 'f' },
+    angle: { type: 'string' },
+    elevation: { type: 'string' },
+    ambient: { type: 'string' },
+    'light-color': { type: 'string' },
+    shadows: { type: 'string' },
+    'ambient-occlusion': { type: 'string' },
+    rotation: { type: 'string' },
+    scale: { type: 'string' },
+    width: { type: 'string' },
+    height: { type: 'string' },
+    padding: { type: 'string' },
+    background: { type: 'string' },
+    outline: { type: 'string' },
+    'outline-width': { type: 'string' },
+    'voxel-outlines': { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+    version: { type: 'boolean', short: 'v' },
+} as const;
+
+/**
+ * Parse the command line against OPTIONS
+ * @throws TypeError for unknown options and missing values
+ */
+const parseCommandLine = (argv: string[]) => parseArgs({ args: argv, options: OPTIONS, allowPositionals: true, strict: true });
+
+/**
+ * Error in the command line, reported with a hint to --help
+ */
+class UsageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'UsageError';
+    }
+}
+
+/**
+ * Parse a numeric option
+ * @param name - Option name, for messages
+ * @param value - Raw value, if the option was given
+ * @param min - Smallest allowed value
+ * @param max - Largest allowed value
+ * @param integer - Whether only whole numbers are allowed
+ * @returns Number, or undefined when the option was not given
+ * @throws UsageError when the value is not a number in range
+ */
+const readNumberOption = (name: string, value: string | undefined, min: number, max: number, integer = false): number | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+    const number = Number(value);
+    if (value.trim() === '' || !Number.isFinite(number) || number < min || number > max || (integer && !Number.isInteger(number))) {
+        throw new UsageError(`--${name} must be ${integer ? 'an integer' : 'a number'} from ${min} to ${max}, got "${value}"`);
+    }
+    return number;
+};
+
+/**
+ * Parse a color option
+ * @param name - Option name, for messages
+ * @param value - Raw value, if the option was given
+ * @param off - Word that turns the color off, if the color can be turned off
+ * @returns Color, null when turned off, or undefined when the option was not given
+ * @throws UsageError when the value is neither a hex color nor the off word
+ */
+const readColorOption = (name: string, value: string | undefined, off?: string): string | null | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (off !== undefined && value === off) {
+        return null;
+    }
+    if (!/^#[0-9a-f]{6}$/i.test(value)) {
+        throw new UsageError(`--${name} must be a #RRGGBB color${off === undefined ? '' : ` or "${off}"`}, got "${value}"`);
+    }
+    return value;
+};
+
+/**
+ * Parse a switch option
+ * @param name - Option name, for messages
+ * @param value - Raw value, if the option was given
+ * @returns Whether the switch is on, or undefined when the option was not given
+ * @throws UsageError when the value is neither on nor off
+ */
+const readSwitchOption = (name: string, value: string | undefined): boolean | undefined => {
+    if (value === undefined) {
+        return undefined;
+    }
+    if (value !== 'on' && value !== 'off') {
+        throw new UsageError(`--${name} must be "on" or "off", got "${value}"`);
+    }
+    return value === 'on';
+};
+
+/**
+ * Output path of an input file
+ * @param input - Project file
+ * @param output - --output value, if given
+ * @param manyInputs - Whether several files are being rendered
+ * @param format - Output format
+ */
+const getOutputPath = (input: string, output: string | undefined, manyInputs: boolean, format: OutputFormat): string => {
+    const name = path.basename(input).replace(new RegExp(`(${PROJECT_EXTENSION.replace(/\./g, '\\.')}|\\.json)$`), '');
+    if (output === undefined) {
+        return path.join(path.dirname(input), `${name}.${format}`);
+    }
+    if (manyInputs || (existsSync(output) && statSync(output).isDirectory())) {
+        return path.join(output, `${name}.${format}`);
+    }
+    return output;
+};
+
+/**
+ * Render one project file
+ * @param input - Project file
+ * @param outputPath - File to write
+ * @param format - Output format
+ * @param overrides - Export settings given on the command line
+ * @param lightOverrides - Light settings given on the command line
+ * @param rotation - View rotation in quarter turns
+ * @param voxelOutlines - Draw every block face separately
+ */
+const renderFile = async (
+    input: string,
+    outputPath: string,
+    format: OutputFormat,
+    overrides: Partial<ExportSettings>,
+    lightOverrides: Partial<Lighting>,
+    rotation: number,
+    voxelOutlines: boolean
+): Promise<void> => {
+    const project = parseProject(readFileSync(input, 'utf8'));
+    const settings: ExportSettings = { ...project.exportSettings, ...overrides };
+
+    const lighting: Lighting = { ...project.lighting, ...lightOverrides };
+
+    const scene = generateSceneSVG(project.voxels, lighting, rotation, {
+        voxelOutlines,
+        layers: project.layers,
+        ...getExportSceneOptions(settings),
+    });
+    const { svg, width, height } = applyExportSettings(scene, settings);
+
+    mkdirSync(path.dirname(outputPath), { recursive: true });
+    if (format === 'svg') {
+        writeFileSync(outputPath, addSVGMetadata(optimizeSVG(svg)));
+    } else {
+        writeFileSync(outputPath, await encodePNG(rasterizeSVGPixels(svg, width, height), width, height));
+    }
+};
+
+/**
+ * Run the command line
+ * @param argv - Arguments after the program name
+ * @returns Exit code
+ */
+const main = async (argv: string[]): Promise<number> => {
+    let parsed: ReturnType<typeof parseCommandLine>;
+    try {
+        parsed = parseCommandLine(argv);
+    } catch (error) {
+        console.error(`voxel-render: ${error instanceof Error ? error.message : error}\nRun voxel-render --help for usage.`);
+        return EXIT_USAGE;
+    }
+    const { values, positionals } = parsed;
+
+    if (values.help) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (values.version) {
+        console.log(version);
+        return 0;
+    }
+
+    let format: OutputFormat;
+    let overrides: Partial<ExportSettings>;
+    let lightOverrides: Partial<Lighting>;
+    let rotation: number;
+    try {
+        if (positionals.length === 0) {
+            throw new UsageError('No input files');
+        }
+
+        const extension = values.output ? path.extname(values.output).slice(1).toLowerCase() : '';
+        const requested = values.format?.toLowerCase() ?? (extension === 'png' || extension === 'svg' ? extension : 'svg');
+        if (requested !== 'svg' && requested !== 'png') {
+            throw new UsageError(`--format must be svg or png, got "${values.format}"`);
+        }
+        format = requested;
+
+        const azimuth = readNumberOption('angle', values.angle, 0, 360);
+        const elevation = readNumberOption('elevation', values.elevation, MIN_LIGHT_ELEVATION, MAX_LIGHT_ELEVATION);
+        const ambient = readNumberOption('ambient', values.ambient, 0, 1);
+        const lightColor = readColorOption('light-color', values['light-color']);
+        const shadows = readSwitchOption('shadows', values.shadows);
+        const ambientOcclusion = readSwitchOption('ambient-occlusion', values['ambient-occlusion']);
+        lightOverrides = {
+            ...(azimuth !== undefined && { azimuth }),
+            ...(elevation !== undefined && { elevation }),
+            ...(ambient !== undefined && { ambient }),
+            ...(lightColor && { color: lightColor }),
+            ...(shadows !== undefined && { shadows }),
+            ...(ambientOcclusion !== undefined && { ambientOcclusion }),
+        };
+        rotation = readNumberOption('rotation', values.rotation, 0, 3, true) ?? 0;
+
+        const width = readNumberOption('width', values.width, 1, MAX_EXPORT_SIZE, true);
+        const height = readNumberOption('height', values.height, 1, MAX_EXPORT_SIZE, true);
+        const scale = readNumberOption('scale', values.scale, MIN_EXPORT_SCALE, MAX_EXPORT_SCALE);
+        if ((width === undefined) !== (height === undefined)) {
+            throw new UsageError('--width and --height must be given together');
+        }
+        if (width !== undefined && scale !== undefined) {
+            throw new UsageError('Use either --scale or --width and --height, not both');
+        }
+        const background = readColorOption('background', values.background, 'transparent');
+        const outline = readColorOption('outline', values.outline, 'none');
+        const padding = readNumberOption('padding', values.padding, 0, MAX_EXPORT_PADDING);
+        const outlineWidth = readNumberOption('outline-width', values['outline-width'], 0, MAX_OUTLINE_WIDTH);
+
+        overrides = {
+            ...(scale !== undefined && { sizeMode: 'scale', scale }),
+            ...(width !== undefined && height !== undefined && { sizeMode: 'fit', width, height }),
+            ...(padding !== undefined && { padding }),
+            ...(background !== undefined && { background }),
+            ...(outline === null && { outlines: false }),
+            ...(outline && { outlines: true, outlineColor: outline }),
+            ...(outlineWidth !== undefined && { outlineWidth }),
+        };
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`voxel-render: ${error.message}\nRun voxel-render --help for usage.`);
+            return EXIT_USAGE;
+        }
+        throw error;
+    }
+
+    const inputs: string[] = [];
+    const seen = new Set<string>();
+    // A glob always writes into --output as a directory, even when it matches one file
+    let usedGlob = false;
+    let failed = false;
+    positionals.forEach((pattern) => {
+        const matches = expandGlob(pattern);
+        if (matches.length === 0) {
+            console.error(`voxel-render: ${pattern}: no files match`);
+            failed = true;
+        }
+        usedGlob = usedGlob || matches.length !== 1 || matches[0] !== pattern;
+        // A file matched by several patterns is rendered once
+        matches.forEach((match) => {
+            const resolved = path.resolve(match);
+            if (!seen.has(resolved)) {
+                seen.add(resolved);
+                inputs.push(match);
+            }
+        });
+    });
+
+    // Files with the same name in different folders would overwrite each other's output
+    const manyInputs = inputs.length > 1 || usedGlob;
+    const outputPaths = inputs.map((input) => getOutputPath(input, values.output, manyInputs, format));
+    const writers = new Map<string, string>();
+    let clashes = false;
+    outputPaths.forEach((outputPath, index) => {
+        const resolved = path.resolve(outputPath);
+        const other = writers.get(resolved);
+        if (other !== undefined) {
+            console.error(`voxel-render: ${other} and ${inputs[index]} would both be written to ${outputPath}`);
+            clashes = true;
+        }
+        writers.set(resolved, inputs[index]);
+    });
+    if (clashes) {
+        console.error('voxel-render: nothing was rendered; rename the inputs or render them into separate --output directories');
+        return EXIT_USAGE;
+    }
+
+    for (const [index, input] of inputs.entries()) {
+        const outputPath = outputPaths[index];
+        try {
+            await renderFile(input, outputPath, format, overrides, lightOverrides, rotation, values['voxel-outlines'] ?? false);
+            console.log(`${input} -> ${outputPath}`);
+        } catch (error) {
+            const reason = error instanceof ProjectFileError
+                ? `invalid project: ${error.message}`
+                : (error as NodeJS.ErrnoException).code === 'ENOENT'
+                    ? 'file not found'
+                    : error instanceof Error ? error.message : String(error);
+            console.error(`voxel-render: ${input}: ${reason}`);
+            failed = true;
+        }
+    }
+
+    return failed ? EXIT_RENDER_FAILED : 0;
+};
+
+main(process.argv.slice(2)).then(
+    (code) => {
+        process.exitCode = code;
+    },
+    (error) => {
+        console.error(`voxel-render: ${error instanceof Error ? error.message : error}`);
+        process.exitCode = EXIT_RENDER_FAILED;
+    }
+);
@@ -0,0 +1,153 @@
+import React, { useCallback } from 'react';
+import type { Lighting, SVGAnimationEasing, SVGAnimationMode, SVGAnimationOptions, Voxel, VoxelLayer } from '../types/voxel';
+import { MAX_ANIMATION_DURATION, MIN_ANIMATION_DURATION, generateAnimatedSVG } from '../utils/animation';
+import { optimizeSVG } from '../utils/isometric';
+import { addSVGMetadata, downloadSVG } from '../utils/svg';
+
+interface AnimationPanelProps {
+    voxels: Map<string, Voxel>;
+    layers: VoxelLayer[];
+    lighting: Lighting;
+    viewRotation: number;
+    voxelOutlines: boolean;
+    animation: SVGAnimationOptions;
+    previewing: boolean;
+    onAnimationChange: (animation: SVGAnimationOptions) => void;
+    onPreviewChange: (previewing: boolean) => void;
+}
+
+const MODE_OPTIONS: { mode: SVGAnimationMode; label: string; title: string }[] = [
+    { mode: 'build', label: 'Build-up', title: 'Blocks drop in one by one, back to front' },
+    { mode: 'lighting', label: 'Light sweep', title: 'The light circles the scene once' },
+    { mode: 'turntable', label: 'Turntable', title: 'Step through the four views' },
+];
+
+const EASING_OPTIONS: { easing: SVGAnimationEasing; label: string }[] = [
+    { easing: 'linear', label: 'Linear' },
+    { easing: 'ease-in', label: 'Ease in' },
+    { easing: 'ease-out', label: 'Ease out' },
+    { easing: 'ease-in-out', label: 'Ease in-out' },
+];
+
+/**
+ * Settings, preview toggle and download for animated SVG exports
+ * @param props - Component props
+ * @returns AnimationPanel component
+ */
+const AnimationPanel: React.FC<AnimationPanelProps> = ({
+    voxels,
+    layers,
+    lighting,
+    viewRotation,
+    voxelOutlines,
+    animation,
+    previewing,
+    onAnimationChange,
+    onPreviewChange,
+}) => {
+    const handleDurationChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const duration = Number(event.target.value);
+            if (Number.isFinite(duration) && duration > 0) {
+                onAnimationChange({
+                    ...animation,
+                    duration: Math.max(MIN_ANIMATION_DURATION, Math.min(MAX_ANIMATION_DURATION, duration)),
+                });
+            }
+        },
+        [animation, onAnimationChange]
+    );
+
+    const handleExport = useCallback(() => {
+        try {
+            const svg = generateAnimatedSVG(voxels, lighting, viewRotation, { voxelOutlines, layers }, animation);
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+            downloadSVG(addSVGMetadata(optimizeSVG(svg)), `isometric-voxel-${timestamp}-${animation.mode}.svg`);
+        } catch (error) {
+            console.error('Animation export failed:', error);
+            alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }, [voxels, lighting, viewRotation, voxelOutlines, layers, animation]);
+
+    const hasVoxels = voxels.size > 0;
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-sm font-semibold text-text-secondary">Animated SVG</label>
+
+            <div className="flex gap-1" role="group" aria-label="Animation">
+                {MODE_OPTIONS.map((option) => (
+                    <button
+                        key={option.mode}
+                        onClick={() => onAnimationChange({ ...animation, mode: option.mode })}
+                        className={`flex-1 px-2 py-1 rounded-lg text-xs font-semibold transition-all ${animation.mode === option.mode
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-pressed={animation.mode === option.mode}
+                        title={option.title}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+                <label className="flex items-center gap-1">
+                    Seconds
+                    <input
+                        type="number"
+                        min={MIN_ANIMATION_DURATION}
+                        max={MAX_ANIMATION_DURATION}
+                        step="0.5"
+                        value={animation.duration}
+                        onChange={handleDurationChange}
+                        onKeyDown={(e) => e.stopPropagation()}
+                        className="w-16 px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    />
+                </label>
+                <label className="flex items-center gap-1">
+                    Easing
+                    <select
+                        value={animation.easing}
+                        onChange={(e) => onAnimationChange({ ...animation, easing: e.target.value as SVGAnimationEasing })}
+                        className="px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    >
+                        {EASING_OPTIONS.map(({ easing, label }) => (
+                            <option key={easing} value={easing}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={animation.loop}
+                        onChange={(e) => onAnimationChange({ ...animation, loop: e.target.checked })}
+                    />
+                    Loop
+                </label>
+            </div>
+
+            <div className="flex gap-2">
+                <button
+                    onClick={() => onPreviewChange(!previewing)}
+                    className="btn-secondary flex-1"
+                    aria-pressed={previewing}
+                    title="Play the animation in the isometric preview"
+                >
+                    {previewing ? '■ Stop preview' : '▶ Preview'}
+                </button>
+                <button
+                    onClick={handleExport}
+                    disabled={!hasVoxels}
+                    className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Download animated SVG"
+                >
+                    ⬇️ Animated SVG
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default AnimationPanel;
@@ -1,8 +1,8 @@
 import React, { useCallback } from 'react';
 import type { ColorOption } from '../types/voxel';
-import { TECH_COLORS } from '../utils/colors';
 
 interface ColorPickerProps {
+    palette: ColorOption[];
     selectedColor: string;
     onColorSelect: (color: string) => void;
 }
@@ -12,7 +12,7 @@ interface ColorPickerProps {
  * @param props - Component props
  * @returns ColorPicker component
  */
-const ColorPicker: React.FC<ColorPickerProps> = ({ selectedColor, onColorSelect }) => {
+const ColorPicker: React.FC<ColorPickerProps> = ({ palette, selectedColor, onColorSelect }) => {
     const handleColorClick = useCallback(
         (color: ColorOption) => {
             onColorSelect(color.hex);
@@ -36,7 +36,7 @@ const ColorPicker: React.FC<ColorPickerProps> = ({ selectedColor, onColorSelect
                 Color Palette
             </label>
             <div className="grid grid-cols-4 sm:grid-cols-7 gap-2 sm:gap-3">
-                {TECH_COLORS.map((color) => {
+                {palette.map((color) => {
                     const isSelected = color.hex === selectedColor;
 
                     return (
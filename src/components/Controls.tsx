@@ -1,10 +1,32 @@
 import React, { useCallback } from 'react';
+import type { Lighting, PlacementMode, SymmetryMode } from '../types/voxel';
+import { DEFAULT_LIGHTING, MAX_LIGHT_ELEVATION, MIN_LIGHT_ELEVATION } from '../utils/lighting';
+import { MIN_SHADOW_ELEVATION } from '../utils/shadows';
+import { MAX_LAYERS } from '../utils/voxels';
+
+const SYMMETRY_OPTIONS: { mode: SymmetryMode; label: string; title: string }[] = [
+    { mode: 'none', label: 'Off', title: 'No symmetry' },
+    { mode: 'mirror-x', label: 'X', title: 'Mirror left and right' },
+    { mode: 'mirror-y', label: 'Y', title: 'Mirror top and bottom' },
+    { mode: 'quad', label: 'Both', title: 'Mirror across both axes' },
+    { mode: 'radial', label: '4-way', title: 'Repeat in four quarter turns' },
+];
 
 interface ControlsProps {
     blockHeight: number;
-    lightingAngle: number;
+    maxHeight: number;
+    lighting: Lighting;
+    placementMode: PlacementMode;
+    activeLayer: number;
+    voxelOutlines: boolean;
+    symmetry: SymmetryMode;
     onBlockHeightChange: (height: number) => void;
-    onLightingAngleChange: (angle: number) => void;
+    onMaxHeightChange: (height: number) => void;
+    onLightingChange: (lighting: Lighting) => void;
+    onPlacementModeChange: (mode: PlacementMode) => void;
+    onActiveLayerChange: (layer: number) => void;
+    onVoxelOutlinesChange: (enabled: boolean) => void;
+    onSymmetryChange: (mode: SymmetryMode) => void;
     onClear: () => void;
     onUndo: () => void;
     onRedo: () => void;
@@ -19,9 +41,19 @@ interface ControlsProps {
  */
 const Controls: React.FC<ControlsProps> = ({
     blockHeight,
-    lightingAngle,
+    maxHeight,
+    lighting,
+    placementMode,
+    activeLayer,
+    voxelOutlines,
+    symmetry,
     onBlockHeightChange,
-    onLightingAngleChange,
+    onMaxHeightChange,
+    onLightingChange,
+    onPlacementModeChange,
+    onActiveLayerChange,
+    onVoxelOutlinesChange,
+    onSymmetryChange,
     onClear,
     onUndo,
     onRedo,
@@ -35,69 +67,298 @@ const Controls: React.FC<ControlsProps> = ({
         [onBlockHeightChange]
     );
 
-    const handleAngleChange = useCallback(
+    const handleMaxHeightChange = useCallback(
+        (event: React.ChangeEvent<HTMLInputElement>) => {
+            const height = Number(event.target.value);
+            if (Number.isFinite(height) && height >= 1) {
+                onMaxHeightChange(height);
+            }
+        },
+        [onMaxHeightChange]
+    );
+
+    const updateLighting = useCallback(
+        (changes: Partial<Lighting>) => {
+            onLightingChange({ ...lighting, ...changes });
+        },
+        [lighting, onLightingChange]
+    );
+
+    const handleLayerChange = useCallback(
         (event: React.ChangeEvent<HTMLInputElement>) => {
-            onLightingAngleChange(Number(event.target.value));
+            onActiveLayerChange(Number(event.target.value));
         },
-        [onLightingAngleChange]
+        [onActiveLayerChange]
     );
 
+    const maxLayer = MAX_LAYERS - 1;
+    const heightProgress = maxHeight > 1 ? ((blockHeight - 1) / (maxHeight - 1)) * 100 : 100;
+    const azimuthProgress = (lighting.azimuth / 360) * 100;
+    const elevationProgress = ((lighting.elevation - MIN_LIGHT_ELEVATION) / (MAX_LIGHT_ELEVATION - MIN_LIGHT_ELEVATION)) * 100;
+    const ambientPercent = Math.round(lighting.ambient * 100);
+
     return (
         <div className="w-full space-y-6">
+            {/* Placement Mode */}
+            <div>
+                <span className="block text-sm font-semibold mb-2 text-text-secondary">Placement</span>
+                <div className="flex gap-2" role="group" aria-label="Block placement mode">
+                    <button
+                        onClick={() => onPlacementModeChange('stack')}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${placementMode === 'stack'
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-pressed={placementMode === 'stack'}
+                        title="Stack blocks on top of each column"
+                    >
+                        Stack
+                    </button>
+                    <button
+                        onClick={() => onPlacementModeChange('layer')}
+                        className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${placementMode === 'layer'
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-pressed={placementMode === 'layer'}
+                        title="Paint blocks on the selected layer"
+                    >
+                        Layer
+                    </button>
+                </div>
+            </div>
+
+            {/* Symmetry Mode */}
+            <div>
+                <span className="block text-sm font-semibold mb-2 text-text-secondary">Symmetry</span>
+                <div className="flex gap-1" role="group" aria-label="Symmetry mode">
+                    {SYMMETRY_OPTIONS.map((option) => (
+                        <button
+                            key={option.mode}
+                            onClick={() => onSymmetryChange(option.mode)}
+                            className={`flex-1 px-2 py-2 rounded-lg text-xs font-semibold transition-all ${symmetry === option.mode
+                                ? 'bg-electric-blue text-white'
+                                : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                                }`}
+                            aria-pressed={symmetry === option.mode}
+                            title={option.title}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {/* Active Layer Slider */}
+            {placementMode === 'layer' && (
+                <div>
+                    <label
+                        htmlFor="active-layer"
+                        className="block text-sm font-semibold mb-2 text-text-secondary"
+                    >
+                        Active Layer: <span className="text-cyber-purple">{activeLayer}</span>
+                    </label>
+                    <input
+                        id="active-layer"
+                        type="range"
+                        min="0"
+                        max={maxLayer}
+                        value={activeLayer}
+                        onChange={handleLayerChange}
+                        className="w-full h-11 rounded-lg appearance-none cursor-pointer"
+                        style={{
+                            background: `linear-gradient(to right, #8B5CF6 0%, #8B5CF6 ${(activeLayer / maxLayer) * 100}%, #1e293b ${(activeLayer / maxLayer) * 100}%, #1e293b 100%)`,
+                        }}
+                        aria-valuemin={0}
+                        aria-valuemax={maxLayer}
+                        aria-valuenow={activeLayer}
+                        aria-label={`Active layer: ${activeLayer}`}
+                    />
+                </div>
+            )}
+
             {/* Block Height Slider */}
             <div>
-                <label
-                    htmlFor="block-height"
-                    className="block text-sm font-semibold mb-2 text-text-secondary"
-                >
-                    Block Height: <span className="text-electric-blue">{blockHeight}</span>
-                </label>
+                <div className="flex justify-between items-center mb-2">
+                    <label
+                        htmlFor="block-height"
+                        className="block text-sm font-semibold text-text-secondary"
+                    >
+                        Block Height: <span className="text-electric-blue">{blockHeight}</span>
+                    </label>
+                    <label className="flex items-center gap-1 text-xs text-text-secondary" title="Tallest height for the slider and sculpt brushes">
+                        Max
+                        <input
+                            type="number"
+                            min="1"
+                            max={MAX_LAYERS}
+                            value={maxHeight}
+                            onChange={handleMaxHeightChange}
+                            onKeyDown={(e) => e.stopPropagation()}
+                            className="w-14 px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                            aria-label="Maximum height"
+                        />
+                    </label>
+                </div>
                 <input
                     id="block-height"
                     type="range"
                     min="1"
-                    max="10"
+                    max={maxHeight}
                     value={blockHeight}
                     onChange={handleHeightChange}
                     className="w-full h-11 rounded-lg appearance-none cursor-pointer bg-secondary-bg"
                     style={{
-                        background: `linear-gradient(to right, #3B82F6 0%, #3B82F6 ${((blockHeight - 1) / 9) * 100}%, #1e293b ${((blockHeight - 1) / 9) * 100}%, #1e293b 100%)`,
+                        background: `linear-gradient(to right, #3B82F6 0%, #3B82F6 ${heightProgress}%, #1e293b ${heightProgress}%, #1e293b 100%)`,
                     }}
                     aria-valuemin={1}
-                    aria-valuemax={10}
+                    aria-valuemax={maxHeight}
                     aria-valuenow={blockHeight}
                     aria-label={`Block height: ${blockHeight} blocks`}
                 />
             </div>
 
-            {/* Lighting Angle Slider */}
-            <div>
-                <label
-                    htmlFor="lighting-angle"
-                    className="block text-sm font-semibold mb-2 text-text-secondary"
-                >
-                    Lighting Angle: <span className="text-tech-teal">{lightingAngle}°</span>
-                </label>
-                <p className="text-xs text-text-secondary mb-2 opacity-75">
-                    Adjusts shadow direction on 3D blocks
-                </p>
+            {/* Lighting */}
+            <div className="space-y-3">
+                <div className="flex justify-between items-center">
+                    <span className="block text-sm font-semibold text-text-secondary">Lighting</span>
+                    <div className="flex items-center gap-2">
+                        <input
+                            type="color"
+                            value={lighting.color}
+                            onChange={(e) => updateLighting({ color: e.target.value })}
+                            className="w-8 h-6 rounded cursor-pointer bg-transparent"
+                            aria-label="Light color"
+                            title="Light color"
+                        />
+                        <button
+                            onClick={() => onLightingChange(DEFAULT_LIGHTING)}
+                            className="text-xs text-text-secondary hover:text-text-primary"
+                            title="Reset the light to its defaults"
+                        >
+                            Reset
+                        </button>
+                    </div>
+                </div>
+
+                <div>
+                    <label
+                        htmlFor="light-azimuth"
+                        className="block text-xs text-text-secondary mb-1"
+                    >
+                        Direction: <span className="text-tech-teal">{lighting.azimuth}°</span>
+                    </label>
+                    <input
+                        id="light-azimuth"
+                        type="range"
+                        min="0"
+                        max="360"
+                        value={lighting.azimuth}
+                        onChange={(e) => updateLighting({ azimuth: Number(e.target.value) })}
+                        className="w-full h-11 rounded-lg appearance-none cursor-pointer"
+                        style={{
+                            background: `linear-gradient(to right, #14B8A6 0%, #14B8A6 ${azimuthProgress}%, #1e293b ${azimuthProgress}%, #1e293b 100%)`,
+                        }}
+                        aria-valuemin={0}
+                        aria-valuemax={360}
+                        aria-valuenow={lighting.azimuth}
+                        aria-label={`Light direction: ${lighting.azimuth} degrees`}
+                    />
+                </div>
+
+                <div>
+                    <label
+                        htmlFor="light-elevation"
+                        className="block text-xs text-text-secondary mb-1"
+                    >
+                        Height: <span className="text-tech-teal">{lighting.elevation}°</span>
+                    </label>
+                    <input
+                        id="light-elevation"
+                        type="range"
+                        min={MIN_LIGHT_ELEVATION}
+                        max={MAX_LIGHT_ELEVATION}
+                        value={lighting.elevation}
+                        onChange={(e) => updateLighting({ elevation: Number(e.target.value) })}
+                        className="w-full h-11 rounded-lg appearance-none cursor-pointer"
+                        style={{
+                            background: `linear-gradient(to right, #14B8A6 0%, #14B8A6 ${elevationProgress}%, #1e293b ${elevationProgress}%, #1e293b 100%)`,
+                        }}
+                        aria-valuemin={MIN_LIGHT_ELEVATION}
+                        aria-valuemax={MAX_LIGHT_ELEVATION}
+                        aria-valuenow={lighting.elevation}
+                        aria-label={`Light height: ${lighting.elevation} degrees above the ground`}
+                    />
+                </div>
+
+                <div>
+                    <label
+                        htmlFor="light-ambient"
+                        className="block text-xs text-text-secondary mb-1"
+                    >
+                        Ambient: <span className="text-tech-teal">{ambientPercent}%</span>
+                    </label>
+                    <input
+                        id="light-ambient"
+                        type="range"
+                        min="0"
+                        max="100"
+                        value={ambientPercent}
+                        onChange={(e) => updateLighting({ ambient: Number(e.target.value) / 100 })}
+                        className="w-full h-11 rounded-lg appearance-none cursor-pointer"
+                        style={{
+                            background: `linear-gradient(to right, #14B8A6 0%, #14B8A6 ${ambientPercent}%, #1e293b ${ambientPercent}%, #1e293b 100%)`,
+                        }}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={ambientPercent}
+                        aria-label={`Ambient light: ${ambientPercent} percent`}
+                    />
+                </div>
+
+                <div className="flex flex-wrap gap-x-4 gap-y-2 text-xs text-text-secondary">
+                    <label
+                        className="flex items-center gap-2 cursor-pointer"
+                        title={`Blocks shade the ground and lower blocks; needs a light height of ${MIN_SHADOW_ELEVATION}° or more`}
+                    >
+                        <input
+                            type="checkbox"
+                            checked={lighting.shadows}
+                            onChange={(e) => updateLighting({ shadows: e.target.checked })}
+                            className="w-4 h-4 accent-electric-blue"
+                        />
+                        Cast shadows
+                    </label>
+                    <label
+                        className="flex items-center gap-2 cursor-pointer"
+                        title="Darken faces along inner corners, where blocks meet"
+                    >
+                        <input
+                            type="checkbox"
+                            checked={lighting.ambientOcclusion}
+                            onChange={(e) => updateLighting({ ambientOcclusion: e.target.checked })}
+                            className="w-4 h-4 accent-electric-blue"
+                        />
+                        Ambient occlusion
+                    </label>
+                </div>
+            </div>
+
+            {/* Outline Style */}
+            <label className="flex items-center gap-3 text-sm font-semibold text-text-secondary cursor-pointer">
                 <input
-                    id="lighting-angle"
-                    type="range"
-                    min="0"
-                    max="360"
-                    value={lightingAngle}
-                    onChange={handleAngleChange}
-                    className="w-full h-11 rounded-lg appearance-none cursor-pointer"
-                    style={{
-                        background: `linear-gradient(to right, #14B8A6 0%, #14B8A6 ${(lightingAngle / 360) * 100}%, #1e293b ${(lightingAngle / 360) * 100}%, #1e293b 100%)`,
-                    }}
-                    aria-valuemin={0}
-                    aria-valuemax={360}
-                    aria-valuenow={lightingAngle}
-                    aria-label={`Lighting angle: ${lightingAngle} degrees`}
+                    type="checkbox"
+                    checked={voxelOutlines}
+                    onChange={(e) => onVoxelOutlinesChange(e.target.checked)}
+                    className="w-5 h-5 accent-electric-blue"
                 />
-            </div>
+                <span>
+                    Outline every block
+                    <span className="block text-xs font-normal opacity-75">
+                        Off merges flat areas into single shapes for smaller files
+                    </span>
+                </span>
+            </label>
 
             {/* Action Buttons */}
             <div className="flex flex-wrap gap-2">
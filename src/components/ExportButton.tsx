@@ -1,67 +1,64 @@
 import React, { useCallback, useState } from 'react';
-import type { Voxel } from '../types/voxel';
+import type { ExportSettings, Lighting, Voxel, VoxelLayer } from '../types/voxel';
+import ExportOptions from './ExportOptions';
+import { applyExportSettings, getExportSceneOptions } from '../utils/exportSettings';
 import { generateSceneSVG, optimizeSVG } from '../utils/isometric';
+import { getVisibleVoxels } from '../utils/layers';
+import { rasterizeSVG } from '../utils/raster';
+import { downloadGLB, downloadOBJ } from '../utils/meshExport';
 import { downloadSVG, addSVGMetadata } from '../utils/svg';
+import { VOX_EXTENSION, downloadVox } from '../utils/vox';
 
 interface ExportButtonProps {
     voxels: Map<string, Voxel>;
-    lightingAngle: number;
+    lighting: Lighting;
+    viewRotation: number;
+    voxelOutlines: boolean;
+    layers: VoxelLayer[];
+    gridSize: number;
+    exportSettings: ExportSettings;
+    onExportSettingsChange: (settings: ExportSettings) => void;
 }
 
-type ExportFormat = 'svg' | 'png' | 'jpg';
+type ExportFormat = 'svg' | 'png' | 'jpg' | 'vox' | 'obj' | 'glb';
+
+const FORMATS: { format: ExportFormat; label: string; info: string }[] = [
+    { format: 'svg', label: 'SVG', info: 'Vector format - scalable, editable' },
+    { format: 'png', label: 'PNG', info: 'Raster format - transparent background' },
+    { format: 'jpg', label: 'JPG', info: 'Raster format - smaller file size' },
+    { format: 'vox', label: 'VOX', info: 'MagicaVoxel model - visible layers only' },
+    { format: 'obj', label: 'OBJ', info: '3D mesh - downloads .obj and .mtl materials' },
+    { format: 'glb', label: 'GLB', info: '3D mesh - binary glTF for three.js and Blender' },
+];
 
 /**
  * Export button component for downloading in multiple formats
  * @param props - Component props
  * @returns ExportButton component
  */
-const ExportButton: React.FC<ExportButtonProps> = ({ voxels, lightingAngle }) => {
+const ExportButton: React.FC<ExportButtonProps> = ({
+    voxels,
+    lighting,
+    viewRotation,
+    voxelOutlines,
+    layers,
+    gridSize,
+    exportSettings,
+    onExportSettingsChange,
+}) => {
     const [isExporting, setIsExporting] = useState<boolean>(false);
     const [exportSuccess, setExportSuccess] = useState<boolean>(false);
     const [selectedFormat, setSelectedFormat] = useState<ExportFormat>('svg');
+    const [showOptions, setShowOptions] = useState<boolean>(false);
 
-    const convertSVGToImage = useCallback((svgString: string, format: 'png' | 'jpg'): Promise<string> => {
-        return new Promise((resolve, reject) => {
-            const img = new Image();
-            const canvas = document.createElement('canvas');
-            const ctx = canvas.getContext('2d');
-
-            if (!ctx) {
-                reject(new Error('Could not get canvas context'));
-                return;
-            }
-
-            // Set high resolution for export (3000x3000 pixels)
-            const exportSize = 3000;
-            canvas.width = exportSize;
-            canvas.height = exportSize;
-
-            img.onload = () => {
-                // Fill white background for JPG
-                if (format === 'jpg') {
-                    ctx.fillStyle = '#FFFFFF';
-                    ctx.fillRect(0, 0, canvas.width, canvas.height);
-                }
+    const convertSVGToImage = useCallback(async (svgString: string, format: 'png' | 'jpg', width: number, height: number): Promise<string> => {
+        // JPG has no transparency, so a transparent background becomes white
+        const canvas = await rasterizeSVG(svgString, width, height, format === 'jpg' ? '#FFFFFF' : undefined);
 
-                // Draw image scaled to canvas size
-                ctx.drawImage(img, 0, 0, exportSize, exportSize);
-
-                // Convert to data URL
-                const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
-                const quality = format === 'jpg' ? 0.95 : undefined;
-                const dataUrl = canvas.toDataURL(mimeType, quality);
-                resolve(dataUrl);
-            };
-
-            img.onerror = () => {
-                reject(new Error('Failed to load SVG image'));
-            };
-
-            // Create blob URL from SVG string
-            const blob = new Blob([svgString], { type: 'image/svg+xml' });
-            const url = URL.createObjectURL(blob);
-            img.src = url;
-        });
+        // Convert to data URL
+        const mimeType = format === 'png' ? 'image/png' : 'image/jpeg';
+        const quality = format === 'jpg' ? 0.95 : undefined;
+        return canvas.toDataURL(mimeType, quality);
     }, []);
 
     const downloadFile = useCallback((dataUrl: string, filename: string) => {
@@ -81,22 +78,40 @@ const ExportButton: React.FC<ExportButtonProps> = ({ voxels, lightingAngle }) =>
         setIsExporting(true);
 
         try {
-            // Generate SVG
-            const svg = generateSceneSVG(voxels, lightingAngle);
-            const optimizedSVG = optimizeSVG(svg);
-            const finalSVG = addSVGMetadata(optimizedSVG);
-
             const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
 
-            if (format === 'svg') {
-                // Download SVG directly
-                const filename = `isometric-voxel-${timestamp}.svg`;
-                downloadSVG(finalSVG, filename);
+            const visible = getVisibleVoxels(voxels, layers);
+
+            if (format === 'obj') {
+                downloadOBJ(Array.from(visible.values()), gridSize, `isometric-voxel-${timestamp}`);
+            } else if (format === 'glb') {
+                downloadGLB(Array.from(visible.values()), gridSize, `isometric-voxel-${timestamp}.glb`);
+            } else if (format === 'vox') {
+                const warnings = downloadVox(visible, gridSize, `isometric-voxel-${timestamp}${VOX_EXTENSION}`);
+                if (warnings.length > 0) {
+                    alert(`Exported with changes:\n- ${warnings.join('\n- ')}`);
+                }
             } else {
-                // Convert to PNG or JPG
-                const dataUrl = await convertSVGToImage(finalSVG, format);
-                const filename = `isometric-voxel-${timestamp}.${format}`;
-                downloadFile(dataUrl, filename);
+                // Generate SVG, sized and styled by the export settings
+                const svg = generateSceneSVG(voxels, lighting, viewRotation, {
+                    voxelOutlines,
+                    layers,
+                    ...getExportSceneOptions(exportSettings),
+                });
+                const { svg: sizedSVG, width, height } = applyExportSettings(svg, exportSettings);
+                const optimizedSVG = optimizeSVG(sizedSVG);
+                const finalSVG = addSVGMetadata(optimizedSVG);
+
+                if (format === 'svg') {
+                    // Download SVG directly
+                    const filename = `isometric-voxel-${timestamp}.svg`;
+                    downloadSVG(finalSVG, filename);
+                } else {
+                    // Convert to PNG or JPG
+                    const dataUrl = await convertSVGToImage(finalSVG, format, width, height);
+                    const filename = `isometric-voxel-${timestamp}.${format}`;
+                    downloadFile(dataUrl, filename);
+                }
             }
 
             // Show success feedback
@@ -108,46 +123,49 @@ const ExportButton: React.FC<ExportButtonProps> = ({ voxels, lightingAngle }) =>
         } finally {
             setIsExporting(false);
         }
-    }, [voxels, lightingAngle, convertSVGToImage, downloadFile]);
+    }, [voxels, lighting, viewRotation, voxelOutlines, layers, gridSize, exportSettings, convertSVGToImage, downloadFile]);
 
     const hasVoxels = voxels.size > 0;
+    const isImageFormat = selectedFormat === 'svg' || selectedFormat === 'png' || selectedFormat === 'jpg';
 
     return (
         <div className="relative w-full">
             {/* Format Selection Buttons */}
-            <div className="mb-3 flex gap-2">
-                <button
-                    onClick={() => setSelectedFormat('svg')}
-                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${selectedFormat === 'svg'
-                        ? 'bg-electric-blue text-white'
-                        : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
-                        }`}
-                    aria-label="Export as SVG"
-                >
-                    SVG
-                </button>
-                <button
-                    onClick={() => setSelectedFormat('png')}
-                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${selectedFormat === 'png'
-                        ? 'bg-electric-blue text-white'
-                        : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
-                        }`}
-                    aria-label="Export as PNG"
-                >
-                    PNG
-                </button>
-                <button
-                    onClick={() => setSelectedFormat('jpg')}
-                    className={`flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${selectedFormat === 'jpg'
-                        ? 'bg-electric-blue text-white'
-                        : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
-                        }`}
-                    aria-label="Export as JPG"
-                >
-                    JPG
-                </button>
+            <div className="mb-3 grid grid-cols-3 gap-2">
+                {FORMATS.map(({ format, label }) => (
+                    <button
+                        key={format}
+                        onClick={() => setSelectedFormat(format)}
+                        className={`px-3 py-2 rounded-lg text-sm font-semibold transition-all ${selectedFormat === format
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-label={`Export as ${label}`}
+                    >
+                        {label}
+                    </button>
+                ))}
             </div>
 
+            {isImageFormat && (
+                <>
+                    <button
+                        onClick={() => setShowOptions(!showOptions)}
+                        className="mb-2 text-xs text-text-secondary hover:text-text-primary"
+                        aria-expanded={showOptions}
+                    >
+                        {showOptions ? '▾' : '▸'} Image options
+                    </button>
+                    {showOptions && (
+                        <ExportOptions
+                            settings={exportSettings}
+                            opaque={selectedFormat === 'jpg'}
+                            onChange={onExportSettingsChange}
+                        />
+                    )}
+                </>
+            )}
+
             {/* Download Button */}
             <button
                 onClick={() => handleExport(selectedFormat)}
@@ -180,9 +198,7 @@ const ExportButton: React.FC<ExportButtonProps> = ({ voxels, lightingAngle }) =>
 
             {/* Format Info */}
             <p className="mt-2 text-xs text-text-secondary text-center opacity-75">
-                {selectedFormat === 'svg' && 'Vector format - scalable, editable'}
-                {selectedFormat === 'png' && 'Raster format - transparent background'}
-                {selectedFormat === 'jpg' && 'Raster format - smaller file size'}
+                {FORMATS.find(({ format }) => format === selectedFormat)?.info}
             </p>
         </div>
     );
@@ -0,0 +1,217 @@
+import React, { useCallback } from 'react';
+import type { ExportSettings } from '../types/voxel';
+import {
+    DEFAULT_EXPORT_SETTINGS,
+    MAX_EXPORT_PADDING,
+    MAX_EXPORT_SCALE,
+    MAX_EXPORT_SIZE,
+    MAX_OUTLINE_WIDTH,
+    MIN_EXPORT_SCALE,
+} from '../utils/exportSettings';
+
+interface ExportOptionsProps {
+    settings: ExportSettings;
+    /** Whether the selected format can't be transparent */
+    opaque: boolean;
+    onChange: (settings: ExportSettings) => void;
+}
+
+interface NumberInputProps {
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    integer?: boolean;
+    label: string;
+    onCommit: (value: number) => void;
+}
+
+/**
+ * Number field that applies its value, clamped, on blur or Enter, so partial input isn't rejected while typing
+ */
+const NumberInput: React.FC<NumberInputProps> = ({ value, min, max, step, integer, label, onCommit }) => {
+    const commit = useCallback(
+        (input: HTMLInputElement) => {
+            const parsed = Number(input.value);
+            if (input.value.trim() === '' || !Number.isFinite(parsed)) {
+                input.value = String(value);
+                return;
+            }
+            const clamped = Math.max(min, Math.min(max, integer ? Math.round(parsed) : parsed));
+            input.value = String(clamped);
+            if (clamped !== value) {
+                onCommit(clamped);
+            }
+        },
+        [value, min, max, integer, onCommit]
+    );
+
+    return (
+        <input
+            key={value}
+            type="number"
+            min={min}
+            max={max}
+            step={step}
+            defaultValue={value}
+            onBlur={(e) => commit(e.currentTarget)}
+            onKeyDown={(e) => {
+                e.stopPropagation();
+                if (e.key === 'Enter') commit(e.currentTarget);
+            }}
+            className="w-20 px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+            aria-label={label}
+        />
+    );
+};
+
+/**
+ * Size, padding, background and outline settings for image exports
+ * @param props - Component props
+ * @returns ExportOptions component
+ */
+const ExportOptions: React.FC<ExportOptionsProps> = ({ settings, opaque, onChange }) => {
+    const update = useCallback(
+        (changes: Partial<ExportSettings>) => onChange({ ...settings, ...changes }),
+        [settings, onChange]
+    );
+
+    const modeButtonClass = (active: boolean) => `flex-1 px-2 py-1 rounded-lg text-xs font-semibold transition-all ${active
+        ? 'bg-electric-blue text-white'
+        : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+        }`;
+
+    return (
+        <div className="mb-3 p-3 rounded-lg border border-border-color space-y-3 text-xs text-text-secondary">
+            <div className="space-y-2">
+                <div className="flex gap-1" role="group" aria-label="Image size">
+                    <button
+                        onClick={() => update({ sizeMode: 'scale' })}
+                        className={modeButtonClass(settings.sizeMode === 'scale')}
+                        aria-pressed={settings.sizeMode === 'scale'}
+                        title="Size follows the scene: pixels per drawing unit"
+                    >
+                        Scale
+                    </button>
+                    <button
+                        onClick={() => update({ sizeMode: 'fit' })}
+                        className={modeButtonClass(settings.sizeMode === 'fit')}
+                        aria-pressed={settings.sizeMode === 'fit'}
+                        title="Fixed image size; the scene is fitted inside without distortion"
+                    >
+                        Fit to size
+                    </button>
+                </div>
+                {settings.sizeMode === 'scale' ? (
+                    <label className="flex items-center gap-2">
+                        Scale
+                        <NumberInput
+                            value={settings.scale}
+                            min={MIN_EXPORT_SCALE}
+                            max={MAX_EXPORT_SCALE}
+                            step={0.5}
+                            label={`Scale, ${MIN_EXPORT_SCALE} to ${MAX_EXPORT_SCALE}`}
+                            onCommit={(scale) => update({ scale })}
+                        />
+                        ×
+                    </label>
+                ) : (
+                    <div className="flex items-center gap-2">
+                        <NumberInput
+                            value={settings.width}
+                            min={1}
+                            max={MAX_EXPORT_SIZE}
+                            step={1}
+                            integer
+                            label="Width in pixels"
+                            onCommit={(width) => update({ width })}
+                        />
+                        ×
+                        <NumberInput
+                            value={settings.height}
+                            min={1}
+                            max={MAX_EXPORT_SIZE}
+                            step={1}
+                            integer
+                            label="Height in pixels"
+                            onCommit={(height) => update({ height })}
+                        />
+                        px
+                    </div>
+                )}
+            </div>
+
+            <label className="flex items-center gap-2">
+                Padding
+                <NumberInput
+                    value={settings.padding}
+                    min={0}
+                    max={MAX_EXPORT_PADDING}
+                    step={5}
+                    label={`Padding, 0 to ${MAX_EXPORT_PADDING}`}
+                    onCommit={(padding) => update({ padding })}
+                />
+            </label>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.background === null}
+                        onChange={(e) => update({ background: e.target.checked ? null : '#ffffff' })}
+                    />
+                    Transparent
+                </label>
+                {settings.background !== null && (
+                    <input
+                        type="color"
+                        value={settings.background}
+                        onChange={(e) => update({ background: e.target.value })}
+                        className="w-8 h-6 rounded cursor-pointer bg-transparent"
+                        aria-label="Background color"
+                    />
+                )}
+                {opaque && settings.background === null && <span className="opacity-75">JPG uses white</span>}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input
+                        type="checkbox"
+                        checked={settings.outlines}
+                        onChange={(e) => update({ outlines: e.target.checked })}
+                    />
+                    Outlines
+                </label>
+                {settings.outlines && (
+                    <>
+                        <input
+                            type="color"
+                            value={settings.outlineColor}
+                            onChange={(e) => update({ outlineColor: e.target.value })}
+                            className="w-8 h-6 rounded cursor-pointer bg-transparent"
+                            aria-label="Outline color"
+                        />
+                        <NumberInput
+                            value={settings.outlineWidth}
+                            min={0}
+                            max={MAX_OUTLINE_WIDTH}
+                            step={0.25}
+                            label={`Outline width, 0 to ${MAX_OUTLINE_WIDTH}`}
+                            onCommit={(outlineWidth) => update({ outlineWidth })}
+                        />
+                    </>
+                )}
+            </div>
+
+            <button
+                onClick={() => onChange(DEFAULT_EXPORT_SETTINGS)}
+                className="text-text-secondary hover:text-text-primary"
+            >
+                Reset to defaults
+            </button>
+        </div>
+    );
+};
+
+export default ExportOptions;
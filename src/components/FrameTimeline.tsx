@@ -0,0 +1,244 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { ProjectFrame } from '../types/project';
+import type { Lighting } from '../types/voxel';
+import type { FrameExportFormat } from '../utils/frames';
+import { MAX_FRAME_DURATION, MIN_FRAME_DURATION, downloadFrameAnimation } from '../utils/frames';
+import { generateTopDownSVG } from '../utils/history';
+
+interface FrameTimelineProps {
+    frames: ProjectFrame[];
+    currentFrameId: string | null;
+    lighting: Lighting;
+    viewRotation: number;
+    voxelOutlines: boolean;
+    onionSkin: boolean;
+    onAddFrame: () => void;
+    onUpdateFrame: (id: string) => void;
+    onShowFrame: (id: string) => void;
+    onDeleteFrame: (id: string) => void;
+    onMoveFrame: (id: string, delta: number) => void;
+    onFrameDurationChange: (id: string, duration: number) => void;
+    onOnionSkinChange: (onionSkin: boolean) => void;
+}
+
+const FORMAT_OPTIONS: { format: FrameExportFormat; label: string; title: string }[] = [
+    { format: 'gif', label: 'GIF', title: 'Plays everywhere; up to 255 colors, hard-edged transparency' },
+    { format: 'apng', label: 'APNG', title: 'Full color and smooth transparency' },
+];
+
+const SIZE_OPTIONS = [256, 512, 1024];
+
+/**
+ * Frames of a flip-book animation, each a saved scene with its own display time,
+ * plus GIF and APNG export
+ * @param props - Component props
+ * @returns FrameTimeline component
+ */
+const FrameTimeline: React.FC<FrameTimelineProps> = ({
+    frames,
+    currentFrameId,
+    lighting,
+    viewRotation,
+    voxelOutlines,
+    onionSkin,
+    onAddFrame,
+    onUpdateFrame,
+    onShowFrame,
+    onDeleteFrame,
+    onMoveFrame,
+    onFrameDurationChange,
+    onOnionSkinChange,
+}) => {
+    const [format, setFormat] = useState<FrameExportFormat>('gif');
+    const [size, setSize] = useState<number>(512);
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+
+    const thumbnails = useMemo(() => new Map(frames.map((frame) => [frame.id, generateTopDownSVG(frame)])), [frames]);
+
+    const handleDurationCommit = useCallback(
+        (id: string, event: React.FocusEvent<HTMLInputElement>) => {
+            const duration = Number(event.target.value);
+            if (Number.isFinite(duration) && duration > 0) {
+                onFrameDurationChange(id, duration);
+            }
+        },
+        [onFrameDurationChange]
+    );
+
+    const handleDeleteFrame = useCallback(
+        (index: number) => {
+            if (window.confirm(`Delete frame ${index + 1}?`)) {
+                onDeleteFrame(frames[index].id);
+            }
+        },
+        [frames, onDeleteFrame]
+    );
+
+    const handleExport = useCallback(async () => {
+        setIsExporting(true);
+        try {
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+            await downloadFrameAnimation(format, frames, lighting, viewRotation, voxelOutlines, size, `isometric-voxel-${timestamp}`);
+        } catch (error) {
+            console.error('Frame export failed:', error);
+            alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [format, frames, lighting, viewRotation, voxelOutlines, size]);
+
+    const totalDuration = frames.reduce((sum, frame) => sum + frame.duration, 0);
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-sm font-semibold text-text-secondary">
+                Frames
+                {frames.length > 0 && (
+                    <span className="ml-2 font-normal text-xs">
+                        {frames.length} · {(totalDuration / 1000).toFixed(1)}s
+                    </span>
+                )}
+            </label>
+
+            {frames.length > 0 && (
+                <ol className="flex gap-2 overflow-x-auto pb-1" aria-label="Frames">
+                    {frames.map((frame, index) => {
+                        const isCurrent = frame.id === currentFrameId;
+
+                        return (
+                            <li
+                                key={frame.id}
+                                className={`flex-shrink-0 w-24 p-1 rounded-lg border ${isCurrent ? 'border-electric-blue bg-secondary-bg' : 'border-border-color'}`}
+                            >
+                                <button
+                                    onClick={() => onShowFrame(frame.id)}
+                                    className="w-full flex flex-col items-center gap-1 rounded hover:bg-secondary-bg"
+                                    aria-current={isCurrent}
+                                    title="Edit this frame (can be undone)"
+                                >
+                                    <div
+                                        className="w-12 h-12 rounded overflow-hidden pointer-events-none"
+                                        dangerouslySetInnerHTML={{ __html: thumbnails.get(frame.id) ?? '' }}
+                                    />
+                                    <span className="text-xs text-text-primary">{index + 1}</span>
+                                </button>
+                                <label className="mt-1 flex items-center gap-1 text-xs text-text-secondary">
+                                    <input
+                                        key={`${frame.id}-${frame.duration}`}
+                                        type="number"
+                                        min={MIN_FRAME_DURATION}
+                                        max={MAX_FRAME_DURATION}
+                                        step="10"
+                                        defaultValue={frame.duration}
+                                        onBlur={(e) => handleDurationCommit(frame.id, e)}
+                                        onKeyDown={(e) => {
+                                            e.stopPropagation();
+                                            if (e.key === 'Enter') {
+                                                e.currentTarget.blur();
+                                            }
+                                        }}
+                                        className="w-full min-w-0 px-1 py-0.5 rounded bg-primary-bg text-text-primary border border-border-color"
+                                        aria-label={`Frame ${index + 1} duration in milliseconds`}
+                                    />
+                                    ms
+                                </label>
+                                <div className="mt-1 flex gap-1">
+                                    <button
+                                        onClick={() => onMoveFrame(frame.id, -1)}
+                                        disabled={index === 0}
+                                        className="flex-1 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        aria-label={`Move frame ${index + 1} earlier`}
+                                    >
+                                        ◀
+                                    </button>
+                                    <button
+                                        onClick={() => onMoveFrame(frame.id, 1)}
+                                        disabled={index === frames.length - 1}
+                                        className="flex-1 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                                        aria-label={`Move frame ${index + 1} later`}
+                                    >
+                                        ▶
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeleteFrame(index)}
+                                        className="flex-1 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700 hover:text-red-400"
+                                        aria-label={`Delete frame ${index + 1}`}
+                                        title="Delete frame"
+                                    >
+                                        ✕
+                                    </button>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ol>
+            )}
+
+            <div className="flex gap-2">
+                <button
+                    onClick={onAddFrame}
+                    className="btn-secondary flex-1"
+                    title="Save the scene as a new frame after the current one"
+                >
+                    + Add frame
+                </button>
+                <button
+                    onClick={() => currentFrameId && onUpdateFrame(currentFrameId)}
+                    disabled={currentFrameId === null}
+                    className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    title="Save the scene into the current frame"
+                >
+                    Update frame
+                </button>
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-text-secondary cursor-pointer">
+                <input
+                    type="checkbox"
+                    checked={onionSkin}
+                    onChange={(e) => onOnionSkinChange(e.target.checked)}
+                />
+                Onion skin (show the previous frame on the grid)
+            </label>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <div className="flex gap-1" role="group" aria-label="Animation format">
+                    {FORMAT_OPTIONS.map((option) => (
+                        <button
+                            key={option.format}
+                            onClick={() => setFormat(option.format)}
+                            className={`px-2 py-1 rounded-lg text-xs font-semibold transition-all ${format === option.format
+                                ? 'bg-electric-blue text-white'
+                                : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                                }`}
+                            aria-pressed={format === option.format}
+                            title={option.title}
+                        >
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+                <select
+                    value={size}
+                    onChange={(e) => setSize(Number(e.target.value))}
+                    className="px-2 py-1 rounded bg-primary-bg text-xs text-text-primary border border-border-color"
+                    aria-label="Image size"
+                >
+                    {SIZE_OPTIONS.map((option) => (
+                        <option key={option} value={option}>{option}px</option>
+                    ))}
+                </select>
+                <button
+                    onClick={handleExport}
+                    disabled={frames.length === 0 || isExporting}
+                    className="btn-secondary flex-1 disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label={`Download frames as ${format.toUpperCase()}`}
+                >
+                    {isExporting ? 'Rendering…' : `⬇️ ${format === 'gif' ? 'GIF' : 'APNG'}`}
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default FrameTimeline;
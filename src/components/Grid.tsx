@@ -1,155 +1,568 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import type { GridPosition, GridRect, GridTool, PaintMode, PlacementMode, SymmetryMode } from '../types/voxel';
+import { fitRectToGrid, getRectFromCorners, isInRect } from '../utils/selection';
+import { isSculptTool } from '../utils/sculpt';
+import { getShapeCells, isShapeTool } from '../utils/shapes';
+import { getSymmetricCells, getSymmetryCenter } from '../utils/symmetry';
+import { MAX_GRID_SIZE, MIN_GRID_SIZE, getColumnKey } from '../utils/voxels';
 
-const GRID_SIZE = 20;
+/**
+ * Zoom limits, as rendered cell size in pixels
+ */
+const MIN_CELL_SIZE = 12;
+const MAX_CELL_SIZE = 64;
+const ZOOM_STEP = 1.25;
+
+/**
+ * Extra cells rendered around the visible area while scrolling
+ */
+const OVERSCAN = 2;
 
 interface GridProps {
+    gridSize: number;
+    onGridSizeChange: (size: number) => void;
     onCellClick: (x: number, y: number) => void;
     onCellRightClick: (x: number, y: number) => void;
+    onPaintCells: (cells: GridPosition[], mode: PaintMode) => void;
+    onFill: (x: number, y: number, mode: PaintMode) => void;
+    onSculpt: (center: GridPosition, mode: PaintMode) => void;
+    onSelect: (rect: GridRect | null) => void;
+    onMoveSelection: (dx: number, dy: number) => void;
+    onSymmetryAxisChange: (axis: GridPosition | null) => void;
+    /** Called around a brush drag so the whole drag is one undo step */
+    onStrokeStart: () => void;
+    onStrokeEnd: () => void;
     hasVoxel: (x: number, y: number) => boolean;
     getVoxelColor: (x: number, y: number) => string | undefined;
+    getColumnHeight: (x: number, y: number) => number;
+    placementMode: PlacementMode;
+    activeLayer: number;
+    tool: GridTool;
+    selectedColor: string;
+    sculptRadius: number;
+    selection: GridRect | null;
+    symmetry: SymmetryMode;
+    symmetryAxis: GridPosition | null;
+    /** Top colors of another frame by column key, drawn faintly in empty cells */
+    onionSkin?: Map<string, string>;
 }
 
+interface ViewportState {
+    width: number;
+    height: number;
+    scrollLeft: number;
+    scrollTop: number;
+}
+
+const clampCellSize = (size: number): number => Math.max(MIN_CELL_SIZE, Math.min(MAX_CELL_SIZE, size));
+
 /**
- * Interactive 20x20 grid component
+ * Interactive square grid with zoom and pan; only cells in view are rendered
  * @param props - Component props
  * @returns Grid component
  */
-const Grid: React.FC<GridProps> = ({ onCellClick, onCellRightClick, hasVoxel, getVoxelColor }) => {
-    const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number } | null>(null);
+const Grid: React.FC<GridProps> = ({
+    gridSize,
+    onGridSizeChange,
+    onCellClick,
+    onCellRightClick,
+    onPaintCells,
+    onFill,
+    onSculpt,
+    onSelect,
+    onMoveSelection,
+    onSymmetryAxisChange,
+    onStrokeStart,
+    onStrokeEnd,
+    hasVoxel,
+    getVoxelColor,
+    getColumnHeight,
+    placementMode,
+    activeLayer,
+    tool,
+    selectedColor,
+    sculptRadius,
+    selection,
+    symmetry,
+    symmetryAxis,
+    onionSkin,
+}) => {
+    const [hoveredCell, setHoveredCell] = useState<GridPosition | null>(null);
     const [isDragging, setIsDragging] = useState<boolean>(false);
-    const [dragMode, setDragMode] = useState<'add' | 'remove' | null>(null);
-    const gridRef = useRef<HTMLDivElement>(null);
+    const [dragMode, setDragMode] = useState<PaintMode | null>(null);
+    // Cells covered by the shape being dragged, drawn as an overlay until the drag ends
+    const [shapePreview, setShapePreview] = useState<{ cells: Set<string>; mode: PaintMode } | null>(null);
+    // Marquee being drawn, or the selection being dragged, with the select tool
+    const [selectDrag, setSelectDrag] = useState<{ start: GridPosition; end: GridPosition; moving: boolean } | null>(null);
+    const [isPanMode, setIsPanMode] = useState<boolean>(false);
+    // Next click on a cell moves the symmetry center there
+    const [isPlacingAxis, setIsPlacingAxis] = useState<boolean>(false);
+    // Explicit zoom level; null fits the whole grid into the viewport
+    const [zoomCellSize, setZoomCellSize] = useState<number | null>(null);
+    const [viewport, setViewport] = useState<ViewportState>({ width: 0, height: 0, scrollLeft: 0, scrollTop: 0 });
+    const [sizeDraft, setSizeDraft] = useState<string>(String(gridSize));
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    // Cells already painted during the current drag, so stacking happens once per cell
+    const strokeCellsRef = useRef<Set<string>>(new Set());
+    const shapeRef = useRef<{ start: GridPosition; end: GridPosition; mode: PaintMode } | null>(null);
+    const selectDragRef = useRef<{ start: GridPosition; end: GridPosition; moving: boolean } | null>(null);
+    const panRef = useRef<{ clientX: number; clientY: number; scrollLeft: number; scrollTop: number } | null>(null);
+    const touchModeRef = useRef<'paint' | 'pan' | 'pinch' | null>(null);
+    const pinchRef = useRef<{ distance: number; cellSize: number }>({ distance: 1, cellSize: MIN_CELL_SIZE });
+    // Grid point to keep under the cursor after a zoom, applied once the new size renders
+    const zoomAnchorRef = useRef<{ cellX: number; cellY: number; offsetX: number; offsetY: number } | null>(null);
 
-    const handleCellClick = useCallback(
-        (x: number, y: number, event: React.MouseEvent) => {
-            event.preventDefault();
+    // Rounded down so a fitted grid never overflows by a fraction of a pixel
+    const fitCellSize = viewport.width > 0
+        ? clampCellSize(Math.floor((viewport.width / gridSize) * 100) / 100)
+        : MIN_CELL_SIZE;
+    const cellSize = zoomCellSize ?? fitCellSize;
+    const symmetryCenter = useMemo(() => getSymmetryCenter(symmetryAxis, gridSize), [symmetryAxis, gridSize]);
 
-            if (event.shiftKey || event.button === 2) {
-                onCellRightClick(x, y);
-                setDragMode('remove');
-            } else {
+    useEffect(() => {
+        setSizeDraft(String(gridSize));
+        setZoomCellSize(null);
+    }, [gridSize]);
+
+    // Track viewport size for fitting and virtualization
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+
+        const measure = () => {
+            setViewport((prev) => ({ ...prev, width: element.clientWidth, height: element.clientHeight }));
+        };
+
+        measure();
+        const observer = new ResizeObserver(measure);
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const handleScroll = useCallback((event: React.UIEvent<HTMLDivElement>) => {
+        const { scrollLeft, scrollTop } = event.currentTarget;
+        setViewport((prev) => ({ ...prev, scrollLeft, scrollTop }));
+    }, []);
+
+    /**
+     * Zoom to a cell size, keeping the point under the anchor (or the viewport center) in place
+     */
+    const zoomTo = useCallback(
+        (nextSize: number, anchor?: { clientX: number; clientY: number }) => {
+            const element = viewportRef.current;
+            if (!element) return;
+
+            const rect = element.getBoundingClientRect();
+            const offsetX = anchor ? anchor.clientX - rect.left : element.clientWidth / 2;
+            const offsetY = anchor ? anchor.clientY - rect.top : element.clientHeight / 2;
+
+            zoomAnchorRef.current = {
+                cellX: (element.scrollLeft + offsetX) / cellSize,
+                cellY: (element.scrollTop + offsetY) / cellSize,
+                offsetX,
+                offsetY,
+            };
+            setZoomCellSize(clampCellSize(nextSize));
+        },
+        [cellSize]
+    );
+
+    useLayoutEffect(() => {
+        const anchor = zoomAnchorRef.current;
+        const element = viewportRef.current;
+        if (!anchor || !element) return;
+
+        zoomAnchorRef.current = null;
+        element.scrollLeft = anchor.cellX * cellSize - anchor.offsetX;
+        element.scrollTop = anchor.cellY * cellSize - anchor.offsetY;
+    }, [cellSize]);
+
+    /**
+     * Resolve the cell under a viewport point, if any
+     */
+    const getCellFromPoint = useCallback(
+        (clientX: number, clientY: number): GridPosition | null => {
+            const content = contentRef.current;
+            if (!content) return null;
+
+            const rect = content.getBoundingClientRect();
+            const x = Math.floor((clientX - rect.left) / cellSize);
+            const y = Math.floor((clientY - rect.top) / cellSize);
+
+            return x >= 0 && y >= 0 && x < gridSize && y < gridSize ? { x, y } : null;
+        },
+        [cellSize, gridSize]
+    );
+
+    const paintCell = useCallback(
+        (x: number, y: number, mode: PaintMode) => {
+            const key = `${x},${y}`;
+            if (strokeCellsRef.current.has(key)) {
+                return;
+            }
+            strokeCellsRef.current.add(key);
+
+            if (isSculptTool(tool)) {
+                onSculpt({ x, y }, mode);
+            } else if (mode === 'add') {
                 onCellClick(x, y);
-                setDragMode('add');
+            } else {
+                onCellRightClick(x, y);
+            }
+        },
+        [tool, onSculpt, onCellClick, onCellRightClick]
+    );
+
+    /**
+     * Move the free end of the shape being dragged and refresh its preview
+     */
+    const updateShape = useCallback(
+        (end: GridPosition) => {
+            const shape = shapeRef.current;
+            if (!shape || !isShapeTool(tool)) return;
+
+            shape.end = end;
+            const cells = getSymmetricCells(getShapeCells(tool, shape.start, end), symmetry, symmetryCenter);
+            setShapePreview({ cells: new Set(cells.map(({ x, y }) => `${x},${y}`)), mode: shape.mode });
+        },
+        [tool, symmetry, symmetryCenter]
+    );
+
+    /**
+     * Apply the shape being dragged as a single action
+     */
+    const commitShape = useCallback(() => {
+        const shape = shapeRef.current;
+        if (!shape) return;
+
+        shapeRef.current = null;
+        setShapePreview(null);
+        if (isShapeTool(tool)) {
+            onPaintCells(getShapeCells(tool, shape.start, shape.end), shape.mode);
+        }
+    }, [tool, onPaintCells]);
+
+    /**
+     * Move the free end of the marquee or selection drag
+     */
+    const updateSelectDrag = useCallback((end: GridPosition) => {
+        const drag = selectDragRef.current;
+        if (!drag || (drag.end.x === end.x && drag.end.y === end.y)) return;
+
+        selectDragRef.current = { ...drag, end };
+        setSelectDrag(selectDragRef.current);
+    }, []);
+
+    /**
+     * Finish a select tool drag: move the selection or select the marquee
+     */
+    const commitSelectDrag = useCallback(() => {
+        const drag = selectDragRef.current;
+        if (!drag) return;
+
+        selectDragRef.current = null;
+        setSelectDrag(null);
+        if (drag.moving) {
+            onMoveSelection(drag.end.x - drag.start.x, drag.end.y - drag.start.y);
+        } else {
+            onSelect(getRectFromCorners(drag.start, drag.end));
+        }
+    }, [onSelect, onMoveSelection]);
+
+    /**
+     * Start a pointer action on a cell with the active tool
+     */
+    const startAction = useCallback(
+        (x: number, y: number, mode: PaintMode) => {
+            if (isPlacingAxis && symmetry !== 'none') {
+                onSymmetryAxisChange({ x: x + 0.5, y: y + 0.5 });
+                setIsPlacingAxis(false);
+                return;
             }
+
+            if (tool === 'fill') {
+                onFill(x, y, mode);
+                return;
+            }
+
+            if (tool === 'select') {
+                if (mode === 'remove') {
+                    onSelect(null);
+                    return;
+                }
+
+                // Dragging inside the selection moves it; anywhere else starts a new marquee
+                selectDragRef.current = {
+                    start: { x, y },
+                    end: { x, y },
+                    moving: selection !== null && isInRect(selection, x, y),
+                };
+                setSelectDrag(selectDragRef.current);
+                return;
+            }
+
+            if (isShapeTool(tool)) {
+                shapeRef.current = { start: { x, y }, end: { x, y }, mode };
+                updateShape({ x, y });
+                return;
+            }
+
+            setIsDragging(true);
+            strokeCellsRef.current = new Set();
+            onStrokeStart();
+            paintCell(x, y, mode);
+            setDragMode(mode);
         },
-        [onCellClick, onCellRightClick]
+        [tool, selection, isPlacingAxis, symmetry, onFill, onSelect, onSymmetryAxisChange, onStrokeStart, updateShape, paintCell]
     );
 
     const handleMouseDown = useCallback(
         (x: number, y: number, event: React.MouseEvent) => {
-            event.preventDefault();
-            setIsDragging(true);
+            // Middle button and pan mode drag the view instead of painting
+            if (isPanMode || event.button === 1) return;
 
-            if (event.shiftKey || event.button === 2) {
-                onCellRightClick(x, y);
-                setDragMode('remove');
-            } else {
-                onCellClick(x, y);
-                setDragMode('add');
-            }
+            event.preventDefault();
+            startAction(x, y, event.shiftKey || event.button === 2 ? 'remove' : 'add');
         },
-        [onCellClick, onCellRightClick]
+        [isPanMode, startAction]
     );
 
     const handleMouseEnter = useCallback(
         (x: number, y: number) => {
             setHoveredCell({ x, y });
 
-            if (isDragging && dragMode) {
-                if (dragMode === 'add') {
-                    onCellClick(x, y);
-                } else {
-                    onCellRightClick(x, y);
-                }
+            if (shapeRef.current) {
+                updateShape({ x, y });
+            } else if (selectDragRef.current) {
+                updateSelectDrag({ x, y });
+            } else if (isDragging && dragMode) {
+                paintCell(x, y, dragMode);
             }
         },
-        [isDragging, dragMode, onCellClick, onCellRightClick]
+        [isDragging, dragMode, paintCell, updateShape, updateSelectDrag]
+    );
+
+    const handleViewportMouseDown = useCallback(
+        (event: React.MouseEvent<HTMLDivElement>) => {
+            if (!(event.button === 1 || (isPanMode && event.button === 0))) return;
+
+            event.preventDefault();
+            const element = event.currentTarget;
+            panRef.current = {
+                clientX: event.clientX,
+                clientY: event.clientY,
+                scrollLeft: element.scrollLeft,
+                scrollTop: element.scrollTop,
+            };
+        },
+        [isPanMode]
     );
 
     const handleMouseUp = useCallback(() => {
+        commitShape();
+        commitSelectDrag();
+        onStrokeEnd();
         setIsDragging(false);
         setDragMode(null);
-    }, []);
+        panRef.current = null;
+    }, [commitShape, commitSelectDrag, onStrokeEnd]);
+
+    // Add global mouse listeners so drags and pans end outside the grid too
+    useEffect(() => {
+        const handleMouseMove = (event: MouseEvent) => {
+            const pan = panRef.current;
+            const element = viewportRef.current;
+            if (!pan || !element) return;
+
+            element.scrollLeft = pan.scrollLeft - (event.clientX - pan.clientX);
+            element.scrollTop = pan.scrollTop - (event.clientY - pan.clientY);
+        };
+
+        window.addEventListener('mouseup', handleMouseUp);
+        window.addEventListener('mousemove', handleMouseMove);
+        return () => {
+            window.removeEventListener('mouseup', handleMouseUp);
+            window.removeEventListener('mousemove', handleMouseMove);
+        };
+    }, [handleMouseUp]);
+
+    // Ctrl/Cmd + wheel zooms; needs a non-passive listener to suppress page zoom
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+
+        const handleWheel = (event: WheelEvent) => {
+            if (!event.ctrlKey && !event.metaKey) return;
 
-    // Touch event handlers for mobile support
-    const handleTouchStart = useCallback(
-        (x: number, y: number, event: React.TouchEvent) => {
             event.preventDefault();
-            setIsDragging(true);
-            onCellClick(x, y);
-            setDragMode('add');
-        },
-        [onCellClick]
-    );
+            zoomTo(event.deltaY < 0 ? cellSize * ZOOM_STEP : cellSize / ZOOM_STEP, event);
+        };
 
-    const handleTouchMove = useCallback(
-        (event: React.TouchEvent) => {
-            if (!isDragging || !dragMode) return;
+        element.addEventListener('wheel', handleWheel, { passive: false });
+        return () => element.removeEventListener('wheel', handleWheel);
+    }, [cellSize, zoomTo]);
 
+    // Touch: one finger paints (or pans in pan mode), two fingers pinch-zoom
+    useEffect(() => {
+        const element = viewportRef.current;
+        if (!element) return;
+
+        const getDistance = (touches: TouchList) => {
+            return Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY) || 1;
+        };
+
+        const handleTouchStart = (event: TouchEvent) => {
             event.preventDefault();
             const touch = event.touches[0];
-            const element = document.elementFromPoint(touch.clientX, touch.clientY);
 
-            if (element && element.hasAttribute('data-cell')) {
-                const x = parseInt(element.getAttribute('data-x') || '0', 10);
-                const y = parseInt(element.getAttribute('data-y') || '0', 10);
+            if (event.touches.length >= 2) {
+                touchModeRef.current = 'pinch';
+                pinchRef.current = { distance: getDistance(event.touches), cellSize };
+                setIsDragging(false);
+                setDragMode(null);
+            } else if (isPanMode) {
+                touchModeRef.current = 'pan';
+                panRef.current = {
+                    clientX: touch.clientX,
+                    clientY: touch.clientY,
+                    scrollLeft: element.scrollLeft,
+                    scrollTop: element.scrollTop,
+                };
+            } else {
+                const cell = getCellFromPoint(touch.clientX, touch.clientY);
+                if (!cell) return;
 
-                if (dragMode === 'add') {
-                    onCellClick(x, y);
-                } else {
-                    onCellRightClick(x, y);
+                touchModeRef.current = 'paint';
+                startAction(cell.x, cell.y, 'add');
+            }
+        };
+
+        const handleTouchMove = (event: TouchEvent) => {
+            if (!touchModeRef.current) return;
+
+            event.preventDefault();
+            const touch = event.touches[0];
+
+            if (touchModeRef.current === 'pinch' && event.touches.length >= 2) {
+                const scale = getDistance(event.touches) / pinchRef.current.distance;
+                zoomTo(pinchRef.current.cellSize * scale, {
+                    clientX: (event.touches[0].clientX + event.touches[1].clientX) / 2,
+                    clientY: (event.touches[0].clientY + event.touches[1].clientY) / 2,
+                });
+            } else if (touchModeRef.current === 'pan' && panRef.current) {
+                element.scrollLeft = panRef.current.scrollLeft - (touch.clientX - panRef.current.clientX);
+                element.scrollTop = panRef.current.scrollTop - (touch.clientY - panRef.current.clientY);
+            } else if (touchModeRef.current === 'paint') {
+                const cell = getCellFromPoint(touch.clientX, touch.clientY);
+                if (cell && shapeRef.current) {
+                    updateShape(cell);
+                } else if (cell && selectDragRef.current) {
+                    updateSelectDrag(cell);
+                } else if (cell) {
+                    paintCell(cell.x, cell.y, 'add');
                 }
             }
-        },
-        [isDragging, dragMode, onCellClick, onCellRightClick]
-    );
+        };
 
-    const handleTouchEnd = useCallback(() => {
-        setIsDragging(false);
-        setDragMode(null);
-    }, []);
+        const handleTouchEnd = (event: TouchEvent) => {
+            if (event.touches.length > 0) return;
 
-    // Add global mouse up and touch end listeners
-    React.useEffect(() => {
-        window.addEventListener('mouseup', handleMouseUp);
+            touchModeRef.current = null;
+            panRef.current = null;
+            commitShape();
+            commitSelectDrag();
+            onStrokeEnd();
+            setIsDragging(false);
+            setDragMode(null);
+        };
+
+        element.addEventListener('touchstart', handleTouchStart, { passive: false });
+        element.addEventListener('touchmove', handleTouchMove, { passive: false });
         window.addEventListener('touchend', handleTouchEnd);
+        window.addEventListener('touchcancel', handleTouchEnd);
         return () => {
-            window.removeEventListener('mouseup', handleMouseUp);
+            element.removeEventListener('touchstart', handleTouchStart);
+            element.removeEventListener('touchmove', handleTouchMove);
             window.removeEventListener('touchend', handleTouchEnd);
+            window.removeEventListener('touchcancel', handleTouchEnd);
         };
-    }, [handleMouseUp, handleTouchEnd]);
+    }, [
+        isPanMode,
+        cellSize,
+        zoomTo,
+        getCellFromPoint,
+        paintCell,
+        startAction,
+        updateShape,
+        commitShape,
+        updateSelectDrag,
+        commitSelectDrag,
+        onStrokeEnd,
+    ]);
 
-    const handleContextMenu = useCallback(
-        (x: number, y: number, event: React.MouseEvent) => {
-            event.preventDefault();
-            onCellRightClick(x, y);
-        },
-        [onCellRightClick]
-    );
+    // Right-button removal is handled on mousedown; only suppress the browser menu here
+    const handleContextMenu = useCallback((event: React.MouseEvent) => {
+        event.preventDefault();
+    }, []);
 
     const handleKeyDown = useCallback(
         (x: number, y: number, event: React.KeyboardEvent) => {
             if (event.key === 'Enter' || event.key === ' ') {
                 event.preventDefault();
+                const mode = event.shiftKey ? 'remove' : 'add';
 
-                if (event.shiftKey) {
+                if (tool === 'fill') {
+                    onFill(x, y, mode);
+                } else if (tool === 'select') {
+                    onSelect(mode === 'remove' ? null : { x, y, width: 1, height: 1 });
+                } else if (isSculptTool(tool)) {
+                    onSculpt({ x, y }, mode);
+                } else if (mode === 'remove') {
                     onCellRightClick(x, y);
                 } else {
                     onCellClick(x, y);
                 }
             }
         },
-        [onCellClick, onCellRightClick]
+        [tool, onFill, onSelect, onSculpt, onCellClick, onCellRightClick]
     );
 
+    const commitGridSize = useCallback(() => {
+        const size = parseInt(sizeDraft, 10);
+        if (Number.isNaN(size)) {
+            setSizeDraft(String(gridSize));
+            return;
+        }
+
+        const clamped = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, size));
+        setSizeDraft(String(clamped));
+        if (clamped !== gridSize) {
+            onGridSizeChange(clamped);
+        }
+    }, [sizeDraft, gridSize, onGridSizeChange]);
+
     const renderGrid = () => {
         const cells = [];
+        const firstX = Math.max(0, Math.floor(viewport.scrollLeft / cellSize) - OVERSCAN);
+        const firstY = Math.max(0, Math.floor(viewport.scrollTop / cellSize) - OVERSCAN);
+        const lastX = Math.min(gridSize, Math.ceil((viewport.scrollLeft + viewport.width) / cellSize) + OVERSCAN);
+        const lastY = Math.min(gridSize, Math.ceil((viewport.scrollTop + viewport.height) / cellSize) + OVERSCAN);
 
-        for (let y = 0; y < GRID_SIZE; y++) {
-            for (let x = 0; x < GRID_SIZE; x++) {
+        for (let y = firstY; y < lastY; y++) {
+            for (let x = firstX; x < lastX; x++) {
                 const hasBlock = hasVoxel(x, y);
                 const color = getVoxelColor(x, y);
+                const columnHeight = getColumnHeight(x, y);
                 const isHovered = hoveredCell?.x === x && hoveredCell?.y === y;
+                const isPreviewed = shapePreview?.cells.has(`${x},${y}`) ?? false;
+                const isInBrush = isSculptTool(tool) && hoveredCell !== null
+                    && Math.hypot(x - hoveredCell.x, y - hoveredCell.y) <= sculptRadius + 0.5;
+                const onionColor = hasBlock || isPreviewed ? undefined : onionSkin?.get(getColumnKey(x, y));
+                let backgroundColor = hasBlock && color ? color : 'transparent';
+                if (isPreviewed) {
+                    backgroundColor = shapePreview?.mode === 'remove' ? 'rgba(239, 68, 68, 0.6)' : selectedColor;
+                }
 
                 cells.push(
                     <button
@@ -159,26 +572,42 @@ const Grid: React.FC<GridProps> = ({ onCellClick, onCellRightClick, hasVoxel, ge
                         data-y={y}
                         onMouseDown={(e) => handleMouseDown(x, y, e)}
                         onMouseEnter={() => handleMouseEnter(x, y)}
-                        onClick={(e) => handleCellClick(x, y, e)}
-                        onContextMenu={(e) => handleContextMenu(x, y, e)}
+                        onContextMenu={handleContextMenu}
                         onKeyDown={(e) => handleKeyDown(x, y, e)}
                         onMouseLeave={() => setHoveredCell(null)}
-                        onTouchStart={(e) => handleTouchStart(x, y, e)}
-                        onTouchMove={handleTouchMove}
                         className={`
-              aspect-square border border-border-color transition-all duration-150
+              absolute border border-border-color transition-all duration-150
               ${hasBlock ? 'shadow-inner' : 'hover:bg-slate-700'}
               ${isHovered ? 'ring-2 ring-electric-blue ring-inset' : ''}
+              ${isPreviewed ? 'ring-1 ring-white ring-inset opacity-80' : ''}
+              ${isInBrush && !isHovered ? 'ring-1 ring-tech-teal ring-inset' : ''}
+              ${isPanMode ? 'cursor-grab' : ''}
               focus:ring-2 focus:ring-electric-blue focus:ring-inset focus:outline-none
               select-none
             `}
                         style={{
-                            backgroundColor: hasBlock && color ? color : 'transparent',
+                            left: x * cellSize,
+                            top: y * cellSize,
+                            width: cellSize,
+                            height: cellSize,
+                            backgroundColor,
                         }}
-                        aria-label={`Grid cell ${x}, ${y}${hasBlock ? ' - has block' : ' - empty'}`}
+                        aria-label={`Grid cell ${x}, ${y}${hasBlock ? ' - has block' : ' - empty'}, column height ${columnHeight}`}
                         aria-pressed={hasBlock}
-                        title={`(${x}, ${y})${hasBlock ? ' - Click/drag to modify' : ' - Click/drag to add block'}`}
-                    />
+                        title={`(${x}, ${y}) height ${columnHeight}${hasBlock ? ' - Click/drag to modify' : ' - Click/drag to add block'}`}
+                    >
+                        {onionColor && (
+                            <span
+                                className="absolute inset-1 rounded-sm opacity-40 pointer-events-none"
+                                style={{ backgroundColor: onionColor }}
+                            />
+                        )}
+                        {columnHeight > 1 && cellSize >= 16 && (
+                            <span className="absolute inset-0 flex items-center justify-center text-[9px] font-semibold text-white drop-shadow pointer-events-none">
+                                {columnHeight}
+                            </span>
+                        )}
+                    </button>
                 );
             }
         }
@@ -186,30 +615,166 @@ const Grid: React.FC<GridProps> = ({ onCellClick, onCellRightClick, hasVoxel, ge
         return cells;
     };
 
+    // Outline of the marquee, the selection being dragged, or the current selection
+    let selectionOutline: GridRect | null = selection;
+    if (selectDrag?.moving && selection) {
+        selectionOutline = fitRectToGrid({
+            ...selection,
+            x: selection.x + selectDrag.end.x - selectDrag.start.x,
+            y: selection.y + selectDrag.end.y - selectDrag.start.y,
+        }, gridSize);
+    } else if (selectDrag) {
+        selectionOutline = getRectFromCorners(selectDrag.start, selectDrag.end);
+    }
+
+    const toolbarButtonClass = 'px-2 py-1 rounded-lg text-xs font-semibold transition-all bg-secondary-bg text-text-secondary hover:bg-slate-700';
+
     return (
         <div className="w-full">
             <div className="mb-3 flex justify-between items-center">
                 <label className="block text-sm font-semibold text-text-secondary">
-                    20×20 Grid
+                    {gridSize}×{gridSize} Grid
+                    <span className="ml-2 text-xs font-normal text-tech-teal">
+                        {placementMode === 'stack' ? 'Stacking on columns' : `Layer ${activeLayer}`}
+                    </span>
                 </label>
                 <span className="text-xs text-text-secondary">
-                    Click/Drag: Add | Shift/Right-click: Remove
+                    {tool === 'brush' && 'Click/Drag: Add | Shift/Right-click: Remove'}
+                    {tool === 'fill' && 'Click: Fill region | Shift/Right-click: Remove region'}
+                    {isShapeTool(tool) && 'Drag: Draw shape | Shift/Right-drag: Erase shape'}
+                    {tool === 'select' && 'Drag: Select | Drag selection: Move | Right-click: Deselect'}
+                    {(tool === 'raise' || tool === 'lower') && 'Click/Drag: Sculpt | Shift/Right-drag: Opposite direction'}
+                    {(tool === 'smooth' || tool === 'flatten') && 'Click/Drag: Sculpt'}
                 </span>
             </div>
+            <div className="mb-2 flex flex-wrap items-center gap-2 text-xs text-text-secondary">
+                <label htmlFor="grid-size" className="font-semibold">Size</label>
+                <input
+                    id="grid-size"
+                    type="number"
+                    min={MIN_GRID_SIZE}
+                    max={MAX_GRID_SIZE}
+                    value={sizeDraft}
+                    onChange={(e) => setSizeDraft(e.target.value)}
+                    onBlur={commitGridSize}
+                    onKeyDown={(e) => {
+                        e.stopPropagation();
+                        if (e.key === 'Enter') commitGridSize();
+                    }}
+                    className="w-16 px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    aria-label={`Grid size, ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE} cells per side`}
+                />
+                <div className="ml-auto flex items-center gap-1" role="group" aria-label="Grid zoom">
+                    <button
+                        onClick={() => zoomTo(cellSize / ZOOM_STEP)}
+                        disabled={cellSize <= MIN_CELL_SIZE}
+                        className={`${toolbarButtonClass} disabled:opacity-50`}
+                        aria-label="Zoom out"
+                        title="Zoom out (Ctrl+Wheel)"
+                    >
+                        −
+                    </button>
+                    <span className="w-12 text-center" aria-live="polite">
+                        {Math.round((cellSize / fitCellSize) * 100)}%
+                    </span>
+                    <button
+                        onClick={() => zoomTo(cellSize * ZOOM_STEP)}
+                        disabled={cellSize >= MAX_CELL_SIZE}
+                        className={`${toolbarButtonClass} disabled:opacity-50`}
+                        aria-label="Zoom in"
+                        title="Zoom in (Ctrl+Wheel)"
+                    >
+                        +
+                    </button>
+                    <button
+                        onClick={() => setZoomCellSize(null)}
+                        className={toolbarButtonClass}
+                        aria-label="Fit grid to view"
+                    >
+                        Fit
+                    </button>
+                    {symmetry !== 'none' && (
+                        <>
+                            <button
+                                onClick={() => setIsPlacingAxis((prev) => !prev)}
+                                className={`${toolbarButtonClass} ${isPlacingAxis ? 'bg-cyber-purple text-white' : ''}`}
+                                aria-pressed={isPlacingAxis}
+                                aria-label="Place symmetry axis"
+                                title="Click a cell to center the symmetry axis on it"
+                            >
+                                ⌖ Axis
+                            </button>
+                            {symmetryAxis && (
+                                <button
+                                    onClick={() => onSymmetryAxisChange(null)}
+                                    className={toolbarButtonClass}
+                                    aria-label="Center symmetry axis"
+                                    title="Move the symmetry axis back to the grid center"
+                                >
+                                    Center
+                                </button>
+                            )}
+                        </>
+                    )}
+                    <button
+                        onClick={() => setIsPanMode((prev) => !prev)}
+                        className={`${toolbarButtonClass} ${isPanMode ? 'bg-electric-blue text-white' : ''}`}
+                        aria-pressed={isPanMode}
+                        aria-label="Pan mode"
+                        title="Drag to pan (or hold the middle mouse button)"
+                    >
+                        ✋ Pan
+                    </button>
+                </div>
+            </div>
             <div
-                ref={gridRef}
-                className="bg-primary-bg p-2 rounded-lg border-2 border-border-color"
+                ref={viewportRef}
+                onScroll={handleScroll}
+                onMouseDown={handleViewportMouseDown}
+                className={`bg-primary-bg rounded-lg border-2 border-border-color overflow-auto ${isPanMode ? 'cursor-grab' : ''}`}
                 style={{
-                    display: 'grid',
-                    gridTemplateColumns: `repeat(20, 1fr)`,
-                    gridTemplateRows: `repeat(20, 1fr)`,
-                    gap: '0px',
                     aspectRatio: '1 / 1',
+                    touchAction: 'none',
                 }}
                 role="grid"
-                aria-label="Voxel grid - 20 by 20 cells"
+                aria-label={`Voxel grid - ${gridSize} by ${gridSize} cells`}
             >
-                {renderGrid()}
+                <div
+                    ref={contentRef}
+                    className="relative mx-auto"
+                    style={{
+                        width: gridSize * cellSize,
+                        height: gridSize * cellSize,
+                    }}
+                >
+                    {renderGrid()}
+                    {symmetry !== 'none' && symmetry !== 'mirror-y' && (
+                        <div
+                            className="absolute top-0 bottom-0 border-l-2 border-cyber-purple pointer-events-none"
+                            style={{ left: symmetryCenter.x * cellSize - 1 }}
+                            aria-hidden="true"
+                        />
+                    )}
+                    {symmetry !== 'none' && symmetry !== 'mirror-x' && (
+                        <div
+                            className="absolute left-0 right-0 border-t-2 border-cyber-purple pointer-events-none"
+                            style={{ top: symmetryCenter.y * cellSize - 1 }}
+                            aria-hidden="true"
+                        />
+                    )}
+                    {selectionOutline && (
+                        <div
+                            className="absolute border-2 border-dashed border-white pointer-events-none"
+                            style={{
+                                left: selectionOutline.x * cellSize,
+                                top: selectionOutline.y * cellSize,
+                                width: selectionOutline.width * cellSize,
+                                height: selectionOutline.height * cellSize,
+                            }}
+                            aria-hidden="true"
+                        />
+                    )}
+                </div>
             </div>
         </div>
     );
@@ -0,0 +1,173 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import type { HistoryTree } from '../types/voxel';
+import type { ProjectCheckpoint } from '../types/project';
+import { describeHistoryEntry } from '../utils/history';
+
+interface HistoryPanelProps {
+    history: HistoryTree;
+    checkpoints: ProjectCheckpoint[];
+    onJump: (id: number) => void;
+    getThumbnail: (id: number) => string;
+    onAddCheckpoint: (name: string) => void;
+    onRestoreCheckpoint: (id: string) => void;
+    onDeleteCheckpoint: (id: string) => void;
+}
+
+// Entries listed before "Show all"; thumbnails are only drawn for listed entries
+const RECENT_COUNT = 30;
+
+/**
+ * Timeline of every recorded action, newest first, including undone branches,
+ * plus the project's named checkpoints
+ * @param props - Component props
+ * @returns HistoryPanel component
+ */
+const HistoryPanel: React.FC<HistoryPanelProps> = ({
+    history,
+    checkpoints,
+    onJump,
+    getThumbnail,
+    onAddCheckpoint,
+    onRestoreCheckpoint,
+    onDeleteCheckpoint,
+}) => {
+    const [showAll, setShowAll] = useState<boolean>(false);
+    const [checkpointName, setCheckpointName] = useState<string>('');
+
+    // Nodes whose edits are currently applied
+    const appliedIds = useMemo(() => {
+        const ids = new Set<number>();
+        for (let node = history.nodes.get(history.current); node; node = node.parent === null ? undefined : history.nodes.get(node.parent)) {
+            ids.add(node.id);
+        }
+        return ids;
+    }, [history]);
+
+    const nodes = useMemo(() => Array.from(history.nodes.values()).sort((a, b) => b.id - a.id), [history]);
+    const listed = showAll ? nodes : nodes.slice(0, RECENT_COUNT);
+
+    const saveCheckpoint = useCallback(() => {
+        onAddCheckpoint(checkpointName);
+        setCheckpointName('');
+    }, [checkpointName, onAddCheckpoint]);
+
+    const handleDeleteCheckpoint = useCallback(
+        (checkpoint: ProjectCheckpoint) => {
+            if (window.confirm(`Delete checkpoint "${checkpoint.name}"?`)) {
+                onDeleteCheckpoint(checkpoint.id);
+            }
+        },
+        [onDeleteCheckpoint]
+    );
+
+    return (
+        <div className="w-full space-y-4">
+            <div>
+                <label className="block text-sm font-semibold text-text-secondary mb-3">
+                    Checkpoints
+                </label>
+                <div className="flex gap-2 mb-2">
+                    <input
+                        value={checkpointName}
+                        onChange={(e) => setCheckpointName(e.target.value)}
+                        onKeyDown={(e) => {
+                            e.stopPropagation();
+                            if (e.key === 'Enter') {
+                                saveCheckpoint();
+                            }
+                        }}
+                        placeholder="e.g. before roof experiment"
+                        className="flex-1 min-w-0 px-2 py-1 rounded bg-primary-bg text-sm text-text-primary border border-border-color"
+                        aria-label="Checkpoint name"
+                    />
+                    <button
+                        onClick={saveCheckpoint}
+                        className="px-3 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700"
+                    >
+                        Save
+                    </button>
+                </div>
+                {checkpoints.length > 0 && (
+                    <ul className="space-y-1 max-h-40 overflow-y-auto" aria-label="Checkpoints">
+                        {checkpoints.map((checkpoint) => (
+                            <li key={checkpoint.id} className="flex items-center gap-1 p-1 rounded-lg border border-border-color">
+                                <div className="flex-1 min-w-0 px-1">
+                                    <div className="text-sm text-text-primary truncate">{checkpoint.name}</div>
+                                    <div className="text-xs text-text-secondary">
+                                        {new Date(checkpoint.createdAt).toLocaleString()}
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => onRestoreCheckpoint(checkpoint.id)}
+                                    className="px-2 py-1 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700"
+                                    title="Restore this checkpoint (can be undone)"
+                                >
+                                    Restore
+                                </button>
+                                <button
+                                    onClick={() => handleDeleteCheckpoint(checkpoint)}
+                                    className="w-7 h-7 flex-shrink-0 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700 hover:text-red-400"
+                                    aria-label={`Delete checkpoint ${checkpoint.name}`}
+                                    title="Delete checkpoint"
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
+
+            <div>
+                <label className="block text-sm font-semibold text-text-secondary mb-3">
+                    History
+                </label>
+                <ul className="space-y-1 max-h-72 overflow-y-auto" aria-label="History, newest first">
+                    {listed.map((node) => {
+                        const isCurrent = node.id === history.current;
+                        const isApplied = appliedIds.has(node.id);
+                        const parent = node.parent === null ? undefined : history.nodes.get(node.parent);
+                        const isBranch = parent !== undefined && parent.children.length > 1;
+
+                        return (
+                            <li key={node.id}>
+                                <button
+                                    onClick={() => onJump(node.id)}
+                                    className={`w-full flex items-center gap-2 p-1 rounded-lg border text-left ${isCurrent ? 'border-electric-blue bg-secondary-bg' : 'border-border-color hover:bg-secondary-bg'} ${isApplied ? '' : 'opacity-50'}`}
+                                    aria-current={isCurrent}
+                                    title={isApplied ? 'Go back to this point' : 'Redo up to this point'}
+                                >
+                                    <div
+                                        className="w-10 h-10 flex-shrink-0 rounded overflow-hidden pointer-events-none"
+                                        dangerouslySetInnerHTML={{ __html: getThumbnail(node.id) }}
+                                    />
+                                    <div className="flex-1 min-w-0">
+                                        <div className="text-sm text-text-primary truncate">
+                                            {isBranch && <span className="text-cyber-purple mr-1" title="Branch">⑂</span>}
+                                            {node.entry ? describeHistoryEntry(node.entry) : 'Start'}
+                                        </div>
+                                        {node.entry && (
+                                            <div className="text-xs text-text-secondary">
+                                                {new Date(node.entry.timestamp).toLocaleTimeString()}
+                                            </div>
+                                        )}
+                                    </div>
+                                </button>
+                            </li>
+                        );
+                    })}
+                </ul>
+                {nodes.length > RECENT_COUNT && (
+                    <button
+                        onClick={() => setShowAll(!showAll)}
+                        className="mt-2 text-xs text-text-secondary hover:text-text-primary"
+                    >
+                        {showAll ? 'Show recent' : `Show all (${nodes.length})`}
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,198 @@
+import React, { useCallback, useMemo, useRef, useState } from 'react';
+import type { ColorOption, ImageImportMode, Voxel } from '../types/voxel';
+import { TECH_COLORS } from '../utils/colors';
+import { generateTopDownSVG } from '../utils/history';
+import { IMAGE_IMPORT_TYPES, imageToVoxels, readImageFile } from '../utils/imageImport';
+import { MAX_LAYERS } from '../utils/voxels';
+
+interface ImageImportProps {
+    gridSize: number;
+    palette: ColorOption[];
+    selectedColor: string;
+    maxHeight: number;
+    onImport: (voxels: Map<string, Voxel>) => boolean;
+}
+
+/**
+ * Import a PNG or JPG as flat pixel art or as a heightmap, with a preview before anything changes
+ * @param props - Component props
+ * @returns ImageImport component
+ */
+const ImageImport: React.FC<ImageImportProps> = ({ gridSize, palette, selectedColor, maxHeight, onImport }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [image, setImage] = useState<{ name: string; pixels: ImageData } | null>(null);
+    const [mode, setMode] = useState<ImageImportMode>('pixel-art');
+    const [useTechColors, setUseTechColors] = useState<boolean>(false);
+    const [height, setHeight] = useState<number>(maxHeight);
+    const [invert, setInvert] = useState<boolean>(false);
+    const [useImageColors, setUseImageColors] = useState<boolean>(false);
+
+    const handleFileChange = useCallback(
+        async (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            // Reset so choosing the same file again still triggers a change
+            event.target.value = '';
+
+            if (!file) {
+                return;
+            }
+
+            try {
+                setImage({ name: file.name, pixels: await readImageFile(file, gridSize) });
+                setHeight(maxHeight);
+            } catch (error) {
+                console.error('Image import failed:', error);
+                alert(`Could not import ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        },
+        [gridSize, maxHeight]
+    );
+
+    const voxels = useMemo(() => {
+        if (!image) {
+            return null;
+        }
+        return imageToVoxels(image.pixels, gridSize, {
+            mode,
+            palette: useTechColors ? TECH_COLORS : palette,
+            maxHeight: height,
+            invert,
+            color: useImageColors ? null : selectedColor,
+        });
+    }, [image, gridSize, mode, useTechColors, palette, height, invert, useImageColors, selectedColor]);
+
+    const preview = useMemo(
+        () => (voxels ? generateTopDownSVG({ voxels, gridSize, layers: [] }) : ''),
+        [voxels, gridSize]
+    );
+
+    const close = useCallback(() => setImage(null), []);
+
+    const handleImport = useCallback(() => {
+        if (!voxels) {
+            return;
+        }
+        if (onImport(voxels)) {
+            setImage(null);
+        } else {
+            alert('The current layer is hidden or locked. Show and unlock it to import.');
+        }
+    }, [voxels, onImport]);
+
+    const optionClass = (active: boolean): string => `flex-1 px-3 py-2 rounded-lg text-sm font-semibold transition-all ${active
+        ? 'bg-electric-blue text-white'
+        : 'bg-primary-bg text-text-secondary hover:bg-slate-700'
+        }`;
+
+    return (
+        <>
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="btn-secondary w-full"
+                aria-label="Import image"
+                title="Import a PNG or JPG as pixel art or a heightmap"
+            >
+                🖼 Import Image
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={IMAGE_IMPORT_TYPES}
+                onChange={handleFileChange}
+                className="hidden"
+                aria-hidden="true"
+                tabIndex={-1}
+            />
+
+            {image && (
+                <div
+                    className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4"
+                    role="dialog"
+                    aria-modal="true"
+                    aria-label="Import image"
+                    onKeyDown={(e) => {
+                        // Keep typing in the dialog from triggering editor shortcuts
+                        e.stopPropagation();
+                        if (e.key === 'Escape') {
+                            close();
+                        }
+                    }}
+                >
+                    <div className="w-full max-w-md rounded-lg p-6 space-y-4 bg-secondary-bg border border-border-color shadow-xl">
+                        <h2 className="text-lg font-semibold text-text-primary truncate">Import {image.name}</h2>
+
+                        <div className="flex gap-2" role="group" aria-label="Import mode">
+                            <button
+                                onClick={() => setMode('pixel-art')}
+                                className={optionClass(mode === 'pixel-art')}
+                                aria-pressed={mode === 'pixel-art'}
+                                title="One flat block per pixel"
+                            >
+                                Pixel art
+                            </button>
+                            <button
+                                onClick={() => setMode('heightmap')}
+                                className={optionClass(mode === 'heightmap')}
+                                aria-pressed={mode === 'heightmap'}
+                                title="Brighter pixels make taller columns"
+                            >
+                                Heightmap
+                            </button>
+                        </div>
+
+                        {mode === 'heightmap' && (
+                            <div className="space-y-2 text-sm text-text-secondary">
+                                <label className="flex items-center justify-between gap-2">
+                                    Height of white
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        max={MAX_LAYERS}
+                                        value={height}
+                                        onChange={(e) => setHeight(Math.max(1, Math.min(MAX_LAYERS, Number(e.target.value) || 1)))}
+                                        className="w-16 px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                                    />
+                                </label>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={invert} onChange={(e) => setInvert(e.target.checked)} />
+                                    Dark is tall
+                                </label>
+                                <label className="flex items-center gap-2 cursor-pointer">
+                                    <input type="checkbox" checked={useImageColors} onChange={(e) => setUseImageColors(e.target.checked)} />
+                                    Color columns from the image (otherwise the selected color)
+                                </label>
+                            </div>
+                        )}
+
+                        {(mode === 'pixel-art' || useImageColors) && (
+                            <label className="flex items-center gap-2 text-sm text-text-secondary cursor-pointer">
+                                <input type="checkbox" checked={useTechColors} onChange={(e) => setUseTechColors(e.target.checked)} />
+                                Match to the preset tech colors instead of the palette
+                            </label>
+                        )}
+
+                        <div
+                            className="w-full aspect-square rounded overflow-hidden border border-border-color"
+                            aria-label="Import preview, seen from above"
+                            dangerouslySetInnerHTML={{ __html: preview }}
+                        />
+                        <p className="text-xs text-text-secondary">
+                            {image.pixels.width}×{image.pixels.height} cells, {voxels?.size ?? 0} blocks. Replaces editable blocks in the columns it covers; new blocks go to the current layer. Undo restores them.
+                        </p>
+
+                        <div className="flex gap-2">
+                            <button onClick={close} className="btn-secondary flex-1">
+                                Cancel
+                            </button>
+                            <button onClick={handleImport} className="btn-primary flex-1" disabled={!voxels || voxels.size === 0}>
+                                Import
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default ImageImport;
@@ -1,10 +1,17 @@
-import React, { useMemo } from 'react';
-import type { Voxel } from '../types/voxel';
+import React, { useMemo, useState } from 'react';
+import type { Lighting, SVGAnimationOptions, Voxel, VoxelLayer } from '../types/voxel';
+import { generateAnimatedSVG } from '../utils/animation';
 import { generateSceneSVG } from '../utils/isometric';
 
 interface IsometricPreviewProps {
     voxels: Map<string, Voxel>;
-    lightingAngle: number;
+    layers: VoxelLayer[];
+    lighting: Lighting;
+    viewRotation: number;
+    voxelOutlines: boolean;
+    /** Play this animation instead of showing a still */
+    animation?: SVGAnimationOptions | null;
+    onRotate: (quarterTurns: number) => void;
 }
 
 /**
@@ -12,21 +19,66 @@ interface IsometricPreviewProps {
  * @param props - Component props
  * @returns IsometricPreview component
  */
-const IsometricPreview: React.FC<IsometricPreviewProps> = ({ voxels, lightingAngle }) => {
+const IsometricPreview: React.FC<IsometricPreviewProps> = ({
+    voxels,
+    layers,
+    lighting,
+    viewRotation,
+    voxelOutlines,
+    animation = null,
+    onRotate,
+}) => {
+    // Remounting the SVG restarts its animation
+    const [replayCount, setReplayCount] = useState<number>(0);
+
     // Convert Map to array for proper dependency tracking
     const voxelArray = useMemo(() => Array.from(voxels.values()), [voxels]);
 
     const svgContent = useMemo(() => {
-        return generateSceneSVG(voxels, lightingAngle);
-    }, [voxels, lightingAngle, voxelArray.length]);
+        if (animation) {
+            return generateAnimatedSVG(voxels, lighting, viewRotation, { voxelOutlines, layers }, animation);
+        }
+        return generateSceneSVG(voxels, lighting, viewRotation, { voxelOutlines, layers });
+    }, [voxels, layers, lighting, viewRotation, voxelOutlines, animation, voxelArray.length]);
 
     const hasVoxels = voxels.size > 0;
 
     return (
         <div className="w-full">
-            <label className="block text-sm font-semibold mb-3 text-text-secondary">
-                Isometric Preview
-            </label>
+            <div className="mb-3 flex justify-between items-center">
+                <label className="block text-sm font-semibold text-text-secondary">
+                    Isometric Preview
+                    <span className="ml-2 text-xs font-normal text-tech-teal">View {viewRotation * 90}°</span>
+                </label>
+                <div className="flex gap-1" role="group" aria-label="Rotate view">
+                    {animation && (
+                        <button
+                            onClick={() => setReplayCount((count) => count + 1)}
+                            className="px-2 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700"
+                            aria-label="Replay animation"
+                            title="Replay animation"
+                        >
+                            ↻ Replay
+                        </button>
+                    )}
+                    <button
+                        onClick={() => onRotate(-1)}
+                        className="px-2 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700"
+                        aria-label="Rotate view counterclockwise"
+                        title="Rotate view left (Shift+R)"
+                    >
+                        ⟲
+                    </button>
+                    <button
+                        onClick={() => onRotate(1)}
+                        className="px-2 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700"
+                        aria-label="Rotate view clockwise"
+                        title="Rotate view right (R)"
+                    >
+                        ⟳
+                    </button>
+                </div>
+            </div>
             <div
                 className="bg-secondary-bg p-2 rounded-lg border-2 border-border-color overflow-hidden"
                 style={{
@@ -37,6 +89,7 @@ const IsometricPreview: React.FC<IsometricPreviewProps> = ({ voxels, lightingAng
             >
                 {hasVoxels ? (
                     <div
+                        key={replayCount}
                         className="w-full h-full animate-fade-in"
                         dangerouslySetInnerHTML={{ __html: svgContent }}
                     />
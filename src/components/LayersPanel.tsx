@@ -0,0 +1,179 @@
+import React, { useCallback, useState } from 'react';
+import type { VoxelLayer } from '../types/voxel';
+
+interface LayersPanelProps {
+    layers: VoxelLayer[];
+    currentLayerId: string;
+    onSelect: (id: string) => void;
+    onAdd: () => void;
+    onRename: (id: string, name: string) => void;
+    onMove: (id: string, offset: number) => void;
+    onVisibleChange: (id: string, visible: boolean) => void;
+    onLockedChange: (id: string, locked: boolean) => void;
+    onMergeDown: (id: string) => void;
+    onDelete: (id: string) => void;
+}
+
+/**
+ * Layer list with visibility, lock, ordering and merge controls; the top layer is listed first
+ * @param props - Component props
+ * @returns LayersPanel component
+ */
+const LayersPanel: React.FC<LayersPanelProps> = ({
+    layers,
+    currentLayerId,
+    onSelect,
+    onAdd,
+    onRename,
+    onMove,
+    onVisibleChange,
+    onLockedChange,
+    onMergeDown,
+    onDelete,
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState<string>('');
+
+    const startRename = useCallback((layer: VoxelLayer) => {
+        setEditingId(layer.id);
+        setDraftName(layer.name);
+    }, []);
+
+    const commitRename = useCallback(() => {
+        if (editingId) {
+            onRename(editingId, draftName);
+        }
+        setEditingId(null);
+    }, [editingId, draftName, onRename]);
+
+    const handleDelete = useCallback(
+        (layer: VoxelLayer) => {
+            if (window.confirm(`Delete layer "${layer.name}" and all of its blocks?`)) {
+                onDelete(layer.id);
+            }
+        },
+        [onDelete]
+    );
+
+    const iconButtonClass = 'w-7 h-7 flex-shrink-0 rounded text-xs bg-primary-bg text-text-secondary hover:bg-slate-700 disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+        <div className="w-full">
+            <div className="mb-3 flex justify-between items-center">
+                <label className="block text-sm font-semibold text-text-secondary">
+                    Layers
+                </label>
+                <button
+                    onClick={onAdd}
+                    className="px-3 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700"
+                    aria-label="Add layer"
+                >
+                    + Add
+                </button>
+            </div>
+
+            <ul className="space-y-1 max-h-72 overflow-y-auto" aria-label="Layers, top first">
+                {[...layers].reverse().map((layer) => {
+                    const index = layers.indexOf(layer);
+                    const isCurrent = layer.id === currentLayerId;
+
+                    return (
+                        <li
+                            key={layer.id}
+                            className={`flex items-center gap-1 p-1 rounded-lg border ${isCurrent ? 'border-electric-blue bg-secondary-bg' : 'border-border-color'}`}
+                        >
+                            <button
+                                onClick={() => onVisibleChange(layer.id, !layer.visible)}
+                                className={iconButtonClass}
+                                aria-pressed={layer.visible}
+                                aria-label={`${layer.visible ? 'Hide' : 'Show'} ${layer.name}`}
+                                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                            >
+                                {layer.visible ? '👁' : '–'}
+                            </button>
+                            <button
+                                onClick={() => onLockedChange(layer.id, !layer.locked)}
+                                className={iconButtonClass}
+                                aria-pressed={layer.locked}
+                                aria-label={`${layer.locked ? 'Unlock' : 'Lock'} ${layer.name}`}
+                                title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+                            >
+                                {layer.locked ? '🔒' : '🔓'}
+                            </button>
+
+                            <div className="flex-1 min-w-0">
+                                {editingId === layer.id ? (
+                                    <input
+                                        value={draftName}
+                                        onChange={(e) => setDraftName(e.target.value)}
+                                        onBlur={commitRename}
+                                        onKeyDown={(e) => {
+                                            e.stopPropagation();
+                                            if (e.key === 'Enter') {
+                                                commitRename();
+                                            } else if (e.key === 'Escape') {
+                                                setEditingId(null);
+                                            }
+                                        }}
+                                        className="w-full px-2 py-1 rounded bg-primary-bg text-sm text-text-primary border border-border-color"
+                                        aria-label="Layer name"
+                                        autoFocus
+                                    />
+                                ) : (
+                                    <button
+                                        onClick={() => onSelect(layer.id)}
+                                        onDoubleClick={() => startRename(layer)}
+                                        className={`w-full px-2 py-1 text-left text-sm truncate rounded ${isCurrent ? 'font-semibold text-text-primary' : 'text-text-secondary'} ${layer.visible ? '' : 'opacity-50'}`}
+                                        aria-current={isCurrent}
+                                        title={`${layer.name} - double-click to rename`}
+                                    >
+                                        {layer.name}
+                                    </button>
+                                )}
+                            </div>
+
+                            <button
+                                onClick={() => onMove(layer.id, 1)}
+                                disabled={index === layers.length - 1}
+                                className={iconButtonClass}
+                                aria-label={`Move ${layer.name} up`}
+                                title="Move up"
+                            >
+                                ▲
+                            </button>
+                            <button
+                                onClick={() => onMove(layer.id, -1)}
+                                disabled={index === 0}
+                                className={iconButtonClass}
+                                aria-label={`Move ${layer.name} down`}
+                                title="Move down"
+                            >
+                                ▼
+                            </button>
+                            <button
+                                onClick={() => onMergeDown(layer.id)}
+                                disabled={index === 0 || layer.locked || layers[index - 1].locked}
+                                className={iconButtonClass}
+                                aria-label={`Merge ${layer.name} into the layer below`}
+                                title={index > 0 && (layer.locked || layers[index - 1].locked) ? 'Unlock both layers to merge' : 'Merge down'}
+                            >
+                                ⤓
+                            </button>
+                            <button
+                                onClick={() => handleDelete(layer)}
+                                disabled={layers.length < 2 || layer.locked}
+                                className={`${iconButtonClass} hover:text-red-400`}
+                                aria-label={`Delete ${layer.name}`}
+                                title={layer.locked ? 'Unlock to delete' : 'Delete layer'}
+                            >
+                                ✕
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+        </div>
+    );
+};
+
+export default LayersPanel;
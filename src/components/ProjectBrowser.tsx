@@ -0,0 +1,165 @@
+import React, { useCallback, useState } from 'react';
+import type { StoredProject } from '../types/project';
+
+interface ProjectBrowserProps {
+    projects: StoredProject[];
+    currentId: string | null;
+    isAvailable: boolean;
+    onCreate: () => Promise<void>;
+    onOpen: (id: string) => Promise<void>;
+    onRename: (id: string, name: string) => Promise<void>;
+    onDuplicate: (id: string) => Promise<void>;
+    onDelete: (id: string) => Promise<void>;
+}
+
+/**
+ * Browser for projects stored in the local library
+ * @param props - Component props
+ * @returns ProjectBrowser component
+ */
+const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+    projects,
+    currentId,
+    isAvailable,
+    onCreate,
+    onOpen,
+    onRename,
+    onDuplicate,
+    onDelete,
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState<string>('');
+
+    const run = useCallback(async (action: () => Promise<void>, description: string) => {
+        try {
+            await action();
+        } catch (error) {
+            console.error(`${description} failed:`, error);
+            alert(`${description} failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    }, []);
+
+    const startRename = useCallback((project: StoredProject) => {
+        setEditingId(project.id);
+        setDraftName(project.name);
+    }, []);
+
+    const commitRename = useCallback(async () => {
+        if (editingId) {
+            await run(() => onRename(editingId, draftName), 'Rename');
+        }
+        setEditingId(null);
+    }, [editingId, draftName, onRename, run]);
+
+    const handleDelete = useCallback(
+        (project: StoredProject) => {
+            if (window.confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+                void run(() => onDelete(project.id), 'Delete');
+            }
+        },
+        [onDelete, run]
+    );
+
+    return (
+        <div className="w-full">
+            <div className="mb-3 flex justify-between items-center">
+                <label className="block text-sm font-semibold text-text-secondary">
+                    Projects
+                </label>
+                <button
+                    onClick={() => run(onCreate, 'Create project')}
+                    disabled={!isAvailable}
+                    className="px-3 py-1 rounded-lg text-xs font-semibold bg-secondary-bg text-text-secondary hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    aria-label="Create new project"
+                >
+                    + New
+                </button>
+            </div>
+
+            {!isAvailable ? (
+                <p className="text-xs text-text-secondary opacity-75">
+                    Browser storage is unavailable, so autosave is off. Use Save to keep your work.
+                </p>
+            ) : (
+                <ul className="space-y-2 max-h-96 overflow-y-auto" aria-label="Saved projects">
+                    {projects.map((project) => {
+                        const isCurrent = project.id === currentId;
+
+                        return (
+                            <li
+                                key={project.id}
+                                className={`flex items-center gap-3 p-2 rounded-lg border ${isCurrent ? 'border-electric-blue bg-secondary-bg' : 'border-border-color'}`}
+                            >
+                                <button
+                                    onClick={() => run(() => onOpen(project.id), 'Open project')}
+                                    className="w-14 h-14 flex-shrink-0 rounded bg-primary-bg overflow-hidden"
+                                    aria-label={`Open ${project.name}`}
+                                    aria-current={isCurrent}
+                                >
+                                    <div
+                                        className="w-full h-full pointer-events-none"
+                                        dangerouslySetInnerHTML={{ __html: project.thumbnail }}
+                                    />
+                                </button>
+
+                                <div className="flex-1 min-w-0">
+                                    {editingId === project.id ? (
+                                        <input
+                                            value={draftName}
+                                            onChange={(e) => setDraftName(e.target.value)}
+                                            onBlur={commitRename}
+                                            onKeyDown={(e) => {
+                                                e.stopPropagation();
+                                                if (e.key === 'Enter') {
+                                                    void commitRename();
+                                                } else if (e.key === 'Escape') {
+                                                    setEditingId(null);
+                                                }
+                                            }}
+                                            className="w-full px-2 py-1 rounded bg-primary-bg text-sm text-text-primary border border-border-color"
+                                            aria-label="Project name"
+                                            autoFocus
+                                        />
+                                    ) : (
+                                        <p className="text-sm font-semibold truncate" title={project.name}>
+                                            {project.name}
+                                        </p>
+                                    )}
+                                    <p className="text-xs text-text-secondary opacity-75">
+                                        {isCurrent ? 'Open · ' : ''}
+                                        {new Date(project.updatedAt).toLocaleString()}
+                                    </p>
+                                    <div className="mt-1 flex gap-2 text-xs">
+                                        <button
+                                            onClick={() => startRename(project)}
+                                            className="text-text-secondary hover:text-text-primary"
+                                            aria-label={`Rename ${project.name}`}
+                                        >
+                                            Rename
+                                        </button>
+                                        <button
+                                            onClick={() => run(() => onDuplicate(project.id), 'Duplicate')}
+                                            className="text-text-secondary hover:text-text-primary"
+                                            aria-label={`Duplicate ${project.name}`}
+                                        >
+                                            Duplicate
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(project)}
+                                            className="text-text-secondary hover:text-red-400"
+                                            aria-label={`Delete ${project.name}`}
+                                        >
+                                            Delete
+                                        </button>
+                                    </div>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default ProjectBrowser;
@@ -0,0 +1,85 @@
+import React, { useCallback, useRef } from 'react';
+import type { ProjectData } from '../types/project';
+import { PROJECT_EXTENSION, downloadProject, readProjectFile } from '../utils/project';
+import { VOX_EXTENSION, readVoxFile } from '../utils/vox';
+
+interface ProjectMenuProps {
+    project: ProjectData;
+    onLoad: (project: ProjectData, name: string) => void | Promise<void>;
+}
+
+/**
+ * Open and save actions for `.voxel.json` project files; Open also imports MagicaVoxel `.vox` models
+ * @param props - Component props
+ * @returns ProjectMenu component
+ */
+const ProjectMenu: React.FC<ProjectMenuProps> = ({ project, onLoad }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleSave = useCallback(() => {
+        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+        downloadProject(project, `isometric-voxel-${timestamp}${PROJECT_EXTENSION}`);
+    }, [project]);
+
+    const handleFileChange = useCallback(
+        async (event: React.ChangeEvent<HTMLInputElement>) => {
+            const file = event.target.files?.[0];
+            // Reset so choosing the same file again still triggers a change
+            event.target.value = '';
+
+            if (!file) {
+                return;
+            }
+
+            try {
+                if (file.name.toLowerCase().endsWith(VOX_EXTENSION)) {
+                    const { project: model, warnings } = await readVoxFile(file);
+                    await onLoad(model, file.name.slice(0, -VOX_EXTENSION.length));
+                    if (warnings.length > 0) {
+                        alert(`Opened ${file.name} with changes:\n- ${warnings.join('\n- ')}`);
+                    }
+                    return;
+                }
+
+                const name = file.name.replace(PROJECT_EXTENSION, '').replace(/\.json$/i, '');
+                await onLoad(await readProjectFile(file), name);
+            } catch (error) {
+                console.error('Open failed:', error);
+                alert(`Could not open ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        },
+        [onLoad]
+    );
+
+    return (
+        <div className="flex gap-2">
+            <button
+                onClick={() => fileInputRef.current?.click()}
+                className="btn-secondary flex-1"
+                aria-label="Open project file"
+                title={`Open a ${PROJECT_EXTENSION} project or a MagicaVoxel ${VOX_EXTENSION} model`}
+            >
+                📂 Open
+            </button>
+            <button
+                onClick={handleSave}
+                className="btn-secondary flex-1"
+                aria-label="Save project file"
+                title={`Save as ${PROJECT_EXTENSION} project`}
+            >
+                💾 Save
+            </button>
+            <input
+                ref={fileInputRef}
+                type="file"
+                accept={`${PROJECT_EXTENSION},application/json,${VOX_EXTENSION}`}
+                onChange={handleFileChange}
+                className="hidden"
+                aria-hidden="true"
+                tabIndex={-1}
+            />
+        </div>
+    );
+};
+
+export default ProjectMenu;
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { SculptFalloff } from '../types/voxel';
+import { MAX_SCULPT_RADIUS } from '../utils/sculpt';
+
+interface SculptBarProps {
+    radius: number;
+    falloff: SculptFalloff;
+    onRadiusChange: (radius: number) => void;
+    onFalloffChange: (falloff: SculptFalloff) => void;
+}
+
+const FALLOFF_OPTIONS: { falloff: SculptFalloff; label: string; title: string }[] = [
+    { falloff: 'constant', label: 'Flat', title: 'Full strength across the whole brush' },
+    { falloff: 'linear', label: 'Linear', title: 'Strength fades evenly toward the edge' },
+    { falloff: 'smooth', label: 'Smooth', title: 'Strength fades gently toward the edge' },
+];
+
+/**
+ * Radius and falloff settings for the sculpt brushes
+ * @param props - Component props
+ * @returns SculptBar component
+ */
+const SculptBar: React.FC<SculptBarProps> = ({ radius, falloff, onRadiusChange, onFalloffChange }) => {
+    return (
+        <div className="flex flex-wrap items-center gap-3" role="group" aria-label="Sculpt brush settings">
+            <label className="flex items-center gap-2 text-xs font-semibold text-text-secondary">
+                Radius <span className="text-tech-teal w-5">{radius}</span>
+                <input
+                    type="range"
+                    min="0"
+                    max={MAX_SCULPT_RADIUS}
+                    value={radius}
+                    onChange={(e) => onRadiusChange(Number(e.target.value))}
+                    className="w-28 cursor-pointer"
+                    aria-label={`Brush radius: ${radius} cells`}
+                />
+            </label>
+            <div className="flex gap-1" role="group" aria-label="Brush falloff">
+                {FALLOFF_OPTIONS.map((option) => (
+                    <button
+                        key={option.falloff}
+                        onClick={() => onFalloffChange(option.falloff)}
+                        className={`px-2 py-1 rounded-lg text-xs font-semibold transition-all ${falloff === option.falloff
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-pressed={falloff === option.falloff}
+                        title={option.title}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+            <span className="text-xs text-text-secondary opacity-75">Strength: block height</span>
+        </div>
+    );
+};
+
+export default SculptBar;
@@ -0,0 +1,91 @@
+import React from 'react';
+import type { MirrorAxis } from '../types/voxel';
+
+interface SelectionBarProps {
+    hasSelection: boolean;
+    canPaste: boolean;
+    onCopy: () => void;
+    onCut: () => void;
+    onPaste: () => void;
+    onRotate: (clockwise: boolean) => void;
+    onMirror: (axis: MirrorAxis) => void;
+    onDelete: () => void;
+    onDeselect: () => void;
+}
+
+/**
+ * Clipboard and transform actions for the grid selection
+ * @param props - Component props
+ * @returns SelectionBar component
+ */
+const SelectionBar: React.FC<SelectionBarProps> = ({
+    hasSelection,
+    canPaste,
+    onCopy,
+    onCut,
+    onPaste,
+    onRotate,
+    onMirror,
+    onDelete,
+    onDeselect,
+}) => {
+    const buttonClass = 'px-2 py-1 rounded-lg text-xs font-semibold transition-all bg-secondary-bg text-text-secondary hover:bg-slate-700 disabled:opacity-50 disabled:cursor-not-allowed';
+
+    return (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Selection actions">
+            <button onClick={onCopy} disabled={!hasSelection} className={buttonClass} title="Copy (Ctrl+C)">
+                Copy
+            </button>
+            <button onClick={onCut} disabled={!hasSelection} className={buttonClass} title="Cut (Ctrl+X)">
+                Cut
+            </button>
+            <button onClick={onPaste} disabled={!canPaste} className={buttonClass} title="Paste (Ctrl+V)">
+                Paste
+            </button>
+            <button
+                onClick={() => onRotate(false)}
+                disabled={!hasSelection}
+                className={buttonClass}
+                aria-label="Rotate selection counterclockwise"
+                title="Rotate 90° counterclockwise"
+            >
+                ⟲
+            </button>
+            <button
+                onClick={() => onRotate(true)}
+                disabled={!hasSelection}
+                className={buttonClass}
+                aria-label="Rotate selection clockwise"
+                title="Rotate 90° clockwise"
+            >
+                ⟳
+            </button>
+            <button
+                onClick={() => onMirror('horizontal')}
+                disabled={!hasSelection}
+                className={buttonClass}
+                aria-label="Mirror selection horizontally"
+                title="Mirror left to right"
+            >
+                ⇋
+            </button>
+            <button
+                onClick={() => onMirror('vertical')}
+                disabled={!hasSelection}
+                className={buttonClass}
+                aria-label="Mirror selection vertically"
+                title="Mirror top to bottom"
+            >
+                ⇵
+            </button>
+            <button onClick={onDelete} disabled={!hasSelection} className={buttonClass} title="Delete (Del)">
+                Delete
+            </button>
+            <button onClick={onDeselect} disabled={!hasSelection} className={buttonClass} title="Deselect (Esc)">
+                Deselect
+            </button>
+        </div>
+    );
+};
+
+export default SelectionBar;
@@ -0,0 +1,141 @@
+import React, { useCallback, useState } from 'react';
+import type { Lighting, Voxel, VoxelLayer, VoxelSelection } from '../types/voxel';
+import type { AtlasFormat, SpriteSource } from '../utils/spriteSheet';
+import { downloadSpriteSheet } from '../utils/spriteSheet';
+
+interface SpriteSheetPanelProps {
+    voxels: Map<string, Voxel>;
+    layers: VoxelLayer[];
+    selection: VoxelSelection | null;
+    lighting: Lighting;
+    viewRotation: number;
+    voxelOutlines: boolean;
+}
+
+const SOURCE_OPTIONS: { source: SpriteSource; label: string; title: string }[] = [
+    { source: 'scene', label: 'Scene', title: 'One sprite of all visible blocks' },
+    { source: 'layers', label: 'Each layer', title: 'One sprite per visible layer, aligned to each other' },
+    { source: 'selection', label: 'Selection', title: 'One sprite of the selected blocks' },
+];
+
+const TILE_SIZES = [32, 64, 128, 256, 512];
+
+const ATLAS_OPTIONS: { format: AtlasFormat; label: string }[] = [
+    { format: 'hash', label: 'JSON hash' },
+    { format: 'array', label: 'JSON array' },
+];
+
+/**
+ * Settings and download for sprite sheets: a packed PNG plus a TexturePacker-style JSON atlas
+ * @param props - Component props
+ * @returns SpriteSheetPanel component
+ */
+const SpriteSheetPanel: React.FC<SpriteSheetPanelProps> = ({
+    voxels,
+    layers,
+    selection,
+    lighting,
+    viewRotation,
+    voxelOutlines,
+}) => {
+    const [source, setSource] = useState<SpriteSource>('scene');
+    const [tileSize, setTileSize] = useState<number>(128);
+    const [rotations, setRotations] = useState<number>(1);
+    const [atlasFormat, setAtlasFormat] = useState<AtlasFormat>('hash');
+    const [isExporting, setIsExporting] = useState<boolean>(false);
+
+    const handleExport = useCallback(async () => {
+        setIsExporting(true);
+        try {
+            const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+            await downloadSpriteSheet(
+                voxels,
+                layers,
+                selection,
+                lighting,
+                viewRotation,
+                { source, tileSize, rotations, atlasFormat, voxelOutlines },
+                `isometric-voxel-${timestamp}-sprites`
+            );
+        } catch (error) {
+            console.error('Sprite sheet export failed:', error);
+            alert(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [voxels, layers, selection, lighting, viewRotation, source, tileSize, rotations, atlasFormat, voxelOutlines]);
+
+    return (
+        <div className="space-y-3">
+            <label className="block text-sm font-semibold text-text-secondary">Sprite Sheet</label>
+
+            <div className="flex gap-1" role="group" aria-label="Sprites">
+                {SOURCE_OPTIONS.map((option) => (
+                    <button
+                        key={option.source}
+                        onClick={() => setSource(option.source)}
+                        disabled={option.source === 'selection' && !selection}
+                        className={`flex-1 px-2 py-1 rounded-lg text-xs font-semibold transition-all disabled:opacity-50 disabled:cursor-not-allowed ${source === option.source
+                            ? 'bg-electric-blue text-white'
+                            : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                            }`}
+                        aria-pressed={source === option.source}
+                        title={option.title}
+                    >
+                        {option.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 text-xs text-text-secondary">
+                <label className="flex items-center gap-1">
+                    Tile
+                    <select
+                        value={tileSize}
+                        onChange={(e) => setTileSize(Number(e.target.value))}
+                        className="px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    >
+                        {TILE_SIZES.map((size) => (
+                            <option key={size} value={size}>{size}px</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1" title="Views in quarter turns clockwise, starting from the current view">
+                    Views
+                    <select
+                        value={rotations}
+                        onChange={(e) => setRotations(Number(e.target.value))}
+                        className="px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    >
+                        {[1, 2, 3, 4].map((count) => (
+                            <option key={count} value={count}>{count}</option>
+                        ))}
+                    </select>
+                </label>
+                <label className="flex items-center gap-1">
+                    Atlas
+                    <select
+                        value={atlasFormat}
+                        onChange={(e) => setAtlasFormat(e.target.value as AtlasFormat)}
+                        className="px-2 py-1 rounded bg-primary-bg text-text-primary border border-border-color"
+                    >
+                        {ATLAS_OPTIONS.map(({ format, label }) => (
+                            <option key={format} value={format}>{label}</option>
+                        ))}
+                    </select>
+                </label>
+            </div>
+
+            <button
+                onClick={handleExport}
+                disabled={voxels.size === 0 || isExporting || (source === 'selection' && !selection)}
+                className="btn-secondary w-full disabled:opacity-50 disabled:cursor-not-allowed"
+                aria-label="Download sprite sheet and atlas"
+            >
+                {isExporting ? 'Rendering…' : '⬇️ Sprite sheet'}
+            </button>
+        </div>
+    );
+};
+
+export default SpriteSheetPanel;
@@ -0,0 +1,51 @@
+import React from 'react';
+import type { GridTool } from '../types/voxel';
+
+interface ToolPickerProps {
+    tool: GridTool;
+    onToolChange: (tool: GridTool) => void;
+}
+
+const TOOLS: { id: GridTool; icon: string; label: string }[] = [
+    { id: 'brush', icon: '✏️', label: 'Brush' },
+    { id: 'line', icon: '╱', label: 'Line' },
+    { id: 'rectangle', icon: '▭', label: 'Rectangle' },
+    { id: 'filled-rectangle', icon: '▬', label: 'Filled rectangle' },
+    { id: 'ellipse', icon: '◯', label: 'Ellipse' },
+    { id: 'filled-ellipse', icon: '⬤', label: 'Filled ellipse' },
+    { id: 'fill', icon: '🪣', label: 'Bucket fill' },
+    { id: 'select', icon: '⬚', label: 'Select' },
+    { id: 'raise', icon: '⛰', label: 'Raise terrain' },
+    { id: 'lower', icon: '⛏', label: 'Lower terrain' },
+    { id: 'smooth', icon: '≈', label: 'Smooth terrain' },
+    { id: 'flatten', icon: '▁', label: 'Flatten terrain' },
+];
+
+/**
+ * Toolbar for choosing how the grid paints
+ * @param props - Component props
+ * @returns ToolPicker component
+ */
+const ToolPicker: React.FC<ToolPickerProps> = ({ tool, onToolChange }) => {
+    return (
+        <div className="flex flex-wrap gap-1" role="group" aria-label="Drawing tool">
+            {TOOLS.map(({ id, icon, label }) => (
+                <button
+                    key={id}
+                    onClick={() => onToolChange(id)}
+                    className={`px-2 py-1 rounded-lg text-sm font-semibold transition-all ${tool === id
+                        ? 'bg-electric-blue text-white'
+                        : 'bg-secondary-bg text-text-secondary hover:bg-slate-700'
+                        }`}
+                    aria-pressed={tool === id}
+                    aria-label={label}
+                    title={label}
+                >
+                    {icon}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default ToolPicker;
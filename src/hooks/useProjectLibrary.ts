@@ -0,0 +1,273 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { ProjectData, StoredProject } from '../types/project';
+import { generateSceneSVG } from '../utils/isometric';
+import { createEmptyProject, parseProject, serializeProject } from '../utils/project';
+import {
+    createProjectId,
+    deleteProject,
+    getLastProjectId,
+    listProjects,
+    putProject,
+    setLastProjectId,
+} from '../utils/storage';
+
+const AUTOSAVE_DELAY = 500;
+const DEFAULT_PROJECT_NAME = 'Untitled project';
+
+/**
+ * Custom hook for the local project library with autosave
+ * @param project - State of the open project
+ * @param loadProject - Replaces the editor state with another project
+ * @returns Library state and project management functions
+ */
+export const useProjectLibrary = (project: ProjectData, loadProject: (project: ProjectData) => void) => {
+    const [projects, setProjects] = useState<StoredProject[]>([]);
+    const [currentId, setCurrentId] = useState<string | null>(null);
+    const [isAvailable, setIsAvailable] = useState<boolean>(true);
+
+    // Latest values for callbacks that run after awaits or timers
+    const projectRef = useRef(project);
+    const currentIdRef = useRef<string | null>(null);
+    const projectsRef = useRef<StoredProject[]>([]);
+    const lastSavedRef = useRef<string>('');
+
+    projectRef.current = project;
+    currentIdRef.current = currentId;
+    projectsRef.current = projects;
+
+    /**
+     * Reload the project list from the database
+     */
+    const refresh = useCallback(async () => {
+        setProjects(await listProjects());
+    }, []);
+
+    /**
+     * Write project state under the given id, keeping its name and creation time
+     */
+    const writeProject = useCallback(
+        async (id: string, data: ProjectData, name?: string): Promise<StoredProject> => {
+            const existing = projectsRef.current.find((stored) => stored.id === id);
+            const now = Date.now();
+            const record: StoredProject = {
+                id,
+                name: name ?? existing?.name ?? DEFAULT_PROJECT_NAME,
+                createdAt: existing?.createdAt ?? now,
+                updatedAt: now,
+                data: serializeProject(data),
+                // Thumbnails share the project browser's document, so their gradient ids must not clash
+                thumbnail: generateSceneSVG(data.voxels, data.lighting, 0, { layers: data.layers, idPrefix: `${id}-` }),
+            };
+
+            await putProject(record);
+            return record;
+        },
+        []
+    );
+
+    /**
+     * Switch the editor to a stored record
+     */
+    const activate = useCallback(
+        (record: StoredProject, data: ProjectData) => {
+            lastSavedRef.current = record.data;
+            loadProject(data);
+            setCurrentId(record.id);
+            setLastProjectId(record.id);
+        },
+        [loadProject]
+    );
+
+    /**
+     * Save the open project immediately if it has unsaved changes
+     */
+    const flush = useCallback(async () => {
+        const id = currentIdRef.current;
+        if (!id) {
+            return;
+        }
+
+        const serialized = serializeProject(projectRef.current);
+        if (serialized !== lastSavedRef.current) {
+            await writeProject(id, projectRef.current);
+            lastSavedRef.current = serialized;
+        }
+    }, [writeProject]);
+
+    /**
+     * Store a project as a new library entry and open it
+     */
+    const addProject = useCallback(
+        async (data: ProjectData, name: string) => {
+            await flush();
+            const record = await writeProject(createProjectId(), data, name);
+            activate(record, data);
+            await refresh();
+        },
+        [flush, writeProject, activate, refresh]
+    );
+
+    /**
+     * Create an empty project and open it
+     */
+    const createProject = useCallback(async () => {
+        await addProject(createEmptyProject(), DEFAULT_PROJECT_NAME);
+    }, [addProject]);
+
+    /**
+     * Open a stored project
+     */
+    const openProject = useCallback(
+        async (id: string) => {
+            if (id === currentIdRef.current) {
+                return;
+            }
+
+            await flush();
+            const record = projectsRef.current.find((stored) => stored.id === id);
+            if (record) {
+                activate(record, parseProject(record.data));
+            }
+            await refresh();
+        },
+        [flush, activate, refresh]
+    );
+
+    /**
+     * Rename a stored project
+     */
+    const renameProject = useCallback(
+        async (id: string, name: string) => {
+            const record = projectsRef.current.find((stored) => stored.id === id);
+            const trimmed = name.trim();
+            if (record && trimmed) {
+                await putProject({ ...record, name: trimmed });
+                await refresh();
+            }
+        },
+        [refresh]
+    );
+
+    /**
+     * Copy a stored project into a new entry
+     */
+    const duplicateProject = useCallback(
+        async (id: string) => {
+            await flush();
+            const record = (await listProjects()).find((stored) => stored.id === id);
+            if (record) {
+                const now = Date.now();
+                await putProject({
+                    ...record,
+                    id: createProjectId(),
+                    name: `${record.name} copy`,
+                    createdAt: now,
+                    updatedAt: now,
+                });
+                await refresh();
+            }
+        },
+        [flush, refresh]
+    );
+
+    /**
+     * Delete a stored project, opening another one if it was open
+     */
+    const removeProject = useCallback(
+        async (id: string) => {
+            await deleteProject(id);
+            const remaining = await listProjects();
+
+            if (id === currentIdRef.current) {
+                // Nothing left to save for the deleted project
+                currentIdRef.current = null;
+                if (remaining.length > 0) {
+                    activate(remaining[0], parseProject(remaining[0].data));
+                } else {
+                    const data = createEmptyProject();
+                    const record = await writeProject(createProjectId(), data, DEFAULT_PROJECT_NAME);
+                    activate(record, data);
+                    remaining.push(record);
+                }
+            }
+
+            setProjects(remaining);
+        },
+        [activate, writeProject]
+    );
+
+    // Restore the last open project on startup
+    useEffect(() => {
+        let cancelled = false;
+
+        const restore = async () => {
+            try {
+                const stored = await listProjects();
+                if (cancelled) {
+                    return;
+                }
+
+                const lastId = getLastProjectId();
+                const candidates = [
+                    ...stored.filter((record) => record.id === lastId),
+                    ...stored.filter((record) => record.id !== lastId),
+                ];
+
+                for (const record of candidates) {
+                    try {
+                        activate(record, parseProject(record.data));
+                        setProjects(stored);
+                        return;
+                    } catch (error) {
+                        console.error(`Skipping unreadable project "${record.name}":`, error);
+                    }
+                }
+
+                const record = await writeProject(createProjectId(), projectRef.current, DEFAULT_PROJECT_NAME);
+                if (!cancelled) {
+                    lastSavedRef.current = record.data;
+                    setCurrentId(record.id);
+                    setLastProjectId(record.id);
+                    setProjects([record, ...stored]);
+                }
+            } catch (error) {
+                console.error('Project library unavailable:', error);
+                if (!cancelled) {
+                    setIsAvailable(false);
+                }
+            }
+        };
+
+        void restore();
+        return () => {
+            cancelled = true;
+        };
+    }, [activate, writeProject]);
+
+    // Autosave shortly after every change
+    useEffect(() => {
+        if (!currentId) {
+            return;
+        }
+
+        const timer = setTimeout(() => {
+            flush()
+                .then(refresh)
+                .catch((error) => console.error('Autosave failed:', error));
+        }, AUTOSAVE_DELAY);
+
+        return () => clearTimeout(timer);
+    }, [project, currentId, flush, refresh]);
+
+    return {
+        projects,
+        currentId,
+        isAvailable,
+        addProject,
+        createProject,
+        openProject,
+        renameProject,
+        duplicateProject,
+        removeProject,
+    };
+};
@@ -1,8 +1,65 @@
-import { useState, useCallback } from 'react';
-import type { Voxel, HistoryState } from '../types/voxel';
+import { useState, useCallback, useMemo, useRef } from 'react';
+import type {
+    Voxel,
+    HistoryEntry,
+    HistoryNode,
+    HistoryTree,
+    PlacementMode,
+    ColorOption,
+    ExportSettings,
+    GridPosition,
+    GridRect,
+    GridTool,
+    Lighting,
+    MirrorAxis,
+    PaintMode,
+    SceneSnapshot,
+    SculptFalloff,
+    SymmetryMode,
+    VoxelClipboard,
+    VoxelLayer,
+    VoxelSelection,
+} from '../types/voxel';
+import type { ProjectCheckpoint, ProjectData, ProjectFrame } from '../types/project';
 import { TECH_COLORS } from '../utils/colors';
+import { DEFAULT_EXPORT_SETTINGS } from '../utils/exportSettings';
+import { DEFAULT_FRAME_DURATION, MAX_FRAME_DURATION, MIN_FRAME_DURATION } from '../utils/frames';
+import {
+    addHistoryEntry,
+    applyHistorySteps,
+    createHistoryTree,
+    diffVoxels,
+    generateTopDownSVG,
+    getHistoryPath,
+    isEmptyHistoryEntry,
+    moveHistory,
+} from '../utils/history';
+import { createDefaultLayers, createLayer, createLayerId, getVisibleVoxels, getVoxelLayerId } from '../utils/layers';
+import { DEFAULT_LIGHTING } from '../utils/lighting';
+import {
+    clipRectToGrid,
+    fitRectToGrid,
+    getVoxelsInRect,
+    mirrorRegion,
+    rotateRegion,
+    translateVoxels,
+} from '../utils/selection';
+import { getBrushCells, getSculptHeights, isSculptTool, resizeColumn } from '../utils/sculpt';
+import { getFloodFillCells } from '../utils/shapes';
+import { createProjectId } from '../utils/storage';
+import { getSymmetricCells, getSymmetryCenter } from '../utils/symmetry';
+import {
+    DEFAULT_GRID_SIZE,
+    DEFAULT_MAX_HEIGHT,
+    MAX_GRID_SIZE,
+    MAX_LAYERS,
+    MIN_GRID_SIZE,
+    buildColumnIndex,
+    getColumnKey,
+    getVoxelKey,
+} from '../utils/voxels';
 
-const MAX_HISTORY = 50;
+const MAX_HISTORY = 1000;
 
 /**
  * Custom hook for managing voxel grid state
@@ -12,152 +69,962 @@ export const useVoxelGrid = () => {
     const [voxels, setVoxels] = useState<Map<string, Voxel>>(new Map());
     const [selectedColor, setSelectedColor] = useState<string>(TECH_COLORS[0].hex);
     const [blockHeight, setBlockHeight] = useState<number>(1);
-    const [lightingAngle, setLightingAngle] = useState<number>(45);
-    const [history, setHistory] = useState<HistoryState[]>([]);
-    const [historyIndex, setHistoryIndex] = useState<number>(-1);
+    // Tallest column the height slider and sculpt brushes reach
+    const [maxHeight, setMaxHeightValue] = useState<number>(DEFAULT_MAX_HEIGHT);
+    const [lighting, setLighting] = useState<Lighting>(DEFAULT_LIGHTING);
+    const [viewRotation, setViewRotation] = useState<number>(0);
+    const [voxelOutlines, setVoxelOutlines] = useState<boolean>(false);
+    const [activeLayer, setActiveLayer] = useState<number>(0);
+    const [placementMode, setPlacementMode] = useState<PlacementMode>('stack');
+    const [tool, setTool] = useState<GridTool>('brush');
+    const [sculptRadius, setSculptRadius] = useState<number>(2);
+    const [sculptFalloff, setSculptFalloff] = useState<SculptFalloff>('smooth');
+    const [selection, setSelection] = useState<VoxelSelection | null>(null);
+    const [clipboard, setClipboard] = useState<VoxelClipboard | null>(null);
+    const [symmetry, setSymmetry] = useState<SymmetryMode>('none');
+    // User-placed symmetry center in grid-line coordinates; null uses the grid center
+    const [symmetryAxis, setSymmetryAxis] = useState<GridPosition | null>(null);
+    const [layers, setLayers] = useState<VoxelLayer[]>(createDefaultLayers);
+    const [currentLayerId, setCurrentLayerId] = useState<string>(() => layers[layers.length - 1].id);
+    const [palette, setPalette] = useState<ColorOption[]>(TECH_COLORS);
+    const [gridSize, setGridSize] = useState<number>(DEFAULT_GRID_SIZE);
+    // Undo tree of recorded edits; abandoned redo branches stay reachable
+    const [history, setHistory] = useState<HistoryTree>(createHistoryTree);
+    const [checkpoints, setCheckpoints] = useState<ProjectCheckpoint[]>([]);
+    const [frames, setFrames] = useState<ProjectFrame[]>([]);
+    // Frame the scene was last shown from or saved to
+    const [currentFrameId, setCurrentFrameId] = useState<string | null>(null);
+    const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+    // Thumbnails by history node; a node's scene only changes while a stroke is folded into it
+    const thumbnailsRef = useRef<Map<number, string>>(new Map());
+    // While a stroke is open, edits after the first are folded into its entry
+    // The flatten brush keeps the height where its stroke started
+    const strokeRef = useRef<{ active: boolean; started: boolean; flattenHeight?: number }>({ active: false, started: false });
+
+    // Voxels of hidden layers are neither shown nor edited
+    const visibleVoxels = useMemo(() => getVisibleVoxels(voxels, layers), [voxels, layers]);
+
+    // Highest visible voxel of every column, rebuilt whenever the scene changes
+    const columns = useMemo(() => buildColumnIndex(visibleVoxels), [visibleVoxels]);
+
+    // Falls back to the top layer when the current one no longer exists (e.g. after undo)
+    const currentLayer = layers.find((layer) => layer.id === currentLayerId) ?? layers[layers.length - 1];
+    const canPaintLayer = currentLayer.visible && !currentLayer.locked;
 
     /**
-     * Generate key for voxel position
+     * Check whether a voxel sits on a visible, unlocked layer
      */
-    const getKey = useCallback((x: number, y: number): string => {
-        return `${x},${y}`;
-    }, []);
+    const isEditable = useCallback(
+        (voxel: Voxel): boolean => {
+            const layer = layers.find(({ id }) => id === getVoxelLayerId(voxel, layers));
+            return layer !== undefined && layer.visible && !layer.locked;
+        },
+        [layers]
+    );
+
+    const historyNode = history.nodes.get(history.current) as HistoryNode;
+
+    const symmetryCenter = useMemo(() => getSymmetryCenter(symmetryAxis, gridSize), [symmetryAxis, gridSize]);
 
     /**
-     * Save current state to history
+     * Record the difference between the current state and a new one as an undoable edit.
+     * Only changed voxels are kept, so memory grows with the size of the edits rather than the scene.
      */
-    const saveToHistory = useCallback((newVoxels: Map<string, Voxel>) => {
-        const newHistory = history.slice(0, historyIndex + 1);
-        newHistory.push({
-            voxels: new Map(newVoxels),
-            timestamp: Date.now(),
+    const saveToHistory = useCallback((
+        newVoxels: Map<string, Voxel>,
+        newGridSize: number = gridSize,
+        newLayers: VoxelLayer[] = layers
+    ) => {
+        const entry: HistoryEntry = { voxels: diffVoxels(voxels, newVoxels), timestamp: Date.now() };
+        if (newLayers !== layers) {
+            entry.layers = [layers, newLayers];
+        }
+        if (newGridSize !== gridSize) {
+            entry.gridSize = [gridSize, newGridSize];
+        }
+        if (isEmptyHistoryEntry(entry)) {
+            return;
+        }
+
+        const merge = strokeRef.current.started;
+        strokeRef.current.started = strokeRef.current.active;
+
+        setHistory((prev) => {
+            if (merge) {
+                thumbnailsRef.current.delete(prev.current);
+            }
+            return addHistoryEntry(prev, entry, merge, MAX_HISTORY);
         });
+    }, [voxels, gridSize, layers]);
 
-        // Limit history size
-        if (newHistory.length > MAX_HISTORY) {
-            newHistory.shift();
-        } else {
-            setHistoryIndex((prev) => prev + 1);
-        }
+    /**
+     * Start grouping edits into a single undo step, e.g. for a brush drag
+     */
+    const beginStroke = useCallback(() => {
+        strokeRef.current = { active: true, started: false };
+    }, []);
 
-        setHistory(newHistory);
-    }, [history, historyIndex]);
+    /**
+     * Stop grouping edits; the next edit starts a new undo step
+     */
+    const endStroke = useCallback(() => {
+        strokeRef.current = { active: false, started: false };
+    }, []);
 
     /**
-     * Add or update voxel at position
+     * Add or remove blocks on many cells as a single undoable action.
+     * Adding places blocks on top of each column or from the active layer up;
+     * removing takes the top block of each column or the block at the active layer.
+     * Cells are repeated according to the symmetry mode. New blocks go to the current layer;
+     * blocks on hidden or locked layers are left untouched.
      */
-    const addVoxel = useCallback(
-        (x: number, y: number) => {
-            const key = getKey(x, y);
+    const paintCells = useCallback(
+        (cells: GridPosition[], mode: PaintMode) => {
+            if (mode === 'add' && !canPaintLayer) {
+                return;
+            }
+
             const newVoxels = new Map(voxels);
+            let changed = false;
 
-            const existingVoxel = newVoxels.get(key);
-            if (existingVoxel && existingVoxel.color === selectedColor) {
-                // Same color, just update height
-                newVoxels.set(key, {
-                    ...existingVoxel,
-                    height: blockHeight,
-                });
-            } else {
-                // New voxel or different color
-                newVoxels.set(key, {
-                    x,
-                    y,
-                    height: blockHeight,
-                    color: selectedColor,
-                });
-            }
+            getSymmetricCells(cells, symmetry, symmetryCenter).forEach(({ x, y }) => {
+                if (x < 0 || y < 0 || x >= gridSize || y >= gridSize) {
+                    return;
+                }
 
-            setVoxels(newVoxels);
-            saveToHistory(newVoxels);
+                const columnHeight = columns.get(getColumnKey(x, y))?.height ?? 0;
+
+                if (mode === 'remove') {
+                    const key = getVoxelKey(x, y, placementMode === 'stack' ? columnHeight - 1 : activeLayer);
+                    const existing = newVoxels.get(key);
+                    if (existing && isEditable(existing)) {
+                        newVoxels.delete(key);
+                        changed = true;
+                    }
+                    return;
+                }
+
+                const baseZ = placementMode === 'stack' ? columnHeight : activeLayer;
+                const topZ = Math.min(baseZ + blockHeight, MAX_LAYERS);
+
+                for (let z = baseZ; z < topZ; z++) {
+                    const key = getVoxelKey(x, y, z);
+                    const existing = newVoxels.get(key);
+                    if (existing && !isEditable(existing)) {
+                        continue;
+                    }
+                    if (existing?.color !== selectedColor || existing.layer !== currentLayer.id) {
+                        newVoxels.set(key, { x, y, z, color: selectedColor, layer: currentLayer.id });
+                        changed = true;
+                    }
+                }
+            });
+
+            if (changed) {
+                setVoxels(newVoxels);
+                setSelection(null);
+                saveToHistory(newVoxels);
+            }
         },
-        [voxels, selectedColor, blockHeight, getKey, saveToHistory]
+        [
+            voxels,
+            columns,
+            gridSize,
+            selectedColor,
+            blockHeight,
+            activeLayer,
+            placementMode,
+            symmetry,
+            symmetryCenter,
+            currentLayer.id,
+            canPaintLayer,
+            isEditable,
+            saveToHistory,
+        ]
     );
 
     /**
-     * Remove voxel at position
+     * Add blocks at position, either on top of the column or at the active layer
+     */
+    const addVoxel = useCallback((x: number, y: number) => paintCells([{ x, y }], 'add'), [paintCells]);
+
+    /**
+     * Remove the top block of the column, or the block at the active layer
      */
-    const removeVoxel = useCallback(
-        (x: number, y: number) => {
-            const key = getKey(x, y);
+    const removeVoxel = useCallback((x: number, y: number) => paintCells([{ x, y }], 'remove'), [paintCells]);
+
+    /**
+     * Apply the active sculpt brush around a cell, keeping column colors.
+     * The brush strength is the block height; removing swaps raise and lower.
+     */
+    const sculptCells = useCallback(
+        (center: GridPosition, mode: PaintMode) => {
+            if (!isSculptTool(tool)) {
+                return;
+            }
+
+            let sculptTool = tool;
+            if (mode === 'remove' && tool === 'raise') {
+                sculptTool = 'lower';
+            } else if (mode === 'remove' && tool === 'lower') {
+                sculptTool = 'raise';
+            }
+
+            const getHeight = (x: number, y: number): number => columns.get(getColumnKey(x, y))?.height ?? 0;
+            const flattenHeight = strokeRef.current.flattenHeight ?? getHeight(center.x, center.y);
+            if (strokeRef.current.active) {
+                strokeRef.current.flattenHeight = flattenHeight;
+            }
+
+            const cells = getBrushCells(getSymmetricCells([center], symmetry, symmetryCenter), sculptRadius, sculptFalloff, gridSize);
+            const targets = getSculptHeights(cells, sculptTool, {
+                strength: blockHeight,
+                maxHeight,
+                flattenHeight,
+                gridSize,
+                getHeight,
+            });
+
             const newVoxels = new Map(voxels);
+            const emptyFill = canPaintLayer ? { color: selectedColor, layer: currentLayer.id } : null;
+            let changed = false;
+            targets.forEach(({ x, y, height }) => {
+                if (resizeColumn(newVoxels, { x, y }, getHeight(x, y), height, isEditable, emptyFill)) {
+                    changed = true;
+                }
+            });
 
-            if (newVoxels.has(key)) {
-                newVoxels.delete(key);
+            if (changed) {
                 setVoxels(newVoxels);
+                setSelection(null);
                 saveToHistory(newVoxels);
             }
         },
-        [voxels, getKey, saveToHistory]
+        [
+            tool,
+            voxels,
+            columns,
+            gridSize,
+            selectedColor,
+            blockHeight,
+            maxHeight,
+            sculptRadius,
+            sculptFalloff,
+            symmetry,
+            symmetryCenter,
+            currentLayer.id,
+            canPaintLayer,
+            isEditable,
+            saveToHistory,
+        ]
+    );
+
+    /**
+     * Change the tallest height the slider and sculpt brushes reach, shortening the block height to fit
+     */
+    const setMaxHeight = useCallback((height: number) => {
+        const clamped = Math.round(Math.max(1, Math.min(MAX_LAYERS, height)));
+        setMaxHeightValue(clamped);
+        setBlockHeight((prev) => Math.min(prev, clamped));
+    }, []);
+
+    /**
+     * Paint the contiguous region around a cell that looks the same from above:
+     * equal column height and top color in stack mode, equal block at the active layer in layer mode
+     */
+    const fillRegion = useCallback(
+        (x: number, y: number, mode: PaintMode) => {
+            const getSignature = (cx: number, cy: number): string => {
+                if (placementMode === 'layer') {
+                    return visibleVoxels.get(getVoxelKey(cx, cy, activeLayer))?.color ?? '';
+                }
+                const column = columns.get(getColumnKey(cx, cy));
+                return column ? `${column.height}|${column.top.color}` : '';
+            };
+
+            paintCells(getFloodFillCells({ x, y }, gridSize, getSignature), mode);
+        },
+        [visibleVoxels, columns, gridSize, activeLayer, placementMode, paintCells]
+    );
+
+    /**
+     * Write imported blocks into the current layer as one undoable action.
+     * Editable blocks in the columns they cover are replaced; hidden or locked blocks stay.
+     * @param imported - Blocks inside the grid
+     * @returns False when the current layer can't be painted
+     */
+    const importVoxels = useCallback(
+        (imported: Map<string, Voxel>): boolean => {
+            if (!canPaintLayer) {
+                return false;
+            }
+
+            const covered = new Set<string>();
+            imported.forEach((voxel) => covered.add(getColumnKey(voxel.x, voxel.y)));
+
+            const newVoxels = new Map(voxels);
+            voxels.forEach((voxel, key) => {
+                if (covered.has(getColumnKey(voxel.x, voxel.y)) && isEditable(voxel)) {
+                    newVoxels.delete(key);
+                }
+            });
+            imported.forEach((voxel, key) => {
+                if (!newVoxels.has(key)) {
+                    newVoxels.set(key, { ...voxel, layer: currentLayer.id });
+                }
+            });
+
+            setVoxels(newVoxels);
+            setSelection(null);
+            saveToHistory(newVoxels);
+            return true;
+        },
+        [voxels, canPaintLayer, currentLayer.id, isEditable, saveToHistory]
     );
 
     /**
-     * Clear all voxels
+     * Clear all voxels; blocks on hidden or locked layers stay
      */
     const clearGrid = useCallback(() => {
         const newVoxels = new Map<string, Voxel>();
+        voxels.forEach((voxel, key) => {
+            if (!isEditable(voxel)) {
+                newVoxels.set(key, voxel);
+            }
+        });
         setVoxels(newVoxels);
+        setSelection(null);
         saveToHistory(newVoxels);
-    }, [saveToHistory]);
+    }, [voxels, isEditable, saveToHistory]);
+
+    /**
+     * Change the number of cells per side, dropping voxels that fall outside.
+     * The grid can't shrink past blocks on hidden or locked layers.
+     * @returns Whether the grid was resized
+     */
+    const resizeGrid = useCallback(
+        (size: number) => {
+            const newSize = Math.round(Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, size)));
+            if (newSize === gridSize) {
+                return false;
+            }
+
+            const newVoxels = new Map<string, Voxel>();
+            let protectedOutside = false;
+            voxels.forEach((voxel, key) => {
+                if (voxel.x < newSize && voxel.y < newSize) {
+                    newVoxels.set(key, voxel);
+                } else if (!isEditable(voxel)) {
+                    protectedOutside = true;
+                }
+            });
+            if (protectedOutside) {
+                return false;
+            }
+
+            setVoxels(newVoxels);
+            setGridSize(newSize);
+            setSelection(null);
+            setSymmetryAxis((axis) => (axis && axis.x < newSize && axis.y < newSize ? axis : null));
+            saveToHistory(newVoxels, newSize);
+            return true;
+        },
+        [voxels, gridSize, isEditable, saveToHistory]
+    );
+
+    /**
+     * Put voxels down as the new selection, lifting the current selection off the scene first.
+     * Scene voxels the new selection covers are kept aside and come back when it moves on.
+     */
+    const placeSelection = useCallback(
+        (rect: GridRect, placed: Voxel[], lifted: VoxelSelection | null) => {
+            const newVoxels = new Map(voxels);
+            lifted?.voxels.forEach((voxel) => newVoxels.delete(getVoxelKey(voxel.x, voxel.y, voxel.z)));
+            lifted?.underlay.forEach((voxel) => newVoxels.set(getVoxelKey(voxel.x, voxel.y, voxel.z), voxel));
+
+            // Blocks landing outside the grid or on hidden or locked blocks are dropped
+            const kept: Voxel[] = [];
+            const underlay: Voxel[] = [];
+            placed.forEach((voxel) => {
+                if (voxel.x < 0 || voxel.y < 0 || voxel.x >= gridSize || voxel.y >= gridSize || voxel.z >= MAX_LAYERS) {
+                    return;
+                }
+
+                const key = getVoxelKey(voxel.x, voxel.y, voxel.z);
+                const covered = newVoxels.get(key);
+                if (covered && !isEditable(covered)) {
+                    return;
+                }
+                if (covered) {
+                    underlay.push(covered);
+                }
+                kept.push(voxel);
+                newVoxels.set(key, voxel);
+            });
+
+            setVoxels(newVoxels);
+            setSelection({ ...rect, voxels: kept, underlay });
+            saveToHistory(newVoxels);
+        },
+        [voxels, gridSize, isEditable, saveToHistory]
+    );
+
+    /**
+     * Select the editable blocks in the columns inside a rectangle, or clear the selection
+     */
+    const selectRegion = useCallback(
+        (rect: GridRect | null) => {
+            const clipped = rect && clipRectToGrid(rect, gridSize);
+            setSelection(clipped
+                ? { ...clipped, voxels: getVoxelsInRect(voxels, clipped).filter(isEditable), underlay: [] }
+                : null);
+        },
+        [voxels, gridSize, isEditable]
+    );
+
+    /**
+     * Move the selection by a number of cells, stopping at the grid edges
+     */
+    const moveSelection = useCallback(
+        (dx: number, dy: number) => {
+            if (!selection) return;
+
+            const rect = fitRectToGrid({ ...selection, x: selection.x + dx, y: selection.y + dy }, gridSize);
+            const shiftX = rect.x - selection.x;
+            const shiftY = rect.y - selection.y;
+
+            if (shiftX !== 0 || shiftY !== 0) {
+                placeSelection(rect, translateVoxels(selection.voxels, shiftX, shiftY), selection);
+            }
+        },
+        [selection, gridSize, placeSelection]
+    );
+
+    /**
+     * Turn the selection a quarter turn as seen on the grid
+     */
+    const rotateSelection = useCallback(
+        (clockwise: boolean) => {
+            if (!selection) return;
+
+            const turned = rotateRegion(selection.voxels, selection, clockwise);
+            const rect = fitRectToGrid(turned.rect, gridSize);
+            placeSelection(rect, translateVoxels(turned.voxels, rect.x - turned.rect.x, rect.y - turned.rect.y), selection);
+        },
+        [selection, gridSize, placeSelection]
+    );
+
+    /**
+     * Flip the selection in place
+     */
+    const mirrorSelection = useCallback(
+        (axis: MirrorAxis) => {
+            if (!selection) return;
+            placeSelection(selection, mirrorRegion(selection.voxels, selection, axis), selection);
+        },
+        [selection, placeSelection]
+    );
+
+    /**
+     * Remove the selected voxels from the scene
+     */
+    const deleteSelection = useCallback(() => {
+        if (!selection) return;
+
+        const newVoxels = new Map(voxels);
+        selection.voxels.forEach((voxel) => newVoxels.delete(getVoxelKey(voxel.x, voxel.y, voxel.z)));
+        selection.underlay.forEach((voxel) => newVoxels.set(getVoxelKey(voxel.x, voxel.y, voxel.z), voxel));
+
+        setVoxels(newVoxels);
+        setSelection(null);
+        saveToHistory(newVoxels);
+    }, [voxels, selection, saveToHistory]);
+
+    /**
+     * Copy the selected voxels to the clipboard
+     */
+    const copySelection = useCallback(() => {
+        if (!selection) return;
+
+        const { x, y, width, height } = selection;
+        const copied = selection.voxels.map((voxel) => ({ x: voxel.x - x, y: voxel.y - y, z: voxel.z, color: voxel.color }));
+        setClipboard({ x, y, width, height, voxels: copied });
+    }, [selection]);
+
+    /**
+     * Copy the selected voxels to the clipboard and remove them from the scene
+     */
+    const cutSelection = useCallback(() => {
+        copySelection();
+        deleteSelection();
+    }, [copySelection, deleteSelection]);
+
+    /**
+     * Paste the clipboard into the current layer, over the current selection or where it was copied from.
+     * The pasted voxels become the selection so they can be dragged into place.
+     */
+    const pasteClipboard = useCallback(() => {
+        if (!clipboard || !canPaintLayer) return;
+
+        const rect = fitRectToGrid({
+            x: selection?.x ?? clipboard.x,
+            y: selection?.y ?? clipboard.y,
+            width: Math.min(clipboard.width, gridSize),
+            height: Math.min(clipboard.height, gridSize),
+        }, gridSize);
+        const pasted = translateVoxels(clipboard.voxels, rect.x, rect.y).map((voxel) => ({ ...voxel, layer: currentLayer.id }));
+        placeSelection(rect, pasted, null);
+    }, [clipboard, selection, gridSize, canPaintLayer, currentLayer.id, placeSelection]);
+
+    /**
+     * Replace the layer list (and optionally the voxels) as one undoable action
+     */
+    const commitLayers = useCallback(
+        (newLayers: VoxelLayer[], newVoxels: Map<string, Voxel> = voxels) => {
+            setLayers(newLayers);
+            setVoxels(newVoxels);
+            setSelection(null);
+            saveToHistory(newVoxels, gridSize, newLayers);
+        },
+        [voxels, gridSize, saveToHistory]
+    );
+
+    /**
+     * Add an empty layer above the current one and make it current
+     */
+    const addLayer = useCallback(() => {
+        const id = createLayerId(layers);
+        const newLayers = [...layers];
+        newLayers.splice(layers.indexOf(currentLayer) + 1, 0, createLayer(id, `Layer ${id.replace('layer-', '')}`));
+        setCurrentLayerId(id);
+        commitLayers(newLayers);
+    }, [layers, currentLayer, commitLayers]);
+
+    /**
+     * Rename a layer; blank names are ignored
+     */
+    const renameLayer = useCallback(
+        (id: string, name: string) => {
+            const trimmed = name.trim();
+            if (!trimmed) return;
+            commitLayers(layers.map((layer) => (layer.id === id ? { ...layer, name: trimmed } : layer)));
+        },
+        [layers, commitLayers]
+    );
+
+    /**
+     * Move a layer up (positive) or down (negative) in the stack
+     */
+    const moveLayer = useCallback(
+        (id: string, offset: number) => {
+            const from = layers.findIndex((layer) => layer.id === id);
+            const to = Math.max(0, Math.min(layers.length - 1, from + offset));
+            if (from < 0 || from === to) return;
+
+            const newLayers = [...layers];
+            const [moved] = newLayers.splice(from, 1);
+            newLayers.splice(to, 0, moved);
+            commitLayers(newLayers);
+        },
+        [layers, commitLayers]
+    );
+
+    /**
+     * Show or hide a layer; not recorded in the history
+     */
+    const setLayerVisible = useCallback((id: string, visible: boolean) => {
+        setLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, visible } : layer)));
+        setSelection(null);
+    }, []);
+
+    /**
+     * Lock or unlock a layer against edits; not recorded in the history
+     */
+    const setLayerLocked = useCallback((id: string, locked: boolean) => {
+        setLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, locked } : layer)));
+        setSelection(null);
+    }, []);
+
+    /**
+     * Move every block of a layer into the layer below it and remove the layer.
+     * Locked layers can't be merged, either way.
+     */
+    const mergeLayerDown = useCallback(
+        (id: string) => {
+            const index = layers.findIndex((layer) => layer.id === id);
+            if (index < 1) return;
+
+            const below = layers[index - 1];
+            if (layers[index].locked || below.locked) return;
+            const newVoxels = new Map<string, Voxel>();
+            voxels.forEach((voxel, key) => {
+                newVoxels.set(key, getVoxelLayerId(voxel, layers) === id ? { ...voxel, layer: below.id } : voxel);
+            });
+
+            setCurrentLayerId(below.id);
+            commitLayers(layers.filter((layer) => layer.id !== id), newVoxels);
+        },
+        [voxels, layers, commitLayers]
+    );
+
+    /**
+     * Remove a layer and its blocks; locked layers and the last remaining layer cannot be deleted
+     */
+    const deleteLayer = useCallback(
+        (id: string) => {
+            const index = layers.findIndex((layer) => layer.id === id);
+            if (index < 0 || layers.length < 2 || layers[index].locked) return;
+
+            const newVoxels = new Map<string, Voxel>();
+            voxels.forEach((voxel, key) => {
+                if (getVoxelLayerId(voxel, layers) !== id) {
+                    newVoxels.set(key, voxel);
+                }
+            });
+
+            const newLayers = layers.filter((layer) => layer.id !== id);
+            setCurrentLayerId(newLayers[Math.max(0, index - 1)].id);
+            commitLayers(newLayers, newVoxels);
+        },
+        [voxels, layers, commitLayers]
+    );
+
+    /**
+     * Replace the whole scene with a loaded project and start a fresh history
+     */
+    const loadProject = useCallback((project: ProjectData) => {
+        setVoxels(project.voxels);
+        setLighting(project.lighting);
+        setPalette(project.palette);
+        setSelectedColor(project.selectedColor);
+        setGridSize(project.gridSize);
+        setSymmetryAxis((axis) => (axis && axis.x < project.gridSize && axis.y < project.gridSize ? axis : null));
+        setLayers(project.layers);
+        setCurrentLayerId(project.layers[project.layers.length - 1].id);
+        setCheckpoints(project.checkpoints);
+        setFrames(project.frames);
+        setCurrentFrameId(null);
+        setExportSettings(project.exportSettings);
+        setSelection(null);
+        setHistory(createHistoryTree());
+        thumbnailsRef.current = new Map();
+    }, []);
+
+    /**
+     * Turn the camera by quarter turns (positive is clockwise)
+     */
+    const rotateView = useCallback((quarterTurns: number) => {
+        setViewRotation((prev) => (((prev + quarterTurns) % 4) + 4) % 4);
+    }, []);
+
+    /**
+     * Move to any point of the undo tree; layers keep their current visibility and lock state
+     * @param target - History node id
+     */
+    const jumpToHistory = useCallback(
+        (target: number) => {
+            if (target === history.current || !history.nodes.has(target)) {
+                return;
+            }
+
+            const restored = applyHistorySteps({ voxels, layers, gridSize }, getHistoryPath(history, target));
+            setVoxels(restored.voxels);
+            setGridSize(restored.gridSize);
+            if (restored.layers !== layers) {
+                setLayers(restored.layers.map((layer) => {
+                    const current = layers.find(({ id }) => id === layer.id);
+                    return current ? { ...layer, visible: current.visible, locked: current.locked } : layer;
+                }));
+            }
+            setSelection(null);
+            setHistory(moveHistory(history, target));
+        },
+        [history, voxels, layers, gridSize]
+    );
 
     /**
      * Undo last action
      */
     const undo = useCallback(() => {
-        if (historyIndex > 0) {
-            const newIndex = historyIndex - 1;
-            setHistoryIndex(newIndex);
-            setVoxels(new Map(history[newIndex].voxels));
+        if (historyNode.parent !== null) {
+            jumpToHistory(historyNode.parent);
         }
-    }, [history, historyIndex]);
+    }, [historyNode, jumpToHistory]);
 
     /**
-     * Redo last undone action
+     * Redo the last undone action on the most recently visited branch
      */
     const redo = useCallback(() => {
-        if (historyIndex < history.length - 1) {
-            const newIndex = historyIndex + 1;
-            setHistoryIndex(newIndex);
-            setVoxels(new Map(history[newIndex].voxels));
+        if (historyNode.redoChild !== null) {
+            jumpToHistory(historyNode.redoChild);
         }
-    }, [history, historyIndex]);
+    }, [historyNode, jumpToHistory]);
+
+    /**
+     * Top-down thumbnail of the scene at a history node, cached per node
+     * @param id - History node id
+     * @returns SVG string
+     */
+    const getHistoryThumbnail = useCallback(
+        (id: number): string => {
+            const cached = thumbnailsRef.current.get(id);
+            if (cached !== undefined) {
+                return cached;
+            }
+
+            const thumbnail = generateTopDownSVG(applyHistorySteps({ voxels, layers, gridSize }, getHistoryPath(history, id)));
+            thumbnailsRef.current.set(id, thumbnail);
+            return thumbnail;
+        },
+        [history, voxels, layers, gridSize]
+    );
+
+    /**
+     * Save the current scene as a named checkpoint; checkpoints are stored with the project
+     */
+    const addCheckpoint = useCallback(
+        (name: string) => {
+            const checkpoint: ProjectCheckpoint = {
+                id: createProjectId(),
+                name: name.trim() || `Checkpoint ${checkpoints.length + 1}`,
+                createdAt: Date.now(),
+                gridSize,
+                layers,
+                voxels,
+            };
+            setCheckpoints([...checkpoints, checkpoint]);
+        },
+        [checkpoints, gridSize, layers, voxels]
+    );
+
+    /**
+     * Replace the scene with a saved one as one undoable action
+     */
+    const restoreScene = useCallback(
+        (scene: SceneSnapshot) => {
+            setVoxels(scene.voxels);
+            setGridSize(scene.gridSize);
+            setLayers(scene.layers);
+            setCurrentLayerId(scene.layers[scene.layers.length - 1].id);
+            setSelection(null);
+            setSymmetryAxis((axis) => (axis && axis.x < scene.gridSize && axis.y < scene.gridSize ? axis : null));
+            saveToHistory(scene.voxels, scene.gridSize, scene.layers);
+        },
+        [saveToHistory]
+    );
+
+    /**
+     * Bring back the scene of a checkpoint as one undoable action
+     */
+    const restoreCheckpoint = useCallback(
+        (id: string) => {
+            const checkpoint = checkpoints.find((entry) => entry.id === id);
+            if (checkpoint) {
+                restoreScene(checkpoint);
+            }
+        },
+        [checkpoints, restoreScene]
+    );
+
+    /**
+     * Remove a checkpoint; the scene is not affected
+     */
+    const deleteCheckpoint = useCallback((id: string) => {
+        setCheckpoints((prev) => prev.filter((checkpoint) => checkpoint.id !== id));
+    }, []);
+
+    /**
+     * Save the current scene as a new frame after the current one and make it current
+     */
+    const addFrame = useCallback(() => {
+        const index = frames.findIndex((frame) => frame.id === currentFrameId);
+        const frame: ProjectFrame = {
+            id: createProjectId(),
+            duration: index === -1 ? DEFAULT_FRAME_DURATION : frames[index].duration,
+            gridSize,
+            layers,
+            voxels,
+        };
+        const newFrames = [...frames];
+        newFrames.splice(index === -1 ? frames.length : index + 1, 0, frame);
+        setFrames(newFrames);
+        setCurrentFrameId(frame.id);
+    }, [frames, currentFrameId, gridSize, layers, voxels]);
+
+    /**
+     * Overwrite a frame with the current scene
+     */
+    const updateFrame = useCallback(
+        (id: string) => {
+            setFrames((prev) => prev.map((frame) => (frame.id === id ? { ...frame, gridSize, layers, voxels } : frame)));
+            setCurrentFrameId(id);
+        },
+        [gridSize, layers, voxels]
+    );
+
+    /**
+     * Load the scene of a frame for editing as one undoable action
+     */
+    const showFrame = useCallback(
+        (id: string) => {
+            const frame = frames.find((entry) => entry.id === id);
+            if (frame) {
+                restoreScene(frame);
+                setCurrentFrameId(id);
+            }
+        },
+        [frames, restoreScene]
+    );
+
+    /**
+     * Remove a frame; the scene is not affected
+     */
+    const deleteFrame = useCallback((id: string) => {
+        setFrames((prev) => prev.filter((frame) => frame.id !== id));
+        setCurrentFrameId((current) => (current === id ? null : current));
+    }, []);
+
+    /**
+     * Move a frame earlier (negative) or later (positive) in the timeline
+     */
+    const moveFrame = useCallback((id: string, delta: number) => {
+        setFrames((prev) => {
+            const index = prev.findIndex((frame) => frame.id === id);
+            const target = index + delta;
+            if (index === -1 || target < 0 || target >= prev.length) {
+                return prev;
+            }
+            const newFrames = [...prev];
+            const [frame] = newFrames.splice(index, 1);
+            newFrames.splice(target, 0, frame);
+            return newFrames;
+        });
+    }, []);
+
+    /**
+     * Set how long a frame is shown, in milliseconds
+     */
+    const setFrameDuration = useCallback((id: string, duration: number) => {
+        const clamped = Math.round(Math.max(MIN_FRAME_DURATION, Math.min(MAX_FRAME_DURATION, duration)));
+        setFrames((prev) => prev.map((frame) => (frame.id === id ? { ...frame, duration: clamped } : frame)));
+    }, []);
 
     /**
      * Check if voxel exists at position
+     * @param z - Level to check; checks the whole column when omitted
      */
     const hasVoxel = useCallback(
-        (x: number, y: number): boolean => {
-            return voxels.has(getKey(x, y));
+        (x: number, y: number, z?: number): boolean => {
+            return z === undefined ? columns.has(getColumnKey(x, y)) : visibleVoxels.has(getVoxelKey(x, y, z));
         },
-        [voxels, getKey]
+        [visibleVoxels, columns]
     );
 
     /**
      * Get voxel at position
+     * @param z - Level to read; returns the top of the column when omitted
      */
     const getVoxel = useCallback(
-        (x: number, y: number): Voxel | undefined => {
-            return voxels.get(getKey(x, y));
+        (x: number, y: number, z?: number): Voxel | undefined => {
+            return z === undefined ? columns.get(getColumnKey(x, y))?.top : visibleVoxels.get(getVoxelKey(x, y, z));
+        },
+        [visibleVoxels, columns]
+    );
+
+    /**
+     * Get number of levels occupied by the column at position
+     */
+    const getColumnHeight = useCallback(
+        (x: number, y: number): number => {
+            return columns.get(getColumnKey(x, y))?.height ?? 0;
         },
-        [voxels, getKey]
+        [columns]
     );
 
     return {
         voxels,
         selectedColor,
         blockHeight,
-        lightingAngle,
+        maxHeight,
+        sculptRadius,
+        sculptFalloff,
+        lighting,
+        viewRotation,
+        voxelOutlines,
+        activeLayer,
+        placementMode,
+        tool,
+        selection,
+        symmetry,
+        symmetryAxis,
+        layers,
+        currentLayerId: currentLayer.id,
+        palette,
+        gridSize,
+        exportSettings,
         setSelectedColor,
         setBlockHeight,
-        setLightingAngle,
+        setMaxHeight,
+        setSculptRadius,
+        setSculptFalloff,
+        setLighting,
+        rotateView,
+        setVoxelOutlines,
+        setActiveLayer,
+        setPlacementMode,
+        setTool,
+        setSymmetry,
+        setSymmetryAxis,
+        setCurrentLayerId,
+        setExportSettings,
+        addLayer,
+        renameLayer,
+        moveLayer,
+        setLayerVisible,
+        setLayerLocked,
+        mergeLayerDown,
+        deleteLayer,
         addVoxel,
         removeVoxel,
+        paintCells,
+        sculptCells,
+        fillRegion,
+        importVoxels,
+        selectRegion,
+        moveSelection,
+        rotateSelection,
+        mirrorSelection,
+        deleteSelection,
+        copySelection,
+        cutSelection,
+        pasteClipboard,
         clearGrid,
+        resizeGrid,
+        loadProject,
+        beginStroke,
+        endStroke,
         undo,
         redo,
+        jumpToHistory,
+        getHistoryThumbnail,
+        addCheckpoint,
+        restoreCheckpoint,
+        deleteCheckpoint,
+        addFrame,
+        updateFrame,
+        showFrame,
+        deleteFrame,
+        moveFrame,
+        setFrameDuration,
         hasVoxel,
         getVoxel,
-        canUndo: historyIndex > 0,
-        canRedo: historyIndex < history.length - 1,
+        getColumnHeight,
+        history,
+        checkpoints,
+        frames,
+        currentFrameId,
+        canUndo: historyNode.parent !== null,
+        canRedo: historyNode.redoChild !== null,
+        canPaste: clipboard !== null,
     };
 };
@@ -0,0 +1,148 @@
+/**
+ * Isometric voxel renderer: turns plain voxel arrays into SVG or paint-ordered faces,
+ * independent of the editor and of any UI framework.
+ */
+import type { RenderOptions, RenderProjection, RenderedScene } from '../types/renderer';
+import type { Lighting, Projection, SceneOptions, Voxel } from '../types/voxel';
+import { DEFAULT_PROJECTION, DEFAULT_SCENE_PADDING, generateSceneSVG, projectScene } from '../utils/isometric';
+import { DEFAULT_LIGHTING, MAX_LIGHT_ELEVATION, MIN_LIGHT_ELEVATION } from '../utils/lighting';
+import { getVoxelKey } from '../utils/voxels';
+
+export type {
+    IsometricCoords,
+    Lighting,
+    OcclusionQuad,
+    ProjectedFace,
+    RenderOptions,
+    RenderProjection,
+    RenderViewBox,
+    RenderedScene,
+} from '../types/renderer';
+export type { SceneSortMode, Voxel, VoxelLayer } from '../types/voxel';
+
+// Empty scenes get the same box as the editor's empty preview
+const EMPTY_VIEW_BOX = { x: 0, y: 0, width: 400, height: 400 };
+
+/**
+ * Ground axis angles of the named projections, in degrees
+ */
+const PROJECTION_ANGLES: Record<Exclude<RenderProjection, number>, number> = {
+    isometric: DEFAULT_PROJECTION.angle,
+    dimetric: (Math.atan(0.5) * 180) / Math.PI,
+};
+
+/**
+ * Resolve the projection and scale options
+ * @throws RangeError for angles outside 0-90 degrees and scales that aren't positive
+ */
+const toProjection = (projection: RenderProjection = 'isometric', scale: number = DEFAULT_PROJECTION.scale): Projection => {
+    const angle = typeof projection === 'number' ? projection : PROJECTION_ANGLES[projection];
+    if (!(angle > 0 && angle < 90)) {
+        throw new RangeError(`Projection angle must be between 0 and 90 degrees, got ${projection}`);
+    }
+    if (!(scale > 0) || !Number.isFinite(scale)) {
+        throw new RangeError(`Scale must be a positive number, got ${scale}`);
+    }
+    return { angle, scale };
+};
+
+/**
+ * Fill in the light option
+ * @throws RangeError for elevations outside 0-90 degrees and ambient shares outside 0-1
+ * @throws TypeError for light colors that aren't #RRGGBB and shadow or occlusion switches that aren't booleans
+ */
+const toLighting = (lighting: Partial<Lighting> = {}): Lighting => {
+    const resolved = { ...DEFAULT_LIGHTING, ...lighting };
+    if (!(resolved.elevation >= MIN_LIGHT_ELEVATION && resolved.elevation <= MAX_LIGHT_ELEVATION)) {
+        throw new RangeError(`Light elevation must be between ${MIN_LIGHT_ELEVATION} and ${MAX_LIGHT_ELEVATION} degrees, got ${resolved.elevation}`);
+    }
+    if (!(resolved.ambient >= 0 && resolved.ambient <= 1)) {
+        throw new RangeError(`Ambient light must be between 0 and 1, got ${resolved.ambient}`);
+    }
+    if (!/^#[0-9a-f]{6}$/i.test(resolved.color)) {
+        throw new TypeError(`Light color must be a #RRGGBB hex color, got ${resolved.color}`);
+    }
+    if (typeof resolved.shadows !== 'boolean' || typeof resolved.ambientOcclusion !== 'boolean') {
+        throw new TypeError(`Light shadows and ambientOcclusion must be booleans, got ${resolved.shadows} and ${resolved.ambientOcclusion}`);
+    }
+    return resolved;
+};
+
+/**
+ * Index voxels by position; when several share a position the last one wins
+ * @throws TypeError for voxels without integer coordinates
+ */
+const toVoxelMap = (voxels: readonly Voxel[]): Map<string, Voxel> => {
+    const map = new Map<string, Voxel>();
+    voxels.forEach((voxel) => {
+        if (!Number.isInteger(voxel.x) || !Number.isInteger(voxel.y) || !Number.isInteger(voxel.z)) {
+            throw new TypeError(`Voxel coordinates must be integers, got ${voxel.x},${voxel.y},${voxel.z}`);
+        }
+        map.set(getVoxelKey(voxel.x, voxel.y, voxel.z), voxel);
+    });
+    return map;
+};
+
+/**
+ * Turn library options into scene options
+ */
+const toSceneOptions = (options: RenderOptions): SceneOptions => ({
+    projection: toProjection(options.projection, options.scale),
+    sort: options.sort,
+    outline: options.outline,
+    padding: options.padding,
+    voxelOutlines: options.mergeFaces === false,
+    layers: options.layers,
+});
+
+/**
+ * Render voxels to a standalone SVG document.
+ * Only the faces that can be seen are drawn, shaded by the light and painted back to front.
+ * @param voxels - Unit cubes at integer positions, z up; later voxels replace earlier ones at the same position
+ * @param options - Projection, lighting, outline, padding and paint order
+ * @returns SVG string
+ * @throws RangeError for invalid projection angles, scales, light elevations or ambient shares
+ * @throws TypeError for voxels without integer coordinates, invalid light colors or non-boolean light switches
+ */
+export const renderScene = (voxels: readonly Voxel[], options: RenderOptions = {}): string => {
+    return generateSceneSVG(
+        toVoxelMap(voxels),
+        toLighting(options.lighting),
+        options.rotation ?? 0,
+        toSceneOptions(options)
+    );
+};
+
+/**
+ * Render voxels to their visible faces in paint order, for canvas, WebGL or other targets.
+ * Drawing the ground shadow, then each face's polygon, shadow and occlusion in order over the
+ * view box gives the same picture as renderScene.
+ * @param voxels - Unit cubes at integer positions, z up; later voxels replace earlier ones at the same position
+ * @param options - Projection, lighting, padding and paint order; the outline is left to the caller
+ * @returns Faces, ground shadow and the view box around them
+ * @throws RangeError for invalid projection angles, scales, light elevations or ambient shares
+ * @throws TypeError for voxels without integer coordinates, invalid light colors or non-boolean light switches
+ */
+export const renderSceneFaces = (voxels: readonly Voxel[], options: RenderOptions = {}): RenderedScene => {
+    const { faces, groundShadow, bounds } = projectScene(
+        toVoxelMap(voxels).values(),
+        toLighting(options.lighting),
+        options.rotation ?? 0,
+        toSceneOptions(options)
+    );
+    if (!bounds) {
+        return { faces, groundShadow, viewBox: { ...EMPTY_VIEW_BOX } };
+    }
+
+    const padding = options.padding ?? DEFAULT_SCENE_PADDING;
+    return {
+        faces,
+        groundShadow,
+        viewBox: {
+            x: bounds.minX - padding,
+            y: bounds.minY - padding,
+            width: bounds.maxX - bounds.minX + padding * 2,
+            height: bounds.maxY - bounds.minY + padding * 2,
+        },
+    };
+};
@@ -0,0 +1,93 @@
+import type { ColorOption, ExportSettings, Lighting, SceneSnapshot, Voxel, VoxelLayer } from './voxel';
+
+/**
+ * Editable project state that is saved to and restored from project files
+ */
+export interface ProjectData {
+    voxels: Map<string, Voxel>;
+    /** Layers bottom to top */
+    layers: VoxelLayer[];
+    /** Direction, strength and color of the scene light */
+    lighting: Lighting;
+    palette: ColorOption[];
+    selectedColor: string;
+    gridSize: number;
+    /** Named snapshots, oldest first */
+    checkpoints: ProjectCheckpoint[];
+    /** Animation timeline in playback order */
+    frames: ProjectFrame[];
+    /** Size, padding, background and outlines of SVG, PNG and JPG exports */
+    exportSettings: ExportSettings;
+}
+
+/**
+ * Named snapshot of the scene that is saved with the project
+ */
+export interface ProjectCheckpoint extends SceneSnapshot {
+    id: string;
+    name: string;
+    createdAt: number;
+}
+
+/**
+ * Frame of the animation timeline: a saved scene shown for a set time
+ */
+export interface ProjectFrame extends SceneSnapshot {
+    id: string;
+    /** Display time in milliseconds */
+    duration: number;
+}
+
+/**
+ * Serialized checkpoint inside a project file
+ */
+export interface CheckpointFile {
+    id: string;
+    name: string;
+    createdAt: number;
+    gridSize: number;
+    layers: VoxelLayer[];
+    voxels: Voxel[];
+}
+
+/**
+ * Serialized animation frame inside a project file
+ */
+export interface FrameFile {
+    id: string;
+    duration: number;
+    gridSize: number;
+    layers: VoxelLayer[];
+    voxels: Voxel[];
+}
+
+/**
+ * Serialized `.voxel.json` document in the current format version
+ */
+export interface ProjectFile {
+    format: string;
+    version: number;
+    gridSize: number;
+    lighting: Lighting;
+    palette: ColorOption[];
+    selectedColor: string;
+    layers: VoxelLayer[];
+    voxels: Voxel[];
+    checkpoints: CheckpointFile[];
+    frames: FrameFile[];
+    exportSettings: ExportSettings;
+}
+
+/**
+ * Project saved in the local library
+ */
+export interface StoredProject {
+    id: string;
+    name: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Serialized `.voxel.json` document */
+    data: string;
+    /** SVG rendering of the scene for the project browser */
+    thumbnail: string;
+}
@@ -0,0 +1,54 @@
+import type { IsometricCoords, Lighting, OcclusionQuad, ProjectedFace, ProjectedScene, SceneSortMode, VoxelLayer } from './voxel';
+
+/**
+ * Named projection, or the angle of the ground axes in degrees
+ * - `isometric`: 30°, all three axes equally foreshortened
+ * - `dimetric`: about 26.57° (atan 1/2), two pixels across for every pixel up as in pixel art
+ */
+export type RenderProjection = 'isometric' | 'dimetric' | number;
+
+/**
+ * Options of the library's renderScene and renderSceneFaces; every field is optional
+ */
+export interface RenderOptions {
+    /** Drawing units per block edge; 20 when omitted */
+    scale?: number;
+    /** Camera tilt; isometric when omitted */
+    projection?: RenderProjection;
+    /** Scene light; omitted fields take the editor's defaults */
+    lighting?: Partial<Lighting>;
+    /** View rotation in quarter turns clockwise; the light stays fixed in the world */
+    rotation?: number;
+    /** Edge color and width of every face, or null for no edges; dark 0.5 wide edges when omitted */
+    outline?: { color: string; width: number } | null;
+    /** Space around the blocks in drawing units; 40 when omitted */
+    padding?: number;
+    /** Paint order of the faces; 'auto' when omitted */
+    sort?: SceneSortMode;
+    /** Merge touching coplanar faces of one color into single polygons; true when omitted */
+    mergeFaces?: boolean;
+    /** Layers bottom to top; voxels of hidden layers are left out and each layer gets its own `<g id>` */
+    layers?: VoxelLayer[];
+}
+
+/**
+ * Drawing area of a rendered scene in drawing units, padding included
+ */
+export interface RenderViewBox {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Faces of a rendered scene in paint order, for drawing with something other than SVG
+ */
+export interface RenderedScene {
+    faces: ProjectedFace[];
+    /** Black shadow on the ground, drawn before the faces; null when shadows are off or nothing casts one */
+    groundShadow: ProjectedScene['groundShadow'];
+    viewBox: RenderViewBox;
+}
+
+export type { IsometricCoords, Lighting, OcclusionQuad, ProjectedFace };
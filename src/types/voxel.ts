@@ -1,13 +1,104 @@
 /**
- * Represents a single voxel block in the grid
+ * Represents a single unit cube in the scene
  */
 export interface Voxel {
     x: number;
     y: number;
-    height: number;
+    z: number;
     color: string;
+    /** Id of the layer the voxel belongs to; the bottom layer when omitted */
+    layer?: string;
+}
+
+/**
+ * Named group of voxels that can be hidden or locked together
+ */
+export interface VoxelLayer {
+    id: string;
+    name: string;
+    visible: boolean;
+    locked: boolean;
+}
+
+/**
+ * Summary of a single grid column (all voxels sharing x and y)
+ */
+export interface VoxelColumn {
+    /** Number of levels up to and including the highest voxel */
+    height: number;
+    /** Highest voxel in the column */
+    top: Voxel;
+}
+
+/**
+ * How painting on the grid places voxels
+ * - stack: place blocks on top of the existing column
+ * - layer: place blocks starting at the active layer
+ */
+export type PlacementMode = 'stack' | 'layer';
+
+/**
+ * Whether a grid action places or removes blocks
+ */
+export type PaintMode = 'add' | 'remove';
+
+/**
+ * How an imported image becomes blocks
+ * - pixel-art: one flat block per pixel in the nearest palette color
+ * - heightmap: one column per pixel, taller where the pixel is brighter
+ */
+export type ImageImportMode = 'pixel-art' | 'heightmap';
+
+/**
+ * Options for turning image pixels into blocks
+ */
+export interface ImageImportOptions {
+    mode: ImageImportMode;
+    /** Colors the pixels are matched to */
+    palette: ColorOption[];
+    /** Heightmap: height of a white pixel */
+    maxHeight: number;
+    /** Heightmap: make dark pixels tall instead of bright ones */
+    invert: boolean;
+    /** Heightmap: color of every column, or null to use the nearest palette color of each pixel */
+    color: string | null;
 }
 
+/**
+ * Grid tools that draw a shape between the cell where a drag starts and the cell where it ends
+ */
+export type ShapeTool = 'line' | 'rectangle' | 'filled-rectangle' | 'ellipse' | 'filled-ellipse';
+
+/**
+ * Grid tools that change the height of existing columns around the pointer, keeping their colors
+ * - raise / lower: add or take away levels
+ * - smooth: pull each column toward the average of its neighbours
+ * - flatten: pull columns toward the height where the stroke started
+ */
+export type SculptTool = 'raise' | 'lower' | 'smooth' | 'flatten';
+
+/**
+ * How a sculpt brush's effect fades from its center to its edge
+ */
+export type SculptFalloff = 'constant' | 'linear' | 'smooth';
+
+/**
+ * Active grid tool
+ * - brush: paint every cell the pointer passes over
+ * - fill: paint the contiguous region of matching cells
+ * - select: mark a rectangular region, or drag the current selection
+ */
+export type GridTool = 'brush' | 'fill' | 'select' | ShapeTool | SculptTool;
+
+/**
+ * How painting is repeated around the symmetry axis
+ * - mirror-x: mirror left and right of a vertical axis
+ * - mirror-y: mirror above and below a horizontal axis
+ * - quad: mirror across both axes
+ * - radial: repeat in four quarter turns around the axis center
+ */
+export type SymmetryMode = 'none' | 'mirror-x' | 'mirror-y' | 'quad' | 'radial';
+
 /**
  * Grid position coordinates
  */
@@ -16,6 +107,38 @@ export interface GridPosition {
     y: number;
 }
 
+/**
+ * Axis-aligned rectangle of grid cells
+ */
+export interface GridRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Selected region of the scene, covering every level of the columns inside it
+ */
+export interface VoxelSelection extends GridRect {
+    /** Voxels that belong to the selection, in scene coordinates */
+    voxels: Voxel[];
+    /** Voxels covered by the selection, restored when it moves away */
+    underlay: Voxel[];
+}
+
+/**
+ * Direction to flip a selection: horizontal swaps left and right, vertical swaps top and bottom
+ */
+export type MirrorAxis = 'horizontal' | 'vertical';
+
+/**
+ * Copied voxels, positioned relative to the top-left corner of the region they came from
+ */
+export interface VoxelClipboard extends GridRect {
+    voxels: Voxel[];
+}
+
 /**
  * Complete grid state
  */
@@ -23,7 +146,11 @@ export interface GridState {
     voxels: Map<string, Voxel>;
     selectedColor: string;
     blockHeight: number;
-    lightingAngle: number;
+    lighting: Lighting;
+    activeLayer: number;
+    placementMode: PlacementMode;
+    tool: GridTool;
+    symmetry: SymmetryMode;
 }
 
 /**
@@ -44,17 +171,215 @@ export interface IsometricCoords {
 }
 
 /**
- * SVG path data for a voxel face
+ * Directional light shining on the scene, fixed in the world as the view turns
  */
-export interface VoxelFace {
-    path: string;
+export interface Lighting {
+    /** Compass direction the light comes from in degrees: 0 along +x, 90 along +y */
+    azimuth: number;
+    /** Height of the light above the ground in degrees: 0 grazing, 90 straight down */
+    elevation: number;
+    /** Share of light that reaches every face, even those turned away, 0-1 */
+    ambient: number;
+    /** Color of the direct light as #RRGGBB; white leaves block colors unchanged */
+    color: string;
+    /** Cast shadows onto the ground and onto the tops of lower columns */
+    shadows: boolean;
+    /** Darken faces along inner corners, where neighbouring blocks keep out ambient light */
+    ambientOcclusion: boolean;
+}
+
+/**
+ * Options for rendering a scene to SVG
+ */
+export interface SceneOptions {
+    /** Draw every visible cube face separately so each voxel keeps its own outline */
+    voxelOutlines?: boolean;
+    /** Layers bottom to top; hidden layers are left out and each layer gets its own `<g id>` */
+    layers?: VoxelLayer[];
+    /** Markup placed inside each face's `<path>`, such as SMIL animations */
+    decorateFace?: (face: SceneFaceDetails) => string;
+    /** Space around the blocks in drawing units; 40 when omitted */
+    padding?: number;
+    /** Edge color and width of every face, or null for no edges; dark 0.5 wide edges when omitted */
+    outline?: { color: string; width: number } | null;
+    /** Camera tilt and drawing size; true isometric at 20 units per block when omitted */
+    projection?: Projection;
+    /** Paint order of the faces; 'auto' when omitted */
+    sort?: SceneSortMode;
+    /** Prefix for the ids of generated definitions such as gradients, when several scenes share one document */
+    idPrefix?: string;
+}
+
+/**
+ * Parallel projection of the scene.
+ * The ground axes rise at `angle` degrees from the horizontal: 30 is true isometric,
+ * about 26.57 (atan 1/2) the 2:1 dimetric of pixel art.
+ */
+export interface Projection {
+    /** Angle of the ground axes in degrees, above 0 and below 90 */
+    angle: number;
+    /** Drawing units per block edge */
+    scale: number;
+}
+
+/**
+ * How faces are put in paint order:
+ * - `auto`: the fastest order that is exact for the scene
+ * - `occlusion`: full back-to-front sort by which face covers which, always exact
+ * - `depth`: distance from the camera only; exact for unmerged faces in true isometric
+ * - `none`: generation order, for callers that sort or z-buffer themselves
+ */
+export type SceneSortMode = 'auto' | 'occlusion' | 'depth' | 'none';
+
+/**
+ * What a rendered face shows, passed to `SceneOptions.decorateFace`
+ */
+export interface SceneFaceDetails {
+    /** Unshaded block color */
+    color: string;
+    faceType: 'top' | 'left' | 'right';
+    /** Cube the face belongs to, in world space; only set when faces aren't merged (voxelOutlines) */
+    voxel?: Voxel;
+}
+
+/**
+ * Face of a projected scene, as returned by `projectScene`
+ */
+export interface ProjectedFace extends SceneFaceDetails {
+    /** Corners in drawing units */
+    points: IsometricCoords[];
+    /** Shaded fill color */
     fill: string;
+    /** Index into `SceneOptions.layers`, or 0 without layers */
+    layer: number;
+    /** Parts of a top face in cast shadow: convex polygons inside the face, filled with the unlit color */
+    shadow?: { polygons: IsometricCoords[][]; fill: string };
+    /** Ambient occlusion along inner corners, painted over the face and its shadow */
+    occlusion?: OcclusionQuad[];
 }
 
 /**
- * History state for undo/redo
+ * Strip of ambient occlusion, darkest along its first edge and fading out towards the opposite one
  */
-export interface HistoryState {
-    voxels: Map<string, Voxel>;
+export interface OcclusionQuad {
+    /** Corners; the first two lie on the inner corner */
+    points: IsometricCoords[];
+    /** Opacity of black along the corner */
+    opacity: number;
+}
+
+/**
+ * Visible faces of a scene in paint order, with the drawing's extent
+ */
+export interface ProjectedScene {
+    faces: ProjectedFace[];
+    /** Shadow on the ground, painted before all faces: overlapping convex polygons filled as their union */
+    groundShadow: { polygons: IsometricCoords[][]; opacity: number } | null;
+    /** Extent of the faces and ground shadow in drawing units, without padding; null when nothing is visible */
+    bounds: { minX: number; minY: number; maxX: number; maxY: number } | null;
+}
+
+/**
+ * Kind of motion in an animated SVG export
+ */
+export type SVGAnimationMode = 'build' | 'lighting' | 'turntable';
+
+/**
+ * Timing curve of an animated SVG export, matching the CSS keywords
+ */
+export type SVGAnimationEasing = 'linear' | 'ease-in' | 'ease-out' | 'ease-in-out';
+
+/**
+ * Settings for an animated SVG export
+ */
+export interface SVGAnimationOptions {
+    mode: SVGAnimationMode;
+    /** Length of one cycle in seconds */
+    duration: number;
+    easing: SVGAnimationEasing;
+    /** Repeat forever instead of playing once and holding the last frame */
+    loop: boolean;
+}
+
+/**
+ * How exported images are sized: a factor of the drawing's own size, or fitted into a target size
+ */
+export type ExportSizeMode = 'scale' | 'fit';
+
+/**
+ * Image export settings, applied alike to SVG, PNG and JPG and saved with the project
+ */
+export interface ExportSettings {
+    sizeMode: ExportSizeMode;
+    /** Pixels per drawing unit in scale mode */
+    scale: number;
+    /** Image size in pixels in fit mode; the scene keeps its aspect ratio and is centered */
+    width: number;
+    height: number;
+    /** Space around the blocks in drawing units */
+    padding: number;
+    /** Background color, or null for transparent; JPG uses white instead */
+    background: string | null;
+    outlines: boolean;
+    outlineColor: string;
+    /** Edge width in drawing units */
+    outlineWidth: number;
+}
+
+/**
+ * Contents of one position before and after an edit; undefined when empty
+ */
+export type VoxelChange = [before: Voxel | undefined, after: Voxel | undefined];
+
+/**
+ * Recorded edit for undo/redo, holding only what the edit changed
+ */
+export interface HistoryEntry {
+    /** Changed positions, keyed like the voxel map */
+    voxels: Map<string, VoxelChange>;
+    /** Layer list before and after, when the edit changed it */
+    layers?: [before: VoxelLayer[], after: VoxelLayer[]];
+    /** Grid size before and after, when the edit changed it */
+    gridSize?: [before: number, after: number];
     timestamp: number;
 }
+
+/**
+ * One move through the undo tree: an entry applied backwards or forwards
+ */
+export interface HistoryStep {
+    entry: HistoryEntry;
+    direction: 'undo' | 'redo';
+}
+
+/**
+ * Everything an undoable edit can change
+ */
+export interface SceneSnapshot {
+    voxels: Map<string, Voxel>;
+    layers: VoxelLayer[];
+    gridSize: number;
+}
+
+/**
+ * Point in the undo tree; the root is the state the session started from
+ */
+export interface HistoryNode {
+    id: number;
+    parent: number | null;
+    /** Edit leading from the parent to this node; null for the root */
+    entry: HistoryEntry | null;
+    /** Children in creation order; more than one means the history branched here */
+    children: number[];
+    /** Child that redo moves to */
+    redoChild: number | null;
+}
+
+/**
+ * Undo tree that keeps every branch, with the node the scene currently shows
+ */
+export interface HistoryTree {
+    nodes: Map<number, HistoryNode>;
+    current: number;
+    nextId: number;
+}
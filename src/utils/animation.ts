@@ -0,0 +1,285 @@
+import type { Lighting, SceneOptions, SVGAnimationEasing, SVGAnimationOptions, Voxel } from '../types/voxel';
+import { generateSceneSVG, rotateToView, sortVoxelsBackToFront } from './isometric';
+import { shadeFace } from './lighting';
+import { getVisibleVoxels } from './layers';
+import { getSVGViewBox } from './svg';
+import { getVoxelKey } from './voxels';
+
+/**
+ * Animation settings used until the user changes them
+ */
+export const DEFAULT_SVG_ANIMATION: SVGAnimationOptions = {
+    mode: 'build',
+    duration: 4,
+    easing: 'ease-out',
+    loop: true,
+};
+
+/**
+ * Shortest and longest animation cycle in seconds
+ */
+export const MIN_ANIMATION_DURATION = 1;
+export const MAX_ANIMATION_DURATION = 60;
+
+/**
+ * Cubic Bézier control points of each easing, as in CSS
+ */
+const EASING_CURVES: Record<SVGAnimationEasing, [number, number, number, number]> = {
+    'linear': [0, 0, 1, 1],
+    'ease-in': [0.42, 0, 1, 1],
+    'ease-out': [0, 0, 0.58, 1],
+    'ease-in-out': [0.42, 0, 0.58, 1],
+};
+
+const LINEAR_SPLINE = '0 0 1 1';
+
+// Looping build-ups hold the finished scene for the rest of the cycle
+const LOOP_BUILD_SPAN = 0.8;
+
+// Blocks fall from two block heights above their place, within the scene's padding
+const DROP_HEIGHT = 40;
+
+// Share of each turntable view spent fading into the next
+const TURNTABLE_FADE = 0.3;
+
+// Fill samples per lighting sweep
+const LIGHTING_STEPS = 24;
+
+interface Keyframe {
+    /** Time as a fraction of the cycle */
+    time: number;
+    value: string;
+    /** Ease the interval leading to this keyframe instead of moving linearly */
+    eased?: boolean;
+}
+
+const formatNumber = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Progress along an easing curve
+ * @param easing - Easing
+ * @param t - Time from 0 to 1
+ * @returns Eased progress from 0 to 1
+ */
+const applyEasing = (easing: SVGAnimationEasing, t: number): number => {
+    const [x1, y1, x2, y2] = EASING_CURVES[easing];
+    const bezier = (a: number, b: number, s: number) => 3 * a * s * (1 - s) ** 2 + 3 * b * s * s * (1 - s) + s ** 3;
+
+    // x(s) is increasing, so bisect for the curve parameter at time t
+    let low = 0;
+    let high = 1;
+    for (let i = 0; i < 30; i++) {
+        const mid = (low + high) / 2;
+        if (bezier(x1, x2, mid) < t) {
+            low = mid;
+        } else {
+            high = mid;
+        }
+    }
+    return bezier(y1, y2, (low + high) / 2);
+};
+
+/**
+ * SMIL element animating an attribute through keyframes over one cycle
+ * @param tag - `animate` or `animateTransform`
+ * @param attributes - Target attributes, such as `attributeName="opacity"`
+ * @param keyframes - Keyframes from time 0 to 1
+ * @param animation - Animation settings
+ * @returns SMIL markup
+ */
+const createSMIL = (tag: 'animate' | 'animateTransform', attributes: string, keyframes: Keyframe[], animation: SVGAnimationOptions): string => {
+    const curve = EASING_CURVES[animation.easing].join(' ');
+    const values = keyframes.map(({ value }) => value).join(';');
+    const keyTimes = keyframes.map(({ time }) => formatNumber(time)).join(';');
+    const keySplines = keyframes.slice(1).map(({ eased }) => (eased ? curve : LINEAR_SPLINE)).join(';');
+    const repeat = animation.loop ? 'indefinite' : '1';
+
+    return `<${tag} ${attributes} values="${values}" keyTimes="${keyTimes}" calcMode="spline" keySplines="${keySplines}" dur="${animation.duration}s" repeatCount="${repeat}" fill="freeze"/>`;
+};
+
+/**
+ * Blocks drop into place one after another, farthest first
+ */
+const generateBuildSVG = (
+    voxels: Map<string, Voxel>,
+    lighting: Lighting,
+    rotation: number,
+    options: SceneOptions,
+    animation: SVGAnimationOptions
+): string => {
+    const visible = options.layers?.length ? getVisibleVoxels(voxels, options.layers) : voxels;
+    const worldKeys = new Map<Voxel, string>();
+    const viewVoxels = Array.from(visible.values(), (voxel) => {
+        const viewVoxel = rotateToView(voxel, rotation);
+        worldKeys.set(viewVoxel, getVoxelKey(voxel.x, voxel.y, voxel.z));
+        return viewVoxel;
+    });
+    const ordered = sortVoxelsBackToFront(viewVoxels);
+    const order = new Map(ordered.map((voxel, index) => [worldKeys.get(voxel), index]));
+
+    const span = animation.loop ? LOOP_BUILD_SPAN : 1;
+    const drop = Math.min(0.25 * span, span / Math.max(1, Math.sqrt(ordered.length)));
+    const step = ordered.length > 1 ? (span - drop) / (ordered.length - 1) : 0;
+
+    // Shadows and occlusion would stay in place while the blocks that make them drop in
+    return generateSceneSVG(voxels, { ...lighting, shadows: false, ambientOcclusion: false }, rotation, {
+        ...options,
+        // Each block animates on its own, so its faces can't be merged with its neighbours'
+        voxelOutlines: true,
+        decorateFace: ({ voxel }) => {
+            if (!voxel) return '';
+            const start = (order.get(getVoxelKey(voxel.x, voxel.y, voxel.z)) ?? 0) * step;
+            const end = start + drop;
+            const keyframes = (hidden: string, shown: string): Keyframe[] => [
+                { time: 0, value: hidden },
+                { time: start, value: hidden },
+                { time: end, value: shown, eased: true },
+                { time: 1, value: shown },
+            ];
+
+            return createSMIL('animate', 'attributeName="opacity"', keyframes('0', '1'), animation)
+                + createSMIL('animateTransform', 'attributeName="transform" type="translate"', keyframes(`0 -${DROP_HEIGHT}`, '0 0'), animation);
+        },
+    });
+};
+
+/**
+ * The light circles the scene once at its height, starting from its current direction
+ */
+const generateLightingSVG = (
+    voxels: Map<string, Voxel>,
+    lighting: Lighting,
+    rotation: number,
+    options: SceneOptions,
+    animation: SVGAnimationOptions
+): string => {
+    // Faces of one type and color share their fills
+    const sweeps = new Map<string, string>();
+
+    // Shadows would stay put while the light moves; occlusion doesn't depend on the light
+    return generateSceneSVG(voxels, { ...lighting, shadows: false }, rotation, {
+        ...options,
+        decorateFace: ({ color, faceType }) => {
+            // The light keeps its elevation, so top faces stay evenly lit
+            if (faceType === 'top') return '';
+
+            const key = `${faceType}|${color}`;
+            let sweep = sweeps.get(key);
+            if (sweep === undefined) {
+                const keyframes: Keyframe[] = [];
+                for (let step = 0; step <= LIGHTING_STEPS; step++) {
+                    const time = step / LIGHTING_STEPS;
+                    const azimuth = lighting.azimuth + 360 * applyEasing(animation.easing, time);
+                    keyframes.push({ time, value: shadeFace(color, faceType, { ...lighting, azimuth }, rotation) });
+                }
+                sweep = createSMIL('animate', 'attributeName="fill"', keyframes, animation);
+                sweeps.set(key, sweep);
+            }
+            return sweep;
+        },
+    });
+};
+
+/**
+ * The camera steps through the four views, cross-fading between them
+ */
+const generateTurntableSVG = (
+    voxels: Map<string, Voxel>,
+    lighting: Lighting,
+    rotation: number,
+    options: SceneOptions,
+    animation: SVGAnimationOptions
+): string => {
+    // Layer groups would repeat their ids in every view, so hidden layers are removed up front
+    const visible = options.layers?.length ? getVisibleVoxels(voxels, options.layers) : voxels;
+    const views = [0, 1, 2, 3].map((turn) => generateSceneSVG(visible, lighting, rotation + turn, {
+        voxelOutlines: options.voxelOutlines,
+        // Occlusion gradient ids must stay unique across the views
+        idPrefix: `view${turn}-`,
+    }));
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    const contents = views.map((svg) => {
+        const [x, y, width, height] = getSVGViewBox(svg) ?? [0, 0, 400, 400];
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x + width);
+        maxY = Math.max(maxY, y + height);
+        return svg.slice(svg.indexOf('>') + 1, svg.lastIndexOf('</svg>'));
+    });
+
+    // Each view fades in over the one before it, which is then hidden; the last view fades
+    // out to reveal the first again when looping
+    const slot = 1 / 4;
+    const fade = slot * TURNTABLE_FADE;
+    const frames = contents.map((content, index) => {
+        const start = index * slot;
+        const end = start + slot;
+        let keyframes: Keyframe[];
+
+        if (index === 0) {
+            keyframes = [
+                { time: 0, value: '1' },
+                { time: end, value: '1' },
+                { time: end, value: '0' },
+                { time: 1 - fade, value: '0' },
+                { time: 1 - fade, value: '1' },
+                { time: 1, value: '1' },
+            ];
+        } else if (index === 3) {
+            keyframes = [
+                { time: 0, value: '0' },
+                { time: start - fade, value: '0' },
+                { time: start, value: '1', eased: true },
+                ...(animation.loop
+                    ? [{ time: 1 - fade, value: '1' }, { time: 1, value: '0', eased: true }]
+                    : [{ time: 1, value: '1' }]),
+            ];
+        } else {
+            keyframes = [
+                { time: 0, value: '0' },
+                { time: start - fade, value: '0' },
+                { time: start, value: '1', eased: true },
+                { time: end, value: '1' },
+                { time: end, value: '0' },
+                { time: 1, value: '0' },
+            ];
+        }
+
+        const opacity = keyframes[0].value;
+        return `  <g opacity="${opacity}">${createSMIL('animate', 'attributeName="opacity"', keyframes, animation)}${content}</g>`;
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${formatNumber(minX)} ${formatNumber(minY)} ${formatNumber(maxX - minX)} ${formatNumber(maxY - minY)}" preserveAspectRatio="xMidYMid meet">
+${frames.join('\n')}
+</svg>`;
+};
+
+/**
+ * Generate a self-contained animated SVG of the scene using SMIL, so it plays in browsers
+ * (including as an `<img>`) without scripts or stylesheets
+ * @param voxels - Map of voxels
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns; the turntable starts from this view
+ * @param options - Rendering options, as for generateSceneSVG
+ * @param animation - Animation settings
+ * @returns Complete SVG string
+ */
+export const generateAnimatedSVG = (
+    voxels: Map<string, Voxel>,
+    lighting: Lighting,
+    rotation: number,
+    options: SceneOptions,
+    animation: SVGAnimationOptions
+): string => {
+    if (animation.mode === 'turntable') {
+        return generateTurntableSVG(voxels, lighting, rotation, options, animation);
+    }
+    if (animation.mode === 'lighting') {
+        return generateLightingSVG(voxels, lighting, rotation, options, animation);
+    }
+    return generateBuildSVG(voxels, lighting, rotation, options, animation);
+};
@@ -0,0 +1,167 @@
+import type { RasterFrame } from './raster';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * CRC-32 as used by PNG chunks
+ * @param bytes - Data to check
+ * @returns Checksum
+ */
+const crc32 = (bytes: Uint8Array): number => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < bytes.length; i++) {
+        crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Compress bytes into a zlib stream, as PNG image data requires
+ * @param bytes - Raw data
+ * @returns zlib stream
+ */
+const deflate = async (bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> => {
+    const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Build a PNG chunk: length, type, data and CRC
+ * @param type - Four-letter chunk type
+ * @param data - Chunk data
+ * @returns Chunk bytes
+ */
+const createChunk = (type: string, data: Uint8Array): Uint8Array => {
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+};
+
+/**
+ * Chunk data of big-endian integers
+ * @param fields - Values with their size in bytes
+ * @returns Packed bytes
+ */
+const packFields = (fields: [value: number, size: 1 | 2 | 4][]): Uint8Array => {
+    const bytes = new Uint8Array(fields.reduce((sum, [, size]) => sum + size, 0));
+    const view = new DataView(bytes.buffer);
+    let offset = 0;
+    fields.forEach(([value, size]) => {
+        if (size === 1) view.setUint8(offset, value);
+        if (size === 2) view.setUint16(offset, value);
+        if (size === 4) view.setUint32(offset, value);
+        offset += size;
+    });
+    return bytes;
+};
+
+const concatBytes = (parts: Uint8Array[]): Uint8Array<ArrayBuffer> => {
+    const bytes = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    parts.forEach((part) => {
+        bytes.set(part, offset);
+        offset += part.length;
+    });
+    return bytes;
+};
+
+/**
+ * Compressed image data of RGBA pixels, with no filtering on each scanline
+ * @param data - RGBA pixels
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns zlib stream
+ */
+const encodePNGData = (data: Uint8ClampedArray | Uint8Array, width: number, height: number): Promise<Uint8Array> => {
+    const stride = width * 4;
+    const raw = new Uint8Array((stride + 1) * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * (stride + 1)] = 0;
+        raw.set(data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+    }
+    return deflate(raw);
+};
+
+/**
+ * Header chunk for 8-bit RGBA images
+ */
+const createHeader = (width: number, height: number): Uint8Array => {
+    return createChunk('IHDR', packFields([[width, 4], [height, 4], [8, 1], [6, 1], [0, 1], [0, 1], [0, 1]]));
+};
+
+/**
+ * Encode a still 8-bit RGBA PNG
+ * @param data - RGBA pixels
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @returns File contents
+ */
+export const encodePNG = async (data: Uint8ClampedArray | Uint8Array, width: number, height: number): Promise<Uint8Array<ArrayBuffer>> => {
+    return concatBytes([
+        new Uint8Array(PNG_SIGNATURE),
+        createHeader(width, height),
+        createChunk('IDAT', await encodePNGData(data, width, height)),
+        createChunk('IEND', new Uint8Array(0)),
+    ]);
+};
+
+/**
+ * Encode frames as a looping animated PNG with full 8-bit transparency.
+ * Viewers without APNG support show the first frame.
+ * @param frames - Frames of equal size
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @returns File contents
+ */
+export const encodeAPNG = async (frames: RasterFrame[], width: number, height: number): Promise<Uint8Array<ArrayBuffer>> => {
+    const parts: Uint8Array[] = [
+        new Uint8Array(PNG_SIGNATURE),
+        createHeader(width, height),
+        // Frame count, then zero plays meaning loop forever
+        createChunk('acTL', packFields([[frames.length, 4], [0, 4]])),
+    ];
+
+    // fcTL and fdAT chunks share one sequence
+    let sequence = 0;
+    for (let index = 0; index < frames.length; index++) {
+        const { data, delay } = frames[index];
+        parts.push(createChunk('fcTL', packFields([
+            [sequence++, 4],
+            [width, 4],
+            [height, 4],
+            [0, 4],
+            [0, 4],
+            [Math.min(0xffff, Math.max(1, Math.round(delay))), 2],
+            [1000, 2],
+            // Clear to transparent after each frame, then draw the next one as is
+            [1, 1],
+            [0, 1],
+        ])));
+
+        const compressed = await encodePNGData(data, width, height);
+        if (index === 0) {
+            parts.push(createChunk('IDAT', compressed));
+        } else {
+            parts.push(createChunk('fdAT', concatBytes([packFields([[sequence++, 4]]), compressed])));
+        }
+    }
+
+    parts.push(createChunk('IEND', new Uint8Array(0)));
+    return concatBytes(parts);
+};
@@ -28,6 +28,110 @@ export const adjustBrightness = (hex: string, amount: number): string => {
     return '#' + ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0');
 };
 
+/**
+ * Color in the OKLab perceptual space: lightness 0-1 and two opponent axes
+ */
+interface OklabColor {
+    l: number;
+    a: number;
+    b: number;
+}
+
+const toLinear = (channel: number): number => {
+    const value = channel / 255;
+    return value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+};
+
+const fromLinear = (value: number): number => {
+    return 255 * (value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055);
+};
+
+/**
+ * Convert a hex color to OKLab
+ */
+const hexToOklab = (hex: string): OklabColor => {
+    const { r, g, b } = hexToRgb(hex);
+    const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)];
+    const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+    const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+    const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+    return {
+        l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+        a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+        b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    };
+};
+
+/**
+ * Convert OKLab to linear sRGB, which may fall outside 0-1
+ */
+const oklabToLinear = ({ l: lightness, a, b }: OklabColor): [number, number, number] => {
+    const l = Math.pow(lightness + 0.3963377774 * a + 0.2158037573 * b, 3);
+    const m = Math.pow(lightness - 0.1055613458 * a - 0.0638541728 * b, 3);
+    const s = Math.pow(lightness - 0.0894841775 * a - 1.291485548 * b, 3);
+
+    return [
+        4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+        -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+        -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+    ];
+};
+
+/**
+ * Convert OKLab to a hex color. Colors outside sRGB lose chroma until they fit,
+ * so their hue and lightness are kept instead of clipping each channel.
+ */
+const oklabToHex = (color: OklabColor): string => {
+    const inGamut = (linear: number[]) => linear.every((value) => value >= -1e-4 && value <= 1 + 1e-4);
+    const l = Math.max(0, Math.min(1, color.l));
+    let linear = oklabToLinear({ ...color, l });
+
+    if (!inGamut(linear)) {
+        let low = 0;
+        let high = 1;
+        for (let step = 0; step < 12; step++) {
+            const middle = (low + high) / 2;
+            if (inGamut(oklabToLinear({ l, a: color.a * middle, b: color.b * middle }))) {
+                low = middle;
+            } else {
+                high = middle;
+            }
+        }
+        linear = oklabToLinear({ l, a: color.a * low, b: color.b * low });
+    }
+
+    const [r, g, b] = linear.map((value) => Math.round(Math.max(0, Math.min(255, fromLinear(Math.max(0, value))))));
+    return '#' + ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0');
+};
+
+/**
+ * Light a surface color in OKLab, so it keeps its hue and saturation as it darkens.
+ * OKLab is a cube root of linear light, so scaling its three values by the cube root of the
+ * light reaching the surface is a physically correct dimming. The direct part of the light
+ * also tints the surface with the light's own hue.
+ * @param hex - Surface color
+ * @param ambient - Light reaching every surface, 0-1
+ * @param diffuse - Direct light reaching this surface, 0-1
+ * @param lightColor - Color of the direct light; white leaves hues unchanged
+ * @returns Lit hex color
+ */
+export const shadeColor = (hex: string, ambient: number, diffuse: number, lightColor: string): string => {
+    const surface = hexToOklab(hex);
+    const light = hexToOklab(lightColor);
+    // Luminance of the light; 1 for white, so white light at full strength returns the surface color
+    const direct = diffuse * Math.pow(light.l, 3);
+    const total = ambient + direct;
+    const scale = Math.cbrt(total);
+    const tint = total > 0 ? (direct / total) * surface.l * scale : 0;
+
+    return oklabToHex({
+        l: surface.l * scale,
+        a: surface.a * scale + light.a * tint,
+        b: surface.b * scale + light.b * tint,
+    });
+};
+
 /**
  * Convert hex color to RGB
  * @param hex - Hex color string
@@ -80,3 +184,29 @@ export const getContrastRatio = (color1: string, color2: string): number => {
 
     return (lighter + 0.05) / (darker + 0.05);
 };
+
+/**
+ * Find the palette color closest to an RGB color, using a distance weighted for how the eye sees red and blue
+ * @param rgb - Color to match (0-255 channels)
+ * @param palette - Candidate colors
+ * @returns Hex of the closest palette color
+ */
+export const findNearestColor = (rgb: { r: number; g: number; b: number }, palette: ColorOption[]): string => {
+    let nearest = palette[0].hex;
+    let best = Infinity;
+
+    palette.forEach(({ hex }) => {
+        const { r, g, b } = hexToRgb(hex);
+        const meanRed = (rgb.r + r) / 2;
+        const dr = rgb.r - r;
+        const dg = rgb.g - g;
+        const db = rgb.b - b;
+        const distance = (2 + meanRed / 256) * dr * dr + 4 * dg * dg + (2 + (255 - meanRed) / 256) * db * db;
+        if (distance < best) {
+            best = distance;
+            nearest = hex;
+        }
+    });
+
+    return nearest;
+};
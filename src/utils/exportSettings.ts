@@ -0,0 +1,83 @@
+import type { ExportSettings, SceneOptions } from '../types/voxel';
+import { DEFAULT_OUTLINE, DEFAULT_SCENE_PADDING } from './isometric';
+import { getSVGViewBox, setSVGViewBox } from './svg';
+
+/**
+ * Export settings of new projects: the drawing at four pixels per unit, transparent, with dark edges
+ */
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+    sizeMode: 'scale',
+    scale: 4,
+    width: 1920,
+    height: 1080,
+    padding: DEFAULT_SCENE_PADDING,
+    background: null,
+    outlines: true,
+    outlineColor: DEFAULT_OUTLINE.color,
+    outlineWidth: DEFAULT_OUTLINE.width,
+};
+
+/**
+ * Limits of the export settings
+ */
+export const MIN_EXPORT_SCALE = 0.1;
+export const MAX_EXPORT_SCALE = 20;
+export const MAX_EXPORT_SIZE = 8192;
+export const MAX_EXPORT_PADDING = 400;
+export const MAX_OUTLINE_WIDTH = 10;
+
+/**
+ * Scene options that carry out the export settings
+ * @param settings - Export settings
+ * @returns Padding and outline for generateSceneSVG
+ */
+export const getExportSceneOptions = (settings: ExportSettings): Pick<SceneOptions, 'padding' | 'outline'> => ({
+    padding: settings.padding,
+    outline: settings.outlines ? { color: settings.outlineColor, width: settings.outlineWidth } : null,
+});
+
+/**
+ * Size a scene SVG for export and paint its background.
+ * In fit mode the viewBox is widened or heightened around the scene to the target aspect ratio,
+ * so the SVG and the images rendered from it show the scene undistorted and centered.
+ * @param svg - Scene SVG from generateSceneSVG
+ * @param settings - Export settings
+ * @returns SVG with width, height and background, and its size in pixels
+ * @throws Error when the image would be larger than MAX_EXPORT_SIZE on a side
+ */
+export const applyExportSettings = (svg: string, settings: ExportSettings): { svg: string; width: number; height: number } => {
+    let [x, y, boxWidth, boxHeight] = getSVGViewBox(svg) ?? [0, 0, 400, 400];
+    let width: number;
+    let height: number;
+
+    if (settings.sizeMode === 'fit') {
+        width = settings.width;
+        height = settings.height;
+        const aspect = width / height;
+        if (boxWidth / boxHeight < aspect) {
+            const wider = boxHeight * aspect;
+            x -= (wider - boxWidth) / 2;
+            boxWidth = wider;
+        } else {
+            const taller = boxWidth / aspect;
+            y -= (taller - boxHeight) / 2;
+            boxHeight = taller;
+        }
+    } else {
+        width = Math.max(1, Math.round(boxWidth * settings.scale));
+        height = Math.max(1, Math.round(boxHeight * settings.scale));
+    }
+
+    if (width > MAX_EXPORT_SIZE || height > MAX_EXPORT_SIZE) {
+        throw new Error(`The image would be ${width}×${height} pixels; the limit is ${MAX_EXPORT_SIZE} on each side. Lower the scale.`);
+    }
+
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const viewBox: [number, number, number, number] = [round(x), round(y), round(boxWidth), round(boxHeight)];
+    const background = settings.background
+        ? `\n  <rect x="${viewBox[0]}" y="${viewBox[1]}" width="${viewBox[2]}" height="${viewBox[3]}" fill="${settings.background}"/>`
+        : '';
+
+    const sized = setSVGViewBox(svg, viewBox).replace(/<svg([^>]*)>/, `<svg width="${width}" height="${height}"$1>${background}`);
+    return { svg: sized, width, height };
+};
@@ -0,0 +1,118 @@
+import type { ProjectFrame } from '../types/project';
+import type { Lighting, SceneSnapshot } from '../types/voxel';
+import { encodeAPNG } from './apng';
+import { downloadBlob } from './download';
+import { encodeGIF } from './gif';
+import { generateSceneSVG } from './isometric';
+import { getVisibleVoxels } from './layers';
+import { rasterizeSVG } from './raster';
+import type { RasterFrame } from './raster';
+import { getSVGViewBox, setSVGViewBox } from './svg';
+import { buildColumnIndex } from './voxels';
+
+/**
+ * Display time of new frames in milliseconds
+ */
+export const DEFAULT_FRAME_DURATION = 200;
+
+/**
+ * Shortest and longest frame display time in milliseconds
+ */
+export const MIN_FRAME_DURATION = 20;
+export const MAX_FRAME_DURATION = 10000;
+
+/**
+ * Raster animation file formats
+ */
+export type FrameExportFormat = 'gif' | 'apng';
+
+/**
+ * Top color of every column of a frame, drawn faintly under the grid while editing its neighbour
+ * @param frame - Frame scene
+ * @returns Colors keyed by column
+ */
+export const getOnionSkin = (frame: SceneSnapshot): Map<string, string> => {
+    const skin = new Map<string, string>();
+    buildColumnIndex(getVisibleVoxels(frame.voxels, frame.layers)).forEach(({ top }, key) => skin.set(key, top.color));
+    return skin;
+};
+
+/**
+ * Rasterize every frame with one shared framing, so the scene doesn't jump between frames
+ * @param frames - Frames in playback order
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns
+ * @param voxelOutlines - Draw every cube face separately
+ * @param size - Length of the longer image side in pixels
+ * @returns Frame images and their size
+ */
+export const renderFrameImages = async (
+    frames: ProjectFrame[],
+    lighting: Lighting,
+    rotation: number,
+    voxelOutlines: boolean,
+    size: number
+): Promise<{ images: RasterFrame[]; width: number; height: number }> => {
+    const svgs = frames.map((frame) => generateSceneSVG(frame.voxels, lighting, rotation, { voxelOutlines, layers: frame.layers }));
+
+    // Empty frames have a placeholder viewBox, so only frames with blocks set the framing
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    svgs.forEach((svg, index) => {
+        const box = getSVGViewBox(svg);
+        if (!box || getVisibleVoxels(frames[index].voxels, frames[index].layers).size === 0) {
+            return;
+        }
+        minX = Math.min(minX, box[0]);
+        minY = Math.min(minY, box[1]);
+        maxX = Math.max(maxX, box[0] + box[2]);
+        maxY = Math.max(maxY, box[1] + box[3]);
+    });
+    if (minX === Infinity) {
+        throw new Error('Every frame is empty');
+    }
+
+    const viewBox: [number, number, number, number] = [minX, minY, maxX - minX, maxY - minY];
+    const scale = size / Math.max(viewBox[2], viewBox[3]);
+    const width = Math.max(1, Math.round(viewBox[2] * scale));
+    const height = Math.max(1, Math.round(viewBox[3] * scale));
+
+    const images: RasterFrame[] = [];
+    for (let index = 0; index < frames.length; index++) {
+        const canvas = await rasterizeSVG(setSVGViewBox(svgs[index], viewBox), width, height);
+        const ctx = canvas.getContext('2d') as CanvasRenderingContext2D;
+        images.push({ data: ctx.getImageData(0, 0, width, height).data, delay: frames[index].duration });
+    }
+
+    return { images, width, height };
+};
+
+/**
+ * Render the timeline and download it as a looping GIF or APNG
+ * @param format - File format
+ * @param frames - Frames in playback order
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns
+ * @param voxelOutlines - Draw every cube face separately
+ * @param size - Length of the longer image side in pixels
+ * @param filename - Filename for download, without extension
+ */
+export const downloadFrameAnimation = async (
+    format: FrameExportFormat,
+    frames: ProjectFrame[],
+    lighting: Lighting,
+    rotation: number,
+    voxelOutlines: boolean,
+    size: number,
+    filename: string
+): Promise<void> => {
+    const { images, width, height } = await renderFrameImages(frames, lighting, rotation, voxelOutlines, size);
+
+    if (format === 'gif') {
+        downloadBlob(new Blob([encodeGIF(images, width, height)], { type: 'image/gif' }), `${filename}.gif`);
+    } else {
+        downloadBlob(new Blob([await encodeAPNG(images, width, height)], { type: 'image/apng' }), `${filename}.png`);
+    }
+};
@@ -0,0 +1,197 @@
+import type { RasterFrame } from './raster';
+
+// Pixels less opaque than this become the transparent color
+const ALPHA_THRESHOLD = 128;
+
+// Palette index reserved for transparent pixels; colors use 1-255
+const TRANSPARENT_INDEX = 0;
+const MAX_COLORS = 255;
+
+const MAX_CODE = 4096;
+
+/**
+ * Shared palette for all frames: the most used opaque colors, up to 255.
+ * Flat-shaded scenes rarely exceed that; rarer colors such as anti-aliased
+ * edges fall back to the nearest kept color.
+ * @param frames - Frames to scan
+ * @returns Colors as 0xRRGGBB
+ */
+const buildPalette = (frames: RasterFrame[]): number[] => {
+    const counts = new Map<number, number>();
+    frames.forEach(({ data }) => {
+        for (let i = 0; i < data.length; i += 4) {
+            if (data[i + 3] < ALPHA_THRESHOLD) continue;
+            const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+            counts.set(rgb, (counts.get(rgb) ?? 0) + 1);
+        }
+    });
+
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, MAX_COLORS)
+        .map(([rgb]) => rgb);
+};
+
+/**
+ * Map a frame to palette indexes
+ * @param data - RGBA pixels
+ * @param palette - Colors as 0xRRGGBB
+ * @param lookup - Palette index by color, extended with nearest matches as they are found
+ * @returns One index per pixel
+ */
+const indexPixels = (data: Uint8ClampedArray, palette: number[], lookup: Map<number, number>): Uint8Array => {
+    const indexes = new Uint8Array(data.length / 4);
+
+    for (let i = 0; i < indexes.length; i++) {
+        if (data[i * 4 + 3] < ALPHA_THRESHOLD) {
+            indexes[i] = TRANSPARENT_INDEX;
+            continue;
+        }
+
+        const rgb = (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2];
+        let index = lookup.get(rgb);
+        if (index === undefined) {
+            let best = Infinity;
+            let nearest = 1;
+            palette.forEach((color, paletteIndex) => {
+                const dr = ((color >> 16) & 0xff) - data[i * 4];
+                const dg = ((color >> 8) & 0xff) - data[i * 4 + 1];
+                const db = (color & 0xff) - data[i * 4 + 2];
+                const distance = dr * dr + dg * dg + db * db;
+                if (distance < best) {
+                    best = distance;
+                    nearest = paletteIndex + 1;
+                }
+            });
+            index = nearest;
+            lookup.set(rgb, index);
+        }
+        indexes[i] = index;
+    }
+
+    return indexes;
+};
+
+/**
+ * Compress palette indexes with GIF's variable-length LZW
+ * @param indexes - One 8-bit index per pixel
+ * @returns Image data split into sub-blocks, ending with the block terminator
+ */
+const encodeLZW = (indexes: Uint8Array): number[] => {
+    const minCodeSize = 8;
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+    const output: number[] = [minCodeSize];
+    const block: number[] = [];
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let table = new Map<number, number>();
+    let bits = 0;
+    let bitCount = 0;
+
+    // Codes are packed least significant bit first into blocks of at most 255 bytes
+    const writeCode = (code: number) => {
+        bits |= code << bitCount;
+        bitCount += codeSize;
+        while (bitCount >= 8) {
+            block.push(bits & 0xff);
+            bits >>= 8;
+            bitCount -= 8;
+            if (block.length === 255) {
+                output.push(255, ...block);
+                block.length = 0;
+            }
+        }
+    };
+
+    writeCode(clearCode);
+    let prefix = indexes[0];
+    for (let i = 1; i < indexes.length; i++) {
+        const pixel = indexes[i];
+        const key = (prefix << 8) | pixel;
+        const code = table.get(key);
+        if (code !== undefined) {
+            prefix = code;
+            continue;
+        }
+
+        writeCode(prefix);
+        if (nextCode === MAX_CODE) {
+            writeCode(clearCode);
+            table = new Map();
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++;
+            table.set(key, nextCode++);
+        }
+        prefix = pixel;
+    }
+    writeCode(prefix);
+    writeCode(endCode);
+
+    if (bitCount > 0) {
+        block.push(bits & 0xff);
+    }
+    if (block.length > 0) {
+        output.push(block.length, ...block);
+    }
+    output.push(0);
+
+    return output;
+};
+
+/**
+ * Encode frames as a looping animated GIF with a shared 255-color palette.
+ * Semi-transparent pixels become fully opaque or fully transparent.
+ * @param frames - Frames of equal size
+ * @param width - Frame width in pixels
+ * @param height - Frame height in pixels
+ * @returns File contents
+ */
+export const encodeGIF = (frames: RasterFrame[], width: number, height: number): Uint8Array<ArrayBuffer> => {
+    const palette = buildPalette(frames);
+    const lookup = new Map(palette.map((rgb, index) => [rgb, index + 1]));
+    const bytes: number[] = [];
+    const writeShort = (value: number) => bytes.push(value & 0xff, (value >> 8) & 0xff);
+    const writeText = (text: string) => {
+        for (let i = 0; i < text.length; i++) bytes.push(text.charCodeAt(i));
+    };
+
+    writeText('GIF89a');
+    writeShort(width);
+    writeShort(height);
+    // Global color table of 256 entries
+    bytes.push(0xf7, TRANSPARENT_INDEX, 0);
+    for (let i = 0; i < 256; i++) {
+        const rgb = i === TRANSPARENT_INDEX ? 0 : palette[i - 1] ?? 0;
+        bytes.push((rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff);
+    }
+
+    // Loop forever
+    bytes.push(0x21, 0xff, 0x0b);
+    writeText('NETSCAPE2.0');
+    bytes.push(0x03, 0x01);
+    writeShort(0);
+    bytes.push(0);
+
+    frames.forEach(({ data, delay }) => {
+        // Graphic control: clear to background before the next frame, with a transparent color
+        bytes.push(0x21, 0xf9, 0x04, 0x09);
+        writeShort(Math.max(2, Math.round(delay / 10)));
+        bytes.push(TRANSPARENT_INDEX, 0);
+
+        bytes.push(0x2c);
+        writeShort(0);
+        writeShort(0);
+        writeShort(width);
+        writeShort(height);
+        bytes.push(0);
+
+        const image = encodeLZW(indexPixels(data, palette, lookup));
+        for (let i = 0; i < image.length; i++) bytes.push(image[i]);
+    });
+
+    bytes.push(0x3b);
+    return new Uint8Array(bytes);
+};
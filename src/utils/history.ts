@@ -0,0 +1,297 @@
+import type {
+    HistoryEntry,
+    HistoryNode,
+    HistoryStep,
+    HistoryTree,
+    SceneSnapshot,
+    Voxel,
+    VoxelChange,
+} from '../types/voxel';
+import { adjustBrightness } from './colors';
+import { buildColumnIndex, MAX_LAYERS } from './voxels';
+
+/**
+ * Check whether two voxel slots hold the same content
+ */
+const isSameVoxel = (a: Voxel | undefined, b: Voxel | undefined): boolean => {
+    if (a === b) return true;
+    if (!a || !b) return false;
+    return a.x === b.x && a.y === b.y && a.z === b.z && a.color === b.color && a.layer === b.layer;
+};
+
+/**
+ * Collect the positions that differ between two voxel maps.
+ * Unchanged voxels are shared between the maps, so most comparisons are by reference.
+ * @param before - Voxels before the edit
+ * @param after - Voxels after the edit
+ * @returns Changed positions
+ */
+export const diffVoxels = (before: Map<string, Voxel>, after: Map<string, Voxel>): Map<string, VoxelChange> => {
+    const changes = new Map<string, VoxelChange>();
+
+    before.forEach((voxel, key) => {
+        const next = after.get(key);
+        if (!isSameVoxel(voxel, next)) {
+            changes.set(key, [voxel, next]);
+        }
+    });
+    after.forEach((voxel, key) => {
+        if (!before.has(key)) {
+            changes.set(key, [undefined, voxel]);
+        }
+    });
+
+    return changes;
+};
+
+/**
+ * Check whether an entry changes nothing
+ */
+export const isEmptyHistoryEntry = (entry: HistoryEntry): boolean => {
+    return entry.voxels.size === 0 && !entry.layers && !entry.gridSize;
+};
+
+/**
+ * Combine two consecutive entries into one that spans both edits
+ * @param first - Earlier entry
+ * @param second - Later entry
+ * @returns Combined entry, timestamped with the later edit
+ */
+export const mergeHistoryEntries = (first: HistoryEntry, second: HistoryEntry): HistoryEntry => {
+    const voxels = new Map(first.voxels);
+    second.voxels.forEach(([secondBefore, after], key) => {
+        const before = voxels.has(key) ? (voxels.get(key) as VoxelChange)[0] : secondBefore;
+        if (isSameVoxel(before, after)) {
+            voxels.delete(key);
+        } else {
+            voxels.set(key, [before, after]);
+        }
+    });
+
+    const layers: HistoryEntry['layers'] = first.layers && second.layers
+        ? [first.layers[0], second.layers[1]]
+        : first.layers ?? second.layers;
+    const gridSize: HistoryEntry['gridSize'] = first.gridSize && second.gridSize
+        ? [first.gridSize[0], second.gridSize[1]]
+        : first.gridSize ?? second.gridSize;
+
+    return { voxels, layers, gridSize, timestamp: second.timestamp };
+};
+
+/**
+ * Apply a sequence of entries, each backwards or forwards
+ * @param state - Scene to start from
+ * @param steps - Entries in the order to apply them
+ * @returns Resulting scene; unchanged parts are shared with the input
+ */
+export const applyHistorySteps = (state: SceneSnapshot, steps: HistoryStep[]): SceneSnapshot => {
+    if (steps.length === 0) {
+        return state;
+    }
+
+    const voxels = new Map(state.voxels);
+    let { layers, gridSize } = state;
+
+    steps.forEach(({ entry, direction }) => {
+        const side = direction === 'undo' ? 0 : 1;
+        entry.voxels.forEach((change, key) => {
+            const target = change[side];
+            if (target) {
+                voxels.set(key, target);
+            } else {
+                voxels.delete(key);
+            }
+        });
+        if (entry.layers) {
+            layers = entry.layers[side];
+        }
+        if (entry.gridSize) {
+            gridSize = entry.gridSize[side];
+        }
+    });
+
+    return { voxels, layers, gridSize };
+};
+
+/**
+ * Undo tree holding only the starting state
+ */
+export const createHistoryTree = (): HistoryTree => ({
+    nodes: new Map([[0, { id: 0, parent: null, entry: null, children: [], redoChild: null }]]),
+    current: 0,
+    nextId: 1,
+});
+
+/**
+ * Ids from a node up to the root, the node itself first
+ */
+const getAncestorIds = (tree: HistoryTree, id: number): number[] => {
+    const ids: number[] = [];
+    for (let node = tree.nodes.get(id); node; node = node.parent === null ? undefined : tree.nodes.get(node.parent)) {
+        ids.push(node.id);
+    }
+    return ids;
+};
+
+/**
+ * Drop the oldest nodes until the tree fits the limit. Only the root (when it has a single child)
+ * and leaves off the current path are dropped, so the current state stays reachable from the root.
+ * @param tree - Tree whose node map may be modified in place
+ * @param limit - Maximum number of nodes
+ */
+const pruneHistory = (tree: HistoryTree, limit: number): void => {
+    const { nodes } = tree;
+    const currentPath = new Set(getAncestorIds(tree, tree.current));
+
+    while (nodes.size > limit) {
+        let oldest: HistoryNode | undefined;
+        nodes.forEach((node) => {
+            const removable = node.parent === null
+                ? node.id !== tree.current && node.children.length === 1
+                : node.children.length === 0 && !currentPath.has(node.id);
+            if (removable && (!oldest || node.id < oldest.id)) {
+                oldest = node;
+            }
+        });
+        if (!oldest) {
+            return;
+        }
+
+        const removed: HistoryNode = oldest;
+        nodes.delete(removed.id);
+        if (removed.parent === null) {
+            // The only child becomes the starting state
+            const child = nodes.get(removed.children[0]) as HistoryNode;
+            nodes.set(child.id, { ...child, parent: null, entry: null });
+        } else {
+            const parent = nodes.get(removed.parent) as HistoryNode;
+            const children = parent.children.filter((id) => id !== removed.id);
+            const redoChild = parent.redoChild === removed.id ? children[children.length - 1] ?? null : parent.redoChild;
+            nodes.set(parent.id, { ...parent, children, redoChild });
+        }
+    }
+};
+
+/**
+ * Record an edit as a new child of the current node; earlier redo branches are kept as siblings
+ * @param tree - Undo tree
+ * @param entry - Edit to record
+ * @param merge - Fold the edit into the current node instead, e.g. during a brush drag
+ * @param limit - Maximum number of nodes kept
+ * @returns Updated tree
+ */
+export const addHistoryEntry = (tree: HistoryTree, entry: HistoryEntry, merge: boolean, limit: number): HistoryTree => {
+    const nodes = new Map(tree.nodes);
+    const current = nodes.get(tree.current) as HistoryNode;
+
+    if (merge && current.entry) {
+        nodes.set(current.id, { ...current, entry: mergeHistoryEntries(current.entry, entry) });
+        return { ...tree, nodes };
+    }
+
+    const id = tree.nextId;
+    nodes.set(id, { id, parent: current.id, entry, children: [], redoChild: null });
+    nodes.set(current.id, { ...current, children: [...current.children, id], redoChild: id });
+
+    const updated: HistoryTree = { nodes, current: id, nextId: id + 1 };
+    pruneHistory(updated, limit);
+    return updated;
+};
+
+/**
+ * Entries to apply to get from the current node to another one: undo up to the
+ * closest shared ancestor, then redo down to the target
+ * @param tree - Undo tree
+ * @param target - Node to reach
+ * @returns Steps in order
+ */
+export const getHistoryPath = (tree: HistoryTree, target: number): HistoryStep[] => {
+    const up = getAncestorIds(tree, tree.current);
+    const down = getAncestorIds(tree, target);
+    const downSet = new Set(down);
+    const common = up.find((id) => downSet.has(id));
+
+    const steps: HistoryStep[] = [];
+    for (const id of up) {
+        if (id === common) break;
+        steps.push({ entry: tree.nodes.get(id)?.entry as HistoryEntry, direction: 'undo' });
+    }
+    down.slice(0, common === undefined ? 0 : down.indexOf(common)).reverse().forEach((id) => {
+        steps.push({ entry: tree.nodes.get(id)?.entry as HistoryEntry, direction: 'redo' });
+    });
+
+    return steps;
+};
+
+/**
+ * Make another node current; redo from its ancestors then follows the path to it
+ * @param tree - Undo tree
+ * @param target - Node to move to
+ * @returns Updated tree
+ */
+export const moveHistory = (tree: HistoryTree, target: number): HistoryTree => {
+    const nodes = new Map(tree.nodes);
+
+    let child = nodes.get(target);
+    while (child && child.parent !== null) {
+        const parent = nodes.get(child.parent) as HistoryNode;
+        if (parent.redoChild !== child.id) {
+            nodes.set(parent.id, { ...parent, redoChild: child.id });
+        }
+        child = parent;
+    }
+
+    return { ...tree, nodes, current: target };
+};
+
+/**
+ * Short description of what an entry changed, e.g. "+12 −3 blocks"
+ */
+export const describeHistoryEntry = (entry: HistoryEntry): string => {
+    if (entry.gridSize) {
+        const size = entry.gridSize[1];
+        return `Resize grid to ${size}×${size}`;
+    }
+
+    let added = 0;
+    let removed = 0;
+    let changed = 0;
+    entry.voxels.forEach(([before, after]) => {
+        if (!before) {
+            added++;
+        } else if (!after) {
+            removed++;
+        } else {
+            changed++;
+        }
+    });
+
+    const parts: string[] = [];
+    if (added > 0) parts.push(`+${added}`);
+    if (removed > 0) parts.push(`−${removed}`);
+    if (changed > 0) parts.push(`~${changed}`);
+    const blocks = parts.length > 0 ? `${parts.join(' ')} block${added + removed + changed === 1 ? '' : 's'}` : '';
+
+    if (entry.layers) {
+        const [before, after] = entry.layers;
+        const action = after.length > before.length ? 'Add layer' : after.length < before.length ? 'Remove layer' : 'Edit layers';
+        return blocks ? `${action} (${blocks})` : action;
+    }
+
+    return blocks;
+};
+
+/**
+ * Small top-down picture of a scene: the top block of every column, lighter when higher
+ * @param snapshot - Scene to draw
+ * @returns SVG string
+ */
+export const generateTopDownSVG = ({ voxels, gridSize }: SceneSnapshot): string => {
+    const cells: string[] = [];
+    buildColumnIndex(voxels).forEach(({ height, top }) => {
+        const shade = Math.round((height / MAX_LAYERS) * 80) - 20;
+        cells.push(`<rect x="${top.x}" y="${top.y}" width="1" height="1" fill="${adjustBrightness(top.color, shade)}"/>`);
+    });
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${gridSize} ${gridSize}" width="100%" height="100%" shape-rendering="crispEdges"><rect width="${gridSize}" height="${gridSize}" fill="#0f172a"/>${cells.join('')}</svg>`;
+};
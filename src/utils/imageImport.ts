@@ -0,0 +1,118 @@
+import type { ImageImportOptions, Voxel } from '../types/voxel';
+import { findNearestColor } from './colors';
+import { MAX_LAYERS, getVoxelKey } from './voxels';
+
+/**
+ * Image types the importer accepts
+ */
+export const IMAGE_IMPORT_TYPES = 'image/png,image/jpeg';
+
+// Pixels less opaque than this are treated as empty cells
+const ALPHA_THRESHOLD = 128;
+
+/**
+ * Size that fits an image into the grid, keeping its aspect ratio
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param gridSize - Cells per side
+ * @returns Size in cells, at least 1 by 1
+ */
+export const getFittedSize = (width: number, height: number, gridSize: number): { width: number; height: number } => {
+    const scale = gridSize / Math.max(width, height);
+    return {
+        width: Math.max(1, Math.min(gridSize, Math.round(width * scale))),
+        height: Math.max(1, Math.min(gridSize, Math.round(height * scale))),
+    };
+};
+
+/**
+ * Decode an image file and resample it to fit the grid, one pixel per cell.
+ * Everything happens locally; the file is never uploaded.
+ * Small images are scaled up without smoothing so pixel art stays crisp.
+ * @param file - PNG or JPG file
+ * @param gridSize - Cells per side
+ * @returns Resampled pixels
+ */
+export const readImageFile = async (file: File, gridSize: number): Promise<ImageData> => {
+    let bitmap: ImageBitmap;
+    try {
+        bitmap = await createImageBitmap(file);
+    } catch {
+        throw new Error('File is not a readable PNG or JPG image');
+    }
+
+    try {
+        const { width, height } = getFittedSize(bitmap.width, bitmap.height, gridSize);
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            throw new Error('Failed to get canvas context');
+        }
+
+        const downscaling = width < bitmap.width;
+        ctx.imageSmoothingEnabled = downscaling;
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(bitmap, 0, 0, width, height);
+
+        return ctx.getImageData(0, 0, width, height);
+    } finally {
+        bitmap.close();
+    }
+};
+
+/**
+ * Turn resampled pixels into blocks, centered on the grid
+ * @param image - Pixels, at most gridSize on each side
+ * @param gridSize - Cells per side
+ * @param options - Import options
+ * @returns Blocks without a layer
+ */
+export const imageToVoxels = (
+    image: Pick<ImageData, 'width' | 'height' | 'data'>,
+    gridSize: number,
+    options: ImageImportOptions
+): Map<string, Voxel> => {
+    const { mode, palette, invert, color } = options;
+    const maxHeight = Math.max(1, Math.min(MAX_LAYERS, options.maxHeight));
+    const offsetX = Math.floor((gridSize - image.width) / 2);
+    const offsetY = Math.floor((gridSize - image.height) / 2);
+    const voxels = new Map<string, Voxel>();
+    // Photos have many distinct colors; match each one only once
+    const nearest = new Map<number, string>();
+
+    for (let py = 0; py < image.height; py++) {
+        for (let px = 0; px < image.width; px++) {
+            const i = (py * image.width + px) * 4;
+            const [r, g, b, a] = [image.data[i], image.data[i + 1], image.data[i + 2], image.data[i + 3]];
+            if (a < ALPHA_THRESHOLD) {
+                continue;
+            }
+
+            const x = px + offsetX;
+            const y = py + offsetY;
+            const rgbKey = (r << 16) | (g << 8) | b;
+
+            let blockColor = (mode === 'heightmap' ? color : null) ?? nearest.get(rgbKey);
+            if (blockColor === undefined) {
+                blockColor = findNearestColor({ r, g, b }, palette);
+                nearest.set(rgbKey, blockColor);
+            }
+
+            if (mode === 'pixel-art') {
+                voxels.set(getVoxelKey(x, y, 0), { x, y, z: 0, color: blockColor });
+                continue;
+            }
+
+            const luma = (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+            const height = Math.round((invert ? 1 - luma : luma) * maxHeight);
+            for (let z = 0; z < height; z++) {
+                voxels.set(getVoxelKey(x, y, z), { x, y, z, color: blockColor });
+            }
+        }
+    }
+
+    return voxels;
+};
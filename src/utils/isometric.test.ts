@@ -0,0 +1,221 @@
+import { describe, expect, it } from 'vitest';
+import type { SceneSortMode, Voxel } from '../types/voxel';
+import { generateSceneSVG, gridToIsometric, rotateToView, sortVoxelsBackToFront } from './isometric';
+import { DEFAULT_LIGHTING } from './lighting';
+import { getVoxelKey } from './voxels';
+
+const block = (x: number, y: number, z: number): Voxel => ({ x, y, z, color: '#3B82F6' });
+
+const column = (x: number, y: number, height: number): Voxel[] => {
+    return Array.from({ length: height }, (_, z) => block(x, y, z));
+};
+
+const L_SHAPE = [block(0, 0, 0), block(1, 0, 0), block(2, 0, 0), block(0, 1, 0), block(0, 2, 0), block(0, 0, 1)];
+
+/**
+ * Screen corners of a face as sorted "x,y" pairs, rounded so path formatting doesn't matter
+ */
+const toOutline = (corners: [number, number][]): string => {
+    const round = (value: number) => Math.round(value * 10) / 10 + 0;
+    return corners.map(([x, y]) => `${round(x)},${round(y)}`).sort().join(' ');
+};
+
+/**
+ * Outline of a block face, given as "x,y,z type" in world space
+ */
+const faceOutline = (face: string, rotation: number): string => {
+    const [position, faceType] = face.split(' ');
+    const [worldX, worldY, worldZ] = position.split(',').map(Number);
+    const { x, y, z } = rotateToView(block(worldX, worldY, worldZ), rotation);
+    const corners: [number, number, number][] = faceType === 'top'
+        ? [[x, y, z + 1], [x + 1, y, z + 1], [x + 1, y + 1, z + 1], [x, y + 1, z + 1]]
+        : faceType === 'left'
+            ? [[x, y + 1, z + 1], [x + 1, y + 1, z + 1], [x + 1, y + 1, z], [x, y + 1, z]]
+            : [[x + 1, y, z + 1], [x + 1, y + 1, z + 1], [x + 1, y + 1, z], [x + 1, y, z]];
+    return toOutline(corners.map(([cx, cy, cz]) => {
+        const point = gridToIsometric(cx, cy, cz);
+        return [point.x, point.y];
+    }));
+};
+
+/**
+ * Outlines of the faces an SVG paints, in paint order
+ */
+const paintedOutlines = (svg: string): string[] => {
+    return Array.from(svg.matchAll(/<path d="([^"]*)"/g), (match) => {
+        const numbers = (match[1].match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+        const corners: [number, number][] = [];
+        for (let i = 0; i < numbers.length; i += 2) corners.push([numbers[i], numbers[i + 1]]);
+        return toOutline(corners);
+    });
+};
+
+/**
+ * Outlines of the faces a scene paints with per-voxel outlines, in paint order
+ */
+const paintOrder = (voxels: Voxel[], rotation: number, sort?: SceneSortMode): string[] => {
+    const map = new Map(voxels.map((voxel) => [getVoxelKey(voxel.x, voxel.y, voxel.z), voxel]));
+    return paintedOutlines(generateSceneSVG(map, DEFAULT_LIGHTING, rotation, { voxelOutlines: true, sort }));
+};
+
+/**
+ * Check that a scene paints exactly the given faces, in order
+ */
+const expectPaintOrder = (voxels: Voxel[], rotation: number, faces: string[]) => {
+    expect(paintOrder(voxels, rotation)).toEqual(faces.map((face) => faceOutline(face, rotation)));
+};
+
+describe('sortVoxelsBackToFront', () => {
+    it('paints by x + y + z, then bottom up, then along x', () => {
+        const voxels = [block(1, 0, 0), block(0, 0, 1), block(0, 1, 0), block(0, 0, 0)];
+        expect(sortVoxelsBackToFront(voxels)).toEqual([block(0, 0, 0), block(0, 1, 0), block(1, 0, 0), block(0, 0, 1)]);
+    });
+
+    it('weighs x and y alike on grids wider than 100', () => {
+        const voxels = [block(150, 0, 0), block(0, 149, 0), block(120, 20, 0)];
+        expect(sortVoxelsBackToFront(voxels)).toEqual([block(120, 20, 0), block(0, 149, 0), block(150, 0, 0)]);
+    });
+
+    it('does not depend on the input order', () => {
+        const voxels = [...column(0, 0, 3), ...column(1, 0, 2), ...column(0, 1, 1)];
+        expect(sortVoxelsBackToFront([...voxels].reverse())).toEqual(sortVoxelsBackToFront(voxels));
+    });
+});
+
+describe('generateSceneSVG paint order', () => {
+    it('paints a tall column behind a short one first', () => {
+        expectPaintOrder([...column(0, 0, 3), block(1, 1, 0)], 0, [
+            '0,0,0 right',
+            '0,0,0 left',
+            '0,0,1 right',
+            '0,0,1 left',
+            '0,0,2 right',
+            '1,1,0 right',
+            '0,0,2 left',
+            '1,1,0 left',
+            '0,0,2 top',
+            '1,1,0 top',
+        ]);
+    });
+
+    it('paints a short column behind a tall one first', () => {
+        expectPaintOrder([block(0, 0, 0), ...column(1, 1, 3)], 0, [
+            '0,0,0 right',
+            '0,0,0 left',
+            '0,0,0 top',
+            '1,1,0 right',
+            '1,1,0 left',
+            '1,1,1 right',
+            '1,1,1 left',
+            '1,1,2 right',
+            '1,1,2 left',
+            '1,1,2 top',
+        ]);
+    });
+
+    it('paints stacked columns of different heights side by side', () => {
+        const voxels = [...column(0, 0, 2), ...column(1, 0, 3), ...column(0, 1, 1)];
+        expectPaintOrder(voxels, 0, [
+            '1,0,0 right',
+            '0,1,0 right',
+            '0,0,1 left',
+            '1,0,0 left',
+            '0,1,0 left',
+            '0,0,1 top',
+            '0,1,0 top',
+            '1,0,1 right',
+            '1,0,1 left',
+            '1,0,2 right',
+            '1,0,2 left',
+            '1,0,2 top',
+        ]);
+    });
+
+    it('paints an L-shape with a raised corner', () => {
+        expectPaintOrder(L_SHAPE, 0, [
+            '0,1,0 right',
+            '0,0,1 right',
+            '1,0,0 left',
+            '0,0,1 left',
+            '1,0,0 top',
+            '0,1,0 top',
+            '0,0,1 top',
+            '2,0,0 right',
+            '0,2,0 right',
+            '2,0,0 left',
+            '0,2,0 left',
+            '2,0,0 top',
+            '0,2,0 top',
+        ]);
+    });
+
+    it('paints the L-shape in every rotated view', () => {
+        expectPaintOrder(L_SHAPE, 1, [
+            '0,2,0 left',
+            '0,2,0 top',
+            '0,1,0 left',
+            '0,1,0 top',
+            '0,0,0 right',
+            '1,0,0 right',
+            '0,0,1 right',
+            '0,0,1 left',
+            '1,0,0 top',
+            '0,0,1 top',
+            '2,0,0 right',
+            '2,0,0 left',
+            '2,0,0 top',
+        ]);
+        expectPaintOrder(L_SHAPE, 2, [
+            '0,2,0 right',
+            '2,0,0 left',
+            '2,0,0 top',
+            '0,2,0 top',
+            '0,1,0 right',
+            '1,0,0 left',
+            '1,0,0 top',
+            '0,1,0 top',
+            '0,0,0 right',
+            '0,0,0 left',
+            '0,0,1 right',
+            '0,0,1 left',
+            '0,0,1 top',
+        ]);
+        expectPaintOrder(L_SHAPE, 3, [
+            '2,0,0 right',
+            '2,0,0 top',
+            '1,0,0 right',
+            '1,0,0 top',
+            '0,0,0 left',
+            '0,0,1 right',
+            '0,1,0 left',
+            '0,0,1 left',
+            '0,1,0 top',
+            '0,0,1 top',
+            '0,2,0 right',
+            '0,2,0 left',
+            '0,2,0 top',
+        ]);
+    });
+
+    it('paints columns far out on a wide grid by depth', () => {
+        const voxels = [...column(120, 120, 2), block(121, 120, 0), block(120, 121, 0)];
+        expectPaintOrder(voxels, 0, [
+            '120,120,1 right',
+            '121,120,0 right',
+            '120,121,0 right',
+            '120,120,1 left',
+            '121,120,0 left',
+            '120,121,0 left',
+            '120,120,1 top',
+            '121,120,0 top',
+            '120,121,0 top',
+        ]);
+    });
+
+    it('agrees with the occlusion sort for unit faces', () => {
+        const voxels = [...column(0, 0, 3), ...column(1, 0, 1), ...column(0, 1, 2), ...column(2, 2, 2), block(1, 1, 0)];
+        [0, 1, 2, 3].forEach((rotation) => {
+            expect(paintOrder(voxels, rotation, 'depth')).toEqual(paintOrder(voxels, rotation, 'occlusion'));
+        });
+    });
+});
@@ -1,160 +1,695 @@
-import type { Voxel, IsometricCoords, VoxelFace } from '../types/voxel';
-import { adjustBrightness } from './colors';
+import type { Voxel, IsometricCoords, SceneOptions, Projection, ProjectedFace, ProjectedScene, Lighting, OcclusionQuad } from '../types/voxel';
+import { buildFaceQuads, getQuadCorners } from './mesh';
+import type { FaceDirection, FaceQuad } from './mesh';
+import { getVoxelLayerId } from './layers';
+import { OCCLUSION_OPACITY, getGroundShadowOpacity, getLightDirection, shadeFace, shadeShadow } from './lighting';
+import { createShadowCaster, getGroundShadow, getOcclusionStrips, getTopFaceShadow } from './shadows';
+import { getVoxelKey } from './voxels';
 
 /**
- * Isometric projection constants
+ * Space around the blocks and face edges used when SceneOptions leaves them out
  */
-const ISO_ANGLE = Math.PI / 6; // 30 degrees
-const ISO_SCALE = 20; // Scale factor for isometric projection
+export const DEFAULT_SCENE_PADDING = 40;
+export const DEFAULT_OUTLINE = { color: '#1e293b', width: 0.5 };
+
+/**
+ * True isometric projection (30 degrees) at 20 drawing units per block
+ */
+export const DEFAULT_PROJECTION: Projection = { angle: 30, scale: 20 };
 
 /**
  * Convert 2D grid coordinates to isometric coordinates
  * @param x - Grid X coordinate
  * @param y - Grid Y coordinate
  * @param z - Height (Z coordinate)
+ * @param projection - Projection angle and scale
  * @returns Isometric coordinates
  */
-export const gridToIsometric = (x: number, y: number, z: number = 0): IsometricCoords => {
-    const isoX = (x - y) * Math.cos(ISO_ANGLE) * ISO_SCALE;
-    const isoY = (x + y) * Math.sin(ISO_ANGLE) * ISO_SCALE - z * ISO_SCALE;
+export const gridToIsometric = (x: number, y: number, z: number = 0, projection: Projection = DEFAULT_PROJECTION): IsometricCoords => {
+    const angle = (projection.angle * Math.PI) / 180;
+    const isoX = (x - y) * Math.cos(angle) * projection.scale;
+    const isoY = (x + y) * Math.sin(angle) * projection.scale - z * projection.scale;
 
     return { x: isoX, y: isoY };
 };
 
 /**
- * Calculate lighting intensity based on angle and face orientation
- * @param lightingAngle - Global lighting angle in degrees
- * @param faceType - Type of face ('top', 'left', 'right')
- * @returns Brightness adjustment value
+ * Normalize a view rotation to 0-3 quarter turns
+ * @param rotation - View rotation in quarter turns
+ * @returns Rotation from 0 to 3
+ */
+export const normalizeRotation = (rotation: number): number => {
+    return ((Math.round(rotation) % 4) + 4) % 4;
+};
+
+/**
+ * Move a voxel from world space into the space of a rotated camera.
+ * Each quarter turn maps the cell (x, y) to (-y - 1, x), so cubes stay on integer cells.
+ * @param voxel - Voxel in world space
+ * @param rotation - View rotation in quarter turns
+ * @returns Voxel in view space
  */
-export const calculateLighting = (lightingAngle: number, faceType: 'top' | 'left' | 'right'): number => {
-    const angleRad = (lightingAngle * Math.PI) / 180;
+export const rotateToView = (voxel: Voxel, rotation: number): Voxel => {
+    const { x, y } = voxel;
 
-    switch (faceType) {
-        case 'top':
-            return 0; // Top face is brightest
-        case 'left':
-            return -20 + Math.sin(angleRad) * 10;
-        case 'right':
-            return -30 + Math.cos(angleRad) * 10;
+    switch (normalizeRotation(rotation)) {
+        case 1:
+            return { ...voxel, x: -y - 1, y: x };
+        case 2:
+            return { ...voxel, x: -x - 1, y: -y - 1 };
+        case 3:
+            return { ...voxel, x: y, y: -x - 1 };
         default:
-            return 0;
+            return voxel;
     }
 };
 
 /**
- * Generate SVG path for a single voxel face
- * @param voxel - Voxel data
- * @param faceType - Type of face to render
- * @param lightingAngle - Global lighting angle
- * @returns SVG path and fill color
- */
-export const generateVoxelFace = (
-    voxel: Voxel,
-    faceType: 'top' | 'left' | 'right',
-    lightingAngle: number
-): VoxelFace => {
-    const { x, y, height, color } = voxel;
-    const lighting = calculateLighting(lightingAngle, faceType);
-    const fill = adjustBrightness(color, lighting);
-
-    let path = '';
-
-    if (faceType === 'top') {
-        const p1 = gridToIsometric(x, y, height);
-        const p2 = gridToIsometric(x + 1, y, height);
-        const p3 = gridToIsometric(x + 1, y + 1, height);
-        const p4 = gridToIsometric(x, y + 1, height);
-
-        path = `M ${p1.x} ${p1.y} L ${p2.x} ${p2.y} L ${p3.x} ${p3.y} L ${p4.x} ${p4.y} Z`;
-    } else if (faceType === 'left') {
-        const p1 = gridToIsometric(x, y, height);
-        const p2 = gridToIsometric(x, y + 1, height);
-        const p3 = gridToIsometric(x, y + 1, 0);
-        const p4 = gridToIsometric(x, y, 0);
-
-        path = `M ${p1.x} ${p1.y} L ${p2.x} ${p2.y} L ${p3.x} ${p3.y} L ${p4.x} ${p4.y} Z`;
-    } else if (faceType === 'right') {
-        const p1 = gridToIsometric(x + 1, y, height);
-        const p2 = gridToIsometric(x + 1, y + 1, height);
-        const p3 = gridToIsometric(x + 1, y + 1, 0);
-        const p4 = gridToIsometric(x + 1, y, 0);
-
-        path = `M ${p1.x} ${p1.y} L ${p2.x} ${p2.y} L ${p3.x} ${p3.y} L ${p4.x} ${p4.y} Z`;
+ * Painter's-algorithm depth of a unit cube in view space.
+ * The camera looks down the (1, 1, 1) diagonal: a cube can only hide another cube
+ * that is behind it along every axis, so a larger x + y + z is always nearer and
+ * cubes with equal depth never overlap on screen.
+ * @param voxel - Voxel in view space
+ * @returns Depth, larger is nearer to the viewer
+ */
+export const getVoxelDepth = (voxel: Voxel): number => {
+    return voxel.x + voxel.y + voxel.z;
+};
+
+/**
+ * Sort view-space voxels into paint order (back to front).
+ * Ties are broken by z, then x, so the output is deterministic for any input order.
+ * @param voxels - Voxels in view space
+ * @returns New array in paint order
+ */
+export const sortVoxelsBackToFront = (voxels: Voxel[]): Voxel[] => {
+    return [...voxels].sort((a, b) => getVoxelDepth(a) - getVoxelDepth(b) || a.z - b.z || a.x - b.x);
+};
+
+type ViewFaceType = 'top' | 'left' | 'right';
+
+/**
+ * Face directions the camera can see in view space, in per-voxel paint order
+ */
+const VIEW_FACES: { direction: FaceDirection; faceType: ViewFaceType }[] = [
+    { direction: '+x', faceType: 'right' },
+    { direction: '+y', faceType: 'left' },
+    { direction: '+z', faceType: 'top' },
+];
+
+const FACE_TYPES = new Map(VIEW_FACES.map(({ direction, faceType }) => [direction, faceType]));
+
+/**
+ * Projected face ready to paint, with its 3D extent for ordering
+ */
+interface SceneFace {
+    quad: FaceQuad;
+    faceType: ViewFaceType;
+    points: IsometricCoords[];
+    fill: string;
+    /** Index of the face's layer, bottom first */
+    layer: number;
+    min: [number, number, number];
+    max: [number, number, number];
+    depth: number;
+    minX: number;
+    maxX: number;
+    minY: number;
+    maxY: number;
+}
+
+const EPSILON = 1e-6;
+
+/**
+ * Round a coordinate for compact SVG output
+ */
+const formatCoord = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Path data of a closed polygon
+ */
+const formatPolygon = (points: IsometricCoords[]): string => {
+    return `${points.map((point, index) => `${index === 0 ? 'M' : 'L'} ${formatCoord(point.x)} ${formatCoord(point.y)}`).join(' ')} Z`;
+};
+
+/**
+ * Vector of a linear gradient in the bounding box units of an occlusion strip: zero along
+ * the strip's corner edge and one along the opposite edge. Strips of the same shape share it.
+ * @param points - Strip corners; the first two on the corner
+ * @returns Start and end of the gradient, in fractions of the bounding box
+ */
+const getOcclusionGradient = (points: IsometricCoords[]): [x1: number, y1: number, x2: number, y2: number] => {
+    const xs = points.map((point) => point.x);
+    const ys = points.map((point) => point.y);
+    const minX = Math.min(...xs);
+    const minY = Math.min(...ys);
+    const width = Math.max(...xs) - minX || 1;
+    const height = Math.max(...ys) - minY || 1;
+
+    // The box is stretched to a unit square, so the gradient must run square to the edge there
+    const [start, end, , inner] = points;
+    const edgeX = (end.x - start.x) / width;
+    const edgeY = (end.y - start.y) / height;
+    const innerX = (inner.x - start.x) / width;
+    const innerY = (inner.y - start.y) / height;
+    const along = (innerX * edgeX + innerY * edgeY) / (edgeX * edgeX + edgeY * edgeY);
+    const x1 = (start.x - minX) / width;
+    const y1 = (start.y - minY) / height;
+    const round = (value: number) => Math.round(value * 10000) / 10000;
+
+    return [round(x1), round(y1), round(x1 + innerX - along * edgeX), round(y1 + innerY - along * edgeY)];
+};
+
+/**
+ * Escape text for use in an XML attribute
+ */
+const escapeXml = (value: string): string => {
+    return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+/**
+ * Key of the view-space cube a unit face quad belongs to
+ * @param quad - Unmerged face quad in view space
+ * @returns Voxel key
+ */
+const getQuadVoxelKey = ({ direction, plane, u0, v0 }: FaceQuad): string => {
+    if (direction === '+x') return getVoxelKey(plane - 1, u0, v0);
+    if (direction === '+y') return getVoxelKey(u0, plane - 1, v0);
+    return getVoxelKey(u0, v0, plane - 1);
+};
+
+/**
+ * Project a face quad into a paintable scene face
+ * @param quad - Face quad in view space
+ * @param faceType - Which visible side the quad is
+ * @param fill - Shaded fill color
+ * @param layer - Index of the quad's layer
+ * @param projection - Projection angle and scale
+ * @returns Scene face
+ */
+const toSceneFace = (quad: FaceQuad, faceType: ViewFaceType, fill: string, layer: number, projection: Projection): SceneFace => {
+    const corners = getQuadCorners(quad);
+    const points = corners.map(([x, y, z]) => gridToIsometric(x, y, z, projection));
+    const min: [number, number, number] = [Infinity, Infinity, Infinity];
+    const max: [number, number, number] = [-Infinity, -Infinity, -Infinity];
+
+    corners.forEach((corner) => {
+        for (let axis = 0; axis < 3; axis++) {
+            min[axis] = Math.min(min[axis], corner[axis]);
+            max[axis] = Math.max(max[axis], corner[axis]);
+        }
+    });
+
+    return {
+        quad,
+        faceType,
+        points,
+        fill,
+        layer,
+        min,
+        max,
+        depth: (min[0] + min[1] + min[2] + max[0] + max[1] + max[2]) / 2,
+        minX: Math.min(...points.map((point) => point.x)),
+        maxX: Math.max(...points.map((point) => point.x)),
+        minY: Math.min(...points.map((point) => point.y)),
+        maxY: Math.max(...points.map((point) => point.y)),
+    };
+};
+
+/**
+ * Check whether two convex polygons overlap with a non-zero area (separating axis test)
+ */
+const polygonsOverlap = (a: IsometricCoords[], b: IsometricCoords[]): boolean => {
+    // Extent of points along an axis, without allocating: this runs for every pair of nearby faces
+    const extent = (points: IsometricCoords[], nx: number, ny: number): [number, number] => {
+        let min = Infinity;
+        let max = -Infinity;
+        for (const point of points) {
+            const value = point.x * nx + point.y * ny;
+            if (value < min) min = value;
+            if (value > max) max = value;
+        }
+        return [min, max];
+    };
+
+    for (const polygon of [a, b]) {
+        for (let i = 0; i < polygon.length; i++) {
+            const p1 = polygon[i];
+            const p2 = polygon[(i + 1) % polygon.length];
+            const nx = p1.y - p2.y;
+            const ny = p2.x - p1.x;
+
+            const [minA, maxA] = extent(a, nx, ny);
+            const [minB, maxB] = extent(b, nx, ny);
+            if (maxA <= minB + EPSILON || maxB <= minA + EPSILON) {
+                return false;
+            }
+        }
     }
 
-    return { path, fill };
+    return true;
 };
 
 /**
- * Generate complete SVG for all voxels
- * @param voxels - Map of voxels
- * @param lightingAngle - Global lighting angle
- * @returns Complete SVG string
+ * Decide which of two overlapping faces is nearer.
+ * Faces of a voxel surface never cross, so an axis-aligned plane separates them;
+ * the face on the camera side of that plane (larger coordinate) is in front.
+ * @returns Negative when a is behind b, positive when a is in front
  */
-export const generateSceneSVG = (voxels: Map<string, Voxel>, lightingAngle: number): string => {
-    if (voxels.size === 0) {
-        return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400"></svg>';
+const compareOverlappingFaces = (a: SceneFace, b: SceneFace): number => {
+    for (let axis = 0; axis < 3; axis++) {
+        if (a.max[axis] <= b.min[axis]) return -1;
+        if (b.max[axis] <= a.min[axis]) return 1;
+    }
+
+    return a.depth - b.depth;
+};
+
+interface FaceHeap {
+    push: (index: number) => void;
+    pop: () => number;
+    peek: () => number;
+    size: () => number;
+}
+
+/**
+ * Binary min-heap of face indices
+ * @param less - Comparison, negative when the first index comes first
+ * @returns Heap
+ */
+const createFaceHeap = (less: (a: number, b: number) => number): FaceHeap => {
+    const heap: number[] = [];
+
+    return {
+        push: (index) => {
+            heap.push(index);
+            let child = heap.length - 1;
+            while (child > 0) {
+                const parent = (child - 1) >> 1;
+                if (less(heap[parent], heap[child]) <= 0) break;
+                [heap[parent], heap[child]] = [heap[child], heap[parent]];
+                child = parent;
+            }
+        },
+        pop: () => {
+            const top = heap[0];
+            const last = heap.pop() as number;
+            if (heap.length > 0) {
+                heap[0] = last;
+                let parent = 0;
+                while (true) {
+                    const left = parent * 2 + 1;
+                    const right = left + 1;
+                    let smallest = parent;
+                    if (left < heap.length && less(heap[left], heap[smallest]) < 0) smallest = left;
+                    if (right < heap.length && less(heap[right], heap[smallest]) < 0) smallest = right;
+                    if (smallest === parent) break;
+                    [heap[parent], heap[smallest]] = [heap[smallest], heap[parent]];
+                    parent = smallest;
+                }
+            }
+            return top;
+        },
+        peek: () => heap[0],
+        size: () => heap.length,
+    };
+};
+
+/**
+ * Order faces of any size back to front.
+ * Builds "paint before" edges between faces that overlap on screen and sorts them topologically,
+ * preferring farther faces first while keeping each layer's faces together wherever occlusion
+ * allows; any cycle is broken at its farthest face.
+ * @param faces - Scene faces
+ * @returns Faces in paint order
+ */
+const sortFacesBackToFront = (faces: SceneFace[]): SceneFace[] => {
+    const count = faces.length;
+    const before: number[][] = faces.map(() => []);
+    const blockers = new Array<number>(count).fill(0);
+
+    // Bucket faces by screen cell so only faces sharing a cell are compared. Cells are about
+    // the size of an average face; large merged faces fall into every cell they cover
+    let totalSize = 0;
+    faces.forEach((face) => {
+        totalSize += Math.max(face.maxX - face.minX, face.maxY - face.minY);
+    });
+    const cellSize = Math.max(totalSize / Math.max(1, count), EPSILON);
+    const cells = new Map<string, number[]>();
+    const cellRanges = faces.map((face, index) => {
+        const range = [
+            Math.floor(face.minX / cellSize),
+            Math.floor(face.maxX / cellSize),
+            Math.floor(face.minY / cellSize),
+            Math.floor(face.maxY / cellSize),
+        ];
+        for (let cellX = range[0]; cellX <= range[1]; cellX++) {
+            for (let cellY = range[2]; cellY <= range[3]; cellY++) {
+                const key = `${cellX},${cellY}`;
+                const cell = cells.get(key);
+                if (cell) {
+                    cell.push(index);
+                } else {
+                    cells.set(key, [index]);
+                }
+            }
+        }
+        return range;
+    });
+
+    // Faces sharing several cells are compared once: lastCompared[j] holds the last i compared with j
+    const lastCompared = new Array<number>(count).fill(-1);
+    faces.forEach((a, i) => {
+        const [fromX, toX, fromY, toY] = cellRanges[i];
+        for (let cellX = fromX; cellX <= toX; cellX++) {
+            for (let cellY = fromY; cellY <= toY; cellY++) {
+                (cells.get(`${cellX},${cellY}`) as number[]).forEach((j) => {
+                    if (j <= i || lastCompared[j] === i) return;
+                    lastCompared[j] = i;
+
+                    const b = faces[j];
+                    if (b.minX >= a.maxX - EPSILON || a.minX >= b.maxX - EPSILON) return;
+                    if (b.minY >= a.maxY - EPSILON || a.minY >= b.maxY - EPSILON) return;
+                    if (!polygonsOverlap(a.points, b.points)) return;
+
+                    const [back, front] = compareOverlappingFaces(a, b) < 0 ? [i, j] : [j, i];
+                    before[back].push(front);
+                    blockers[front]++;
+                });
+            }
+        }
+    });
+
+    // Kahn's algorithm with a depth-keyed min-heap per layer. Stay on one layer while it has
+    // faces ready to paint, then continue with the layer holding the farthest ready face
+    const less = (a: number, b: number) => faces[a].depth - faces[b].depth || a - b;
+    const heaps = new Map<number, FaceHeap>();
+    const push = (index: number) => {
+        const { layer } = faces[index];
+        let heap = heaps.get(layer);
+        if (!heap) {
+            heap = createFaceHeap(less);
+            heaps.set(layer, heap);
+        }
+        heap.push(index);
+    };
+
+    const placed = new Array<boolean>(count).fill(false);
+    const sorted: SceneFace[] = [];
+    let currentLayer = -1;
+    blockers.forEach((blockerCount, index) => {
+        if (blockerCount === 0) push(index);
+    });
+
+    while (sorted.length < count) {
+        let heap = heaps.get(currentLayer);
+        if (!heap || heap.size() === 0) {
+            heap = undefined;
+            heaps.forEach((candidate, layer) => {
+                if (candidate.size() > 0 && (!heap || less(candidate.peek(), heap.peek()) < 0)) {
+                    heap = candidate;
+                    currentLayer = layer;
+                }
+            });
+        }
+
+        if (!heap) {
+            let farthest = -1;
+            for (let index = 0; index < count; index++) {
+                if (!placed[index] && (farthest < 0 || less(index, farthest) < 0)) farthest = index;
+            }
+            blockers[farthest] = 0;
+            push(farthest);
+            continue;
+        }
+
+        const index = heap.pop();
+        if (placed[index]) continue;
+        placed[index] = true;
+        sorted.push(faces[index]);
+
+        before[index].forEach((next) => {
+            blockers[next]--;
+            if (blockers[next] === 0 && !placed[next]) push(next);
+        });
+    }
+
+    return sorted;
+};
+
+/**
+ * Project voxels into shaded faces in paint order.
+ * Faces hidden by a neighbouring voxel are culled, and unless per-voxel outlines are
+ * requested, touching coplanar faces of the same color are merged into single polygons.
+ * With layers, voxels of hidden layers are skipped. When the light casts shadows, they are
+ * returned for the ground and for each top face they fall on; with ambient occlusion, faces
+ * get strips along their inner corners.
+ * @param voxels - Voxels in world space, at most one per position
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns
+ * @param options - Rendering options; padding, outline and decorateFace don't apply here
+ * @returns Faces in paint order and their extent
+ */
+export const projectScene = (
+    voxels: Iterable<Voxel>,
+    lighting: Lighting,
+    rotation: number = 0,
+    options: SceneOptions = {}
+): ProjectedScene => {
+    const layers = options.layers?.length ? options.layers : undefined;
+    const layerIndex = new Map(layers?.map((layer, index) => [layer.id, index]));
+    const projection = options.projection ?? DEFAULT_PROJECTION;
+    const viewVoxels: Voxel[] = [];
+    // World-space cube behind each view-space position, for unmerged faces
+    const worldVoxels = new Map<string, Voxel>();
+    const merge = !options.voxelOutlines;
+
+    for (const voxel of voxels) {
+        const layer = layers ? getVoxelLayerId(voxel, layers) : undefined;
+        if (layers && !layers[layerIndex.get(layer as string) as number].visible) {
+            continue;
+        }
+        const viewVoxel = { ...rotateToView(voxel, rotation), layer };
+        viewVoxels.push(viewVoxel);
+        if (!merge) {
+            worldVoxels.set(getVoxelKey(viewVoxel.x, viewVoxel.y, viewVoxel.z), voxel);
+        }
+    }
+
+    if (viewVoxels.length === 0) {
+        return { faces: [], groundShadow: null, bounds: null };
     }
 
-    // Sort voxels for proper z-ordering (back to front, bottom to top)
-    const sortedVoxels = Array.from(voxels.values()).sort((a, b) => {
-        const orderA = a.y + a.x * 100;
-        const orderB = b.y + b.x * 100;
-        return orderA - orderB;
+    const quads = buildFaceQuads(viewVoxels, VIEW_FACES.map((face) => face.direction), merge);
+
+    const fills = new Map<string, string>();
+    const sceneFaces = quads.map((quad) => {
+        const faceType = FACE_TYPES.get(quad.direction) as ViewFaceType;
+        const fillKey = `${faceType}|${quad.color}`;
+        let fill = fills.get(fillKey);
+        if (!fill) {
+            fill = shadeFace(quad.color, faceType, lighting, rotation);
+            fills.set(fillKey, fill);
+        }
+        return toSceneFace(quad, faceType, fill, quad.layer ? layerIndex.get(quad.layer) ?? 0 : 0, projection);
     });
 
-    const faces: string[] = [];
+    // In true isometric a unit face's minimum corner sum is its voxel's depth plus one, so
+    // unit faces can use the per-voxel order; merged faces span many depths, other projection
+    // angles look along another diagonal, and faces of several layers should be kept together,
+    // so those need a full occlusion sort
+    const sort = options.sort ?? 'auto';
+    const multipleLayers = sceneFaces.some((face) => face.layer !== sceneFaces[0].layer);
+    let orderedFaces = sceneFaces;
+    if (sort === 'occlusion' || (sort === 'auto' && (merge || multipleLayers || projection.angle !== DEFAULT_PROJECTION.angle))) {
+        orderedFaces = sortFacesBackToFront(sceneFaces);
+    } else if (sort !== 'none') {
+        orderedFaces = sceneFaces
+            .map((face, index) => ({ face, index, depth: face.min[0] + face.min[1] + face.min[2] }))
+            .sort((a, b) => a.depth - b.depth || a.index - b.index)
+            .map(({ face }) => face);
+    }
+
     let minX = Infinity;
     let minY = Infinity;
     let maxX = -Infinity;
     let maxY = -Infinity;
 
-    // Generate all faces and calculate bounds
-    sortedVoxels.forEach((voxel) => {
-        // Calculate all corner points for this voxel to find bounds
-        const corners = [
-            gridToIsometric(voxel.x, voxel.y, voxel.height),
-            gridToIsometric(voxel.x + 1, voxel.y, voxel.height),
-            gridToIsometric(voxel.x + 1, voxel.y + 1, voxel.height),
-            gridToIsometric(voxel.x, voxel.y + 1, voxel.height),
-            gridToIsometric(voxel.x, voxel.y, 0),
-            gridToIsometric(voxel.x + 1, voxel.y, 0),
-            gridToIsometric(voxel.x + 1, voxel.y + 1, 0),
-            gridToIsometric(voxel.x, voxel.y + 1, 0),
-        ];
+    const caster = lighting.shadows ? createShadowCaster(viewVoxels, getLightDirection(lighting, rotation)) : null;
+    const occupied = lighting.ambientOcclusion
+        ? new Set(viewVoxels.map((voxel) => getVoxelKey(voxel.x, voxel.y, voxel.z)))
+        : undefined;
+    const toPlane = (z: number) => ([x, y]: [number, number]) => gridToIsometric(x, y, z, projection);
 
-        corners.forEach(corner => {
-            minX = Math.min(minX, corner.x);
-            minY = Math.min(minY, corner.y);
-            maxX = Math.max(maxX, corner.x);
-            maxY = Math.max(maxY, corner.y);
+    let groundShadow: ProjectedScene['groundShadow'] = null;
+    if (caster) {
+        const polygons = getGroundShadow(caster).map((polygon) => polygon.map(toPlane(0)));
+        polygons.flat().forEach((point) => {
+            minX = Math.min(minX, point.x);
+            minY = Math.min(minY, point.y);
+            maxX = Math.max(maxX, point.x);
+            maxY = Math.max(maxY, point.y);
         });
+        groundShadow = { polygons, opacity: getGroundShadowOpacity(lighting) };
+    }
+
+    const faces = orderedFaces.map((face): ProjectedFace => {
+        minX = Math.min(minX, face.minX);
+        minY = Math.min(minY, face.minY);
+        maxX = Math.max(maxX, face.maxX);
+        maxY = Math.max(maxY, face.maxY);
+
+        const projected: ProjectedFace = {
+            points: face.points,
+            fill: face.fill,
+            color: face.quad.color,
+            faceType: face.faceType,
+            layer: face.layer,
+            voxel: merge ? undefined : worldVoxels.get(getQuadVoxelKey(face.quad)),
+        };
+
+        if (caster && face.faceType === 'top') {
+            const polygons = getTopFaceShadow(caster, face.quad);
+            if (polygons.length > 0) {
+                projected.shadow = {
+                    polygons: polygons.map((polygon) => polygon.map(toPlane(face.quad.plane))),
+                    fill: shadeShadow(face.quad.color, lighting),
+                };
+            }
+        }
+        if (occupied) {
+            const strips = getOcclusionStrips(face.quad, occupied);
+            if (strips.length > 0) {
+                projected.occlusion = strips.map(({ corners }): OcclusionQuad => ({
+                    points: corners.map(([x, y, z]) => gridToIsometric(x, y, z, projection)),
+                    opacity: OCCLUSION_OPACITY,
+                }));
+            }
+        }
+
+        return projected;
+    });
+
+    return { faces, groundShadow, bounds: { minX, minY, maxX, maxY } };
+};
+
+/**
+ * Generate complete SVG for all voxels, from the faces of projectScene.
+ * With layers, each layer is wrapped in a `<g>` whose id is the layer id; when another
+ * layer's faces must be painted in between, the layer continues in further groups with
+ * ids suffixed `-2`, `-3`, and so on.
+ * @param voxels - Map of voxels
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns
+ * @param options - Rendering options
+ * @returns Complete SVG string
+ */
+export const generateSceneSVG = (
+    voxels: Map<string, Voxel>,
+    lighting: Lighting,
+    rotation: number = 0,
+    options: SceneOptions = {}
+): string => {
+    const layers = options.layers?.length ? options.layers : undefined;
+    const { faces: projectedFaces, groundShadow, bounds } = projectScene(voxels.values(), lighting, rotation, options);
 
-        // Right face
-        const rightFace = generateVoxelFace(voxel, 'right', lightingAngle);
-        faces.push(`<path d="${rightFace.path}" fill="${rightFace.fill}" stroke="#1e293b" stroke-width="0.5"/>`);
+    if (!bounds) {
+        return '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 400"></svg>';
+    }
 
-        // Left face
-        const leftFace = generateVoxelFace(voxel, 'left', lightingAngle);
-        faces.push(`<path d="${leftFace.path}" fill="${leftFace.fill}" stroke="#1e293b" stroke-width="0.5"/>`);
+    const outline = options.outline === undefined ? DEFAULT_OUTLINE : options.outline;
+    const stroke = outline ? ` stroke="${escapeXml(outline.color)}" stroke-width="${formatCoord(outline.width)}"` : '';
+    const idPrefix = options.idPrefix ?? '';
 
-        // Top face
-        const topFace = generateVoxelFace(voxel, 'top', lightingAngle);
-        faces.push(`<path d="${topFace.path}" fill="${topFace.fill}" stroke="#1e293b" stroke-width="0.5"/>`);
+    // Occlusion gradients by vector and opacity
+    const gradients = new Map<string, string>();
+    const getGradientId = (points: IsometricCoords[], opacity: number): string => {
+        const [x1, y1, x2, y2] = getOcclusionGradient(points);
+        const key = `${x1} ${y1} ${x2} ${y2} ${opacity}`;
+        let id = gradients.get(key);
+        if (!id) {
+            id = `${idPrefix}ao-${gradients.size + 1}`;
+            gradients.set(key, id);
+        }
+        return id;
+    };
+
+    // Each face is followed by its cast shadow and occlusion, which lie inside it
+    const faces = projectedFaces.map((face) => {
+        const path = formatPolygon(face.points);
+        const children = options.decorateFace?.({ color: face.color, faceType: face.faceType, voxel: face.voxel });
+        const paths = [
+            children
+                ? `<path d="${path}" fill="${face.fill}"${stroke}>${children}</path>`
+                : `<path d="${path}" fill="${face.fill}"${stroke}/>`,
+        ];
+        if (face.shadow) {
+            paths.push(`<path d="${face.shadow.polygons.map(formatPolygon).join(' ')}" fill="${face.shadow.fill}"/>`);
+        }
+        face.occlusion?.forEach(({ points, opacity }) => {
+            paths.push(`<path d="${formatPolygon(points)}" fill="url(#${escapeXml(getGradientId(points, opacity))})"/>`);
+        });
+        return paths.join('\n    ');
     });
 
     // Calculate viewBox with padding
-    const padding = 40;
-    const width = maxX - minX + padding * 2;
-    const height = maxY - minY + padding * 2;
-    const viewBoxX = minX - padding;
-    const viewBoxY = minY - padding;
-
-    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBoxX} ${viewBoxY} ${width} ${height}" preserveAspectRatio="xMidYMid meet">
-  <g>
+    const padding = options.padding ?? DEFAULT_SCENE_PADDING;
+    const width = bounds.maxX - bounds.minX + padding * 2;
+    const height = bounds.maxY - bounds.minY + padding * 2;
+    const viewBoxX = bounds.minX - padding;
+    const viewBoxY = bounds.minY - padding;
+
+    let groups = `  <g>
     ${faces.join('\n    ')}
+  </g>`;
+
+    if (layers) {
+        // Split the paint order into runs of one layer each
+        const runs: { layer: number; paths: string[] }[] = [];
+        projectedFaces.forEach((face, index) => {
+            const last = runs[runs.length - 1];
+            if (last && last.layer === face.layer) {
+                last.paths.push(faces[index]);
+            } else {
+                runs.push({ layer: face.layer, paths: [faces[index]] });
+            }
+        });
+
+        const runCounts = new Map<number, number>();
+        groups = runs.map(({ layer, paths }) => {
+            const count = (runCounts.get(layer) ?? 0) + 1;
+            runCounts.set(layer, count);
+            const { id, name } = layers[layer];
+            return `  <g id="${escapeXml(count > 1 ? `${id}-${count}` : id)}" data-name="${escapeXml(name)}">
+    ${paths.join('\n    ')}
+  </g>`;
+        }).join('\n');
+    }
+
+    // The ground shadow is one path, so where shadows overlap they don't darken twice
+    if (groundShadow) {
+        groups = `  <g data-name="Ground shadow">
+    <path d="${groundShadow.polygons.map(formatPolygon).join(' ')}" fill="#000000" fill-opacity="${formatCoord(groundShadow.opacity)}"/>
   </g>
+${groups}`;
+    }
+
+    if (gradients.size > 0) {
+        const definitions = Array.from(gradients, ([key, id]) => {
+            const [x1, y1, x2, y2, opacity] = key.split(' ');
+            return `    <linearGradient id="${escapeXml(id)}" x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}">
+      <stop offset="0" stop-color="#000000" stop-opacity="${opacity}"/>
+      <stop offset="1" stop-color="#000000" stop-opacity="0"/>
+    </linearGradient>`;
+        });
+        groups = `  <defs>
+${definitions.join('\n')}
+  </defs>
+${groups}`;
+    }
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${formatCoord(viewBoxX)} ${formatCoord(viewBoxY)} ${formatCoord(width)} ${formatCoord(height)}" preserveAspectRatio="xMidYMid meet">
+${groups}
 </svg>`;
 };
 
@@ -0,0 +1,61 @@
+import type { Voxel, VoxelLayer } from '../types/voxel';
+
+/**
+ * Create a layer with default flags
+ * @param id - Layer id
+ * @param name - Display name
+ * @returns Visible, unlocked layer
+ */
+export const createLayer = (id: string, name: string): VoxelLayer => ({
+    id,
+    name,
+    visible: true,
+    locked: false,
+});
+
+/**
+ * Layer list of a new project
+ */
+export const createDefaultLayers = (): VoxelLayer[] => [createLayer('layer-1', 'Layer 1')];
+
+/**
+ * Next free `layer-N` id
+ * @param layers - Existing layers
+ * @returns Unused layer id
+ */
+export const createLayerId = (layers: VoxelLayer[]): string => {
+    const used = layers.map((layer) => Number(/^layer-(\d+)$/.exec(layer.id)?.[1] ?? 0));
+    return `layer-${Math.max(0, ...used) + 1}`;
+};
+
+/**
+ * Id of the layer a voxel belongs to, falling back to the bottom layer
+ * for voxels without a layer or with an unknown one
+ * @param voxel - Voxel
+ * @param layers - Layers bottom to top
+ * @returns Layer id
+ */
+export const getVoxelLayerId = (voxel: Voxel, layers: VoxelLayer[]): string => {
+    return voxel.layer && layers.some((layer) => layer.id === voxel.layer) ? voxel.layer : layers[0]?.id ?? '';
+};
+
+/**
+ * Keep only the voxels of visible layers
+ * @param voxels - All voxels
+ * @param layers - Layers bottom to top
+ * @returns Map of visible voxels (the same map when every layer is visible)
+ */
+export const getVisibleVoxels = (voxels: Map<string, Voxel>, layers: VoxelLayer[]): Map<string, Voxel> => {
+    if (layers.every((layer) => layer.visible)) {
+        return voxels;
+    }
+
+    const visible = new Set(layers.filter((layer) => layer.visible).map((layer) => layer.id));
+    const result = new Map<string, Voxel>();
+    voxels.forEach((voxel, key) => {
+        if (visible.has(getVoxelLayerId(voxel, layers))) {
+            result.set(key, voxel);
+        }
+    });
+    return result;
+};
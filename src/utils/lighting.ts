@@ -0,0 +1,105 @@
+import type { Lighting } from '../types/voxel';
+import { shadeColor } from './colors';
+
+/**
+ * Light of new projects: white, from the front left and fairly high, so the top and
+ * the two visible sides of a block get three distinct shades. Shadows and occlusion are opt-in
+ */
+export const DEFAULT_LIGHTING: Lighting = {
+    azimuth: 60,
+    elevation: 55,
+    ambient: 0.35,
+    color: '#ffffff',
+    shadows: false,
+    ambientOcclusion: false,
+};
+
+/**
+ * Opacity of ambient occlusion at the corner edge, fading to nothing across the strip
+ */
+export const OCCLUSION_OPACITY = 0.35;
+
+/**
+ * Limits of the light elevation in degrees
+ */
+export const MIN_LIGHT_ELEVATION = 0;
+export const MAX_LIGHT_ELEVATION = 90;
+
+type FaceType = 'top' | 'left' | 'right';
+
+/**
+ * Outward normals of the visible faces in view space: right faces look along +x, left faces along +y
+ */
+const FACE_NORMALS: Record<FaceType, [number, number, number]> = {
+    top: [0, 0, 1],
+    left: [0, 1, 0],
+    right: [1, 0, 0],
+};
+
+/**
+ * Unit vector pointing from the scene towards the light, in view space
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns; the light stays fixed in the world
+ *                   while the camera turns, so it turns the other way in view space
+ * @returns Direction as [x, y, z]
+ */
+export const getLightDirection = (lighting: Lighting, rotation: number = 0): [number, number, number] => {
+    const azimuth = ((lighting.azimuth + Math.round(rotation) * 90) * Math.PI) / 180;
+    const elevation = (lighting.elevation * Math.PI) / 180;
+
+    return [
+        Math.cos(elevation) * Math.cos(azimuth),
+        Math.cos(elevation) * Math.sin(azimuth),
+        Math.sin(elevation),
+    ];
+};
+
+/**
+ * Direct light reaching a face by Lambert's cosine law
+ * @param lighting - Scene light
+ * @param faceType - Type of face ('top', 'left', 'right')
+ * @param rotation - View rotation in quarter turns
+ * @returns Share of the direct light, 0 for faces turned away from it up to 1 for faces facing it
+ */
+export const calculateLighting = (lighting: Lighting, faceType: FaceType, rotation: number = 0): number => {
+    const light = getLightDirection(lighting, rotation);
+    const normal = FACE_NORMALS[faceType];
+
+    return Math.max(0, normal[0] * light[0] + normal[1] * light[1] + normal[2] * light[2]);
+};
+
+/**
+ * Fill color of a block face under the scene light
+ * @param color - Block color
+ * @param faceType - Type of face ('top', 'left', 'right')
+ * @param lighting - Scene light
+ * @param rotation - View rotation in quarter turns
+ * @returns Shaded hex color
+ */
+export const shadeFace = (color: string, faceType: FaceType, lighting: Lighting, rotation: number = 0): string => {
+    const diffuse = (1 - lighting.ambient) * calculateLighting(lighting, faceType, rotation);
+    return shadeColor(color, lighting.ambient, diffuse, lighting.color);
+};
+
+/**
+ * Fill color of the part of a top face in cast shadow, which only ambient light reaches
+ * @param color - Block color
+ * @param lighting - Scene light
+ * @returns Shaded hex color
+ */
+export const shadeShadow = (color: string, lighting: Lighting): string => {
+    return shadeColor(color, lighting.ambient, 0, lighting.color);
+};
+
+/**
+ * Opacity of black that darkens a lit horizontal surface as much as a cast shadow would,
+ * for shadows on the ground, whose color is unknown
+ * @param lighting - Scene light
+ * @returns Opacity, 0-1
+ */
+export const getGroundShadowOpacity = (lighting: Lighting): number => {
+    const direct = (1 - lighting.ambient) * calculateLighting(lighting, 'top');
+    const total = lighting.ambient + direct;
+    // Same cube-root dimming as shadeColor
+    return total > 0 ? 1 - Math.cbrt(lighting.ambient / total) : 0;
+};
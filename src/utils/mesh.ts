@@ -0,0 +1,162 @@
+import type { Voxel } from '../types/voxel';
+import { getVoxelKey } from './voxels';
+
+/**
+ * Outward direction of a cube face
+ */
+export type FaceDirection = '+x' | '-x' | '+y' | '-y' | '+z' | '-z';
+
+/**
+ * Axis-aligned rectangle of cube faces sharing a plane, direction, color and layer.
+ * `u` and `v` are the two in-plane axes: (y, z) for x faces, (x, z) for y faces, (x, y) for z faces.
+ */
+export interface FaceQuad {
+    direction: FaceDirection;
+    /** Coordinate of the plane along the face normal */
+    plane: number;
+    color: string;
+    layer?: string;
+    u0: number;
+    u1: number;
+    v0: number;
+    v1: number;
+}
+
+type Axis = 0 | 1 | 2;
+
+const DIRECTION_AXES: Record<FaceDirection, { axis: Axis; sign: 1 | -1 }> = {
+    '+x': { axis: 0, sign: 1 },
+    '-x': { axis: 0, sign: -1 },
+    '+y': { axis: 1, sign: 1 },
+    '-y': { axis: 1, sign: -1 },
+    '+z': { axis: 2, sign: 1 },
+    '-z': { axis: 2, sign: -1 },
+};
+
+/**
+ * In-plane axes for faces whose normal is along the given axis
+ */
+const PLANE_AXES: Record<Axis, [Axis, Axis]> = {
+    0: [1, 2],
+    1: [0, 2],
+    2: [0, 1],
+};
+
+/**
+ * Axes of a face direction
+ * @param direction - Outward face direction
+ * @returns Normal axis and sign, and the in-plane u and v axes, as indices into [x, y, z]
+ */
+export const getFaceAxes = (direction: FaceDirection): { axis: Axis; sign: 1 | -1; uAxis: Axis; vAxis: Axis } => {
+    const { axis, sign } = DIRECTION_AXES[direction];
+    const [uAxis, vAxis] = PLANE_AXES[axis];
+    return { axis, sign, uAxis, vAxis };
+};
+
+/**
+ * Corner coordinates of a face quad, in the same winding for every direction
+ * @param quad - Face quad
+ * @returns Four corners as [x, y, z]
+ */
+export const getQuadCorners = (quad: FaceQuad): [number, number, number][] => {
+    const { axis, uAxis, vAxis } = getFaceAxes(quad.direction);
+
+    const corner = (u: number, v: number): [number, number, number] => {
+        const point: [number, number, number] = [0, 0, 0];
+        point[axis] = quad.plane;
+        point[uAxis] = u;
+        point[vAxis] = v;
+        return point;
+    };
+
+    return [
+        corner(quad.u0, quad.v1),
+        corner(quad.u1, quad.v1),
+        corner(quad.u1, quad.v0),
+        corner(quad.u0, quad.v0),
+    ];
+};
+
+/**
+ * Collect the exposed faces of a voxel set, optionally merging coplanar neighbours of the same color and layer.
+ * A face is exposed when no voxel occupies the cell it faces.
+ * @param voxels - Voxels to mesh
+ * @param directions - Face directions to include
+ * @param merge - Merge adjacent same-colored faces into rectangles
+ * @returns Face quads
+ */
+export const buildFaceQuads = (voxels: Voxel[], directions: FaceDirection[], merge: boolean): FaceQuad[] => {
+    const occupied = new Set(voxels.map((voxel) => getVoxelKey(voxel.x, voxel.y, voxel.z)));
+    const quads: FaceQuad[] = [];
+
+    directions.forEach((direction) => {
+        const { axis, sign } = DIRECTION_AXES[direction];
+        const [uAxis, vAxis] = PLANE_AXES[axis];
+        // Exposed cells grouped by plane, color and layer: "plane|color|layer" -> "u,v" set
+        const groups = new Map<string, { plane: number; color: string; layer?: string; cells: Set<string> }>();
+
+        voxels.forEach((voxel) => {
+            const position = [voxel.x, voxel.y, voxel.z];
+            const neighbour = [...position];
+            neighbour[axis] += sign;
+
+            if (occupied.has(getVoxelKey(neighbour[0], neighbour[1], neighbour[2]))) {
+                return;
+            }
+
+            const plane = sign > 0 ? position[axis] + 1 : position[axis];
+            const u = position[uAxis];
+            const v = position[vAxis];
+
+            if (!merge) {
+                quads.push({ direction, plane, color: voxel.color, layer: voxel.layer, u0: u, u1: u + 1, v0: v, v1: v + 1 });
+                return;
+            }
+
+            const groupKey = `${plane}|${voxel.color}|${voxel.layer ?? ''}`;
+            let group = groups.get(groupKey);
+            if (!group) {
+                group = { plane, color: voxel.color, layer: voxel.layer, cells: new Set() };
+                groups.set(groupKey, group);
+            }
+            group.cells.add(`${u},${v}`);
+        });
+
+        groups.forEach(({ plane, color, layer, cells }) => {
+            // Greedy meshing: grow each rectangle along u, then along v while whole rows are free
+            const ordered = Array.from(cells, (cell) => cell.split(',').map(Number))
+                .sort((a, b) => a[1] - b[1] || a[0] - b[0]);
+            const used = new Set<string>();
+            const isFree = (u: number, v: number) => cells.has(`${u},${v}`) && !used.has(`${u},${v}`);
+
+            ordered.forEach(([u0, v0]) => {
+                if (used.has(`${u0},${v0}`)) {
+                    return;
+                }
+
+                let u1 = u0 + 1;
+                while (isFree(u1, v0)) u1++;
+
+                let v1 = v0 + 1;
+                while (true) {
+                    let rowFree = true;
+                    for (let u = u0; u < u1 && rowFree; u++) {
+                        rowFree = isFree(u, v1);
+                    }
+                    if (!rowFree) break;
+                    v1++;
+                }
+
+                for (let v = v0; v < v1; v++) {
+                    for (let u = u0; u < u1; u++) {
+                        used.add(`${u},${v}`);
+                    }
+                }
+
+                quads.push({ direction, plane, color, layer, u0, u1, v0, v1 });
+            });
+        });
+    });
+
+    return quads;
+};
@@ -0,0 +1,293 @@
+import type { Voxel } from '../types/voxel';
+import { hexToRgb } from './colors';
+import { downloadBlob } from './download';
+import { buildFaceQuads, getQuadCorners } from './mesh';
+import type { FaceDirection } from './mesh';
+
+const ALL_DIRECTIONS: FaceDirection[] = ['+x', '-x', '+y', '-y', '+z', '-z'];
+
+/**
+ * Outward normal of each face direction in model space. Models are Y-up and right-handed:
+ * grid x stays X, height (z) becomes Y and grid rows (y) become Z.
+ */
+const MODEL_NORMALS: Record<FaceDirection, [number, number, number]> = {
+    '+x': [1, 0, 0],
+    '-x': [-1, 0, 0],
+    '+y': [0, 0, 1],
+    '-y': [0, 0, -1],
+    '+z': [0, 1, 0],
+    '-z': [0, -1, 0],
+};
+
+/**
+ * Triangles of one color, ready for a mesh primitive
+ */
+interface MeshGroup {
+    color: string;
+    /** Three numbers per vertex */
+    positions: number[];
+    /** Three numbers per vertex */
+    normals: number[];
+    /** Three vertex indexes per triangle, counter-clockwise seen from outside */
+    indices: number[];
+}
+
+/**
+ * Material name for a color, shared by the MTL and glTF exports
+ * @param color - Hex color
+ * @returns Name such as `color_3B82F6`
+ */
+const getMaterialName = (color: string): string => `color_${color.slice(1).toUpperCase()}`;
+
+/**
+ * Mesh the exposed faces of the voxels, one group per color. Faces between two blocks are
+ * dropped and coplanar faces of the same color are merged into larger quads.
+ * The model is centered on the grid and sits on Y = 0, one unit per block.
+ * @param voxels - Voxels to mesh
+ * @param gridSize - Cells per side
+ * @returns Groups in order of first use
+ */
+const buildMeshGroups = (voxels: Voxel[], gridSize: number): MeshGroup[] => {
+    const groups = new Map<string, MeshGroup>();
+    const half = gridSize / 2;
+
+    buildFaceQuads(voxels, ALL_DIRECTIONS, true).forEach((quad) => {
+        const color = quad.color.toUpperCase();
+        let group = groups.get(color);
+        if (!group) {
+            group = { color, positions: [], normals: [], indices: [] };
+            groups.set(color, group);
+        }
+
+        const normal = MODEL_NORMALS[quad.direction];
+        const corners = getQuadCorners(quad).map(([x, y, z]) => [x - half, z, y - half]);
+
+        // getQuadCorners uses one winding for all directions; flip it where it faces inward
+        const [a, b, c] = corners;
+        const e1 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+        const e2 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+        const cross = [
+            e1[1] * e2[2] - e1[2] * e2[1],
+            e1[2] * e2[0] - e1[0] * e2[2],
+            e1[0] * e2[1] - e1[1] * e2[0],
+        ];
+        if (cross[0] * normal[0] + cross[1] * normal[1] + cross[2] * normal[2] < 0) {
+            corners.reverse();
+        }
+
+        const first = group.positions.length / 3;
+        corners.forEach((corner) => {
+            group.positions.push(...corner);
+            group.normals.push(...normal);
+        });
+        group.indices.push(first, first + 1, first + 2, first, first + 2, first + 3);
+    });
+
+    if (groups.size === 0) {
+        throw new Error('There are no visible blocks to export');
+    }
+
+    return Array.from(groups.values());
+};
+
+/**
+ * Encode voxels as a Wavefront OBJ mesh with a matching MTL material library
+ * @param voxels - Voxels to export
+ * @param gridSize - Cells per side
+ * @param mtlFilename - Name the OBJ uses to reference the material library
+ * @returns OBJ and MTL file contents
+ */
+export const serializeOBJ = (voxels: Voxel[], gridSize: number, mtlFilename: string): { obj: string; mtl: string } => {
+    const groups = buildMeshGroups(voxels, gridSize);
+    const vertexLines: string[] = [];
+    const vertexIndexes = new Map<string, number>();
+    const normalLines = ALL_DIRECTIONS.map((direction) => `vn ${MODEL_NORMALS[direction].join(' ')}`);
+    const normalIndexes = new Map(ALL_DIRECTIONS.map((direction, i) => [MODEL_NORMALS[direction].join(' '), i + 1]));
+    const faceLines: string[] = [];
+
+    // Merged quads share corners, so each position is written once
+    const getVertexIndex = (x: number, y: number, z: number): number => {
+        const key = `${x} ${y} ${z}`;
+        let index = vertexIndexes.get(key);
+        if (index === undefined) {
+            vertexLines.push(`v ${key}`);
+            index = vertexLines.length;
+            vertexIndexes.set(key, index);
+        }
+        return index;
+    };
+
+    groups.forEach(({ color, positions, normals, indices }) => {
+        faceLines.push(`usemtl ${getMaterialName(color)}`);
+        // Every four vertexes form one quad
+        for (let i = 0; i < indices.length; i += 6) {
+            const first = indices[i];
+            const normal = normalIndexes.get(normals.slice(first * 3, first * 3 + 3).join(' '));
+            const corners = [first, first + 1, first + 2, first + 3].map((vertex) => {
+                const index = getVertexIndex(positions[vertex * 3], positions[vertex * 3 + 1], positions[vertex * 3 + 2]);
+                return `${index}//${normal}`;
+            });
+            faceLines.push(`f ${corners.join(' ')}`);
+        }
+    });
+
+    const obj = [
+        '# Generated by Isometric Voxel Builder',
+        `mtllib ${mtlFilename}`,
+        'o Voxels',
+        ...vertexLines,
+        ...normalLines,
+        ...faceLines,
+        '',
+    ].join('\n');
+
+    const mtl = [
+        '# Generated by Isometric Voxel Builder',
+        ...groups.map(({ color }) => {
+            const { r, g, b } = hexToRgb(color);
+            return [
+                '',
+                `newmtl ${getMaterialName(color)}`,
+                `Kd ${(r / 255).toFixed(4)} ${(g / 255).toFixed(4)} ${(b / 255).toFixed(4)}`,
+                'Ka 0 0 0',
+                'Ks 0 0 0',
+                'd 1',
+                'illum 1',
+            ].join('\n');
+        }),
+        '',
+    ].join('\n');
+
+    return { obj, mtl };
+};
+
+/**
+ * Convert an sRGB channel to linear light, as glTF material factors expect
+ * @param value - Channel from 0 to 255
+ * @returns Linear value from 0 to 1
+ */
+const toLinear = (value: number): number => {
+    const c = value / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+/**
+ * Encode voxels as a binary glTF 2.0 (.glb) model: one mesh with a primitive and a
+ * matte material per color
+ * @param voxels - Voxels to export
+ * @param gridSize - Cells per side
+ * @returns File contents
+ */
+export const serializeGLB = (voxels: Voxel[], gridSize: number): ArrayBuffer => {
+    const groups = buildMeshGroups(voxels, gridSize);
+
+    const bufferViews: object[] = [];
+    const accessors: object[] = [];
+    const chunks: ArrayBuffer[] = [];
+    let byteOffset = 0;
+
+    // Float and index data are 4-byte values, so views stay aligned without padding
+    const addAccessor = (data: Float32Array | Uint32Array, type: 'VEC3' | 'SCALAR', target: number, bounds?: { min: number[]; max: number[] }): number => {
+        bufferViews.push({ buffer: 0, byteOffset, byteLength: data.byteLength, target });
+        accessors.push({
+            bufferView: bufferViews.length - 1,
+            componentType: data instanceof Float32Array ? 5126 : 5125,
+            count: type === 'VEC3' ? data.length / 3 : data.length,
+            type,
+            ...bounds,
+        });
+        chunks.push(data.buffer as ArrayBuffer);
+        byteOffset += data.byteLength;
+        return accessors.length - 1;
+    };
+
+    const primitives = groups.map(({ positions, normals, indices }, material) => {
+        const min = [Infinity, Infinity, Infinity];
+        const max = [-Infinity, -Infinity, -Infinity];
+        for (let i = 0; i < positions.length; i++) {
+            min[i % 3] = Math.min(min[i % 3], positions[i]);
+            max[i % 3] = Math.max(max[i % 3], positions[i]);
+        }
+
+        return {
+            attributes: {
+                POSITION: addAccessor(new Float32Array(positions), 'VEC3', 34962, { min, max }),
+                NORMAL: addAccessor(new Float32Array(normals), 'VEC3', 34962),
+            },
+            indices: addAccessor(new Uint32Array(indices), 'SCALAR', 34963),
+            material,
+        };
+    });
+
+    const json = {
+        asset: { version: '2.0', generator: 'Isometric Voxel Builder' },
+        scene: 0,
+        scenes: [{ nodes: [0] }],
+        nodes: [{ name: 'Voxels', mesh: 0 }],
+        meshes: [{ name: 'Voxels', primitives }],
+        materials: groups.map(({ color }) => {
+            const { r, g, b } = hexToRgb(color);
+            return {
+                name: getMaterialName(color),
+                pbrMetallicRoughness: {
+                    baseColorFactor: [toLinear(r), toLinear(g), toLinear(b), 1],
+                    metallicFactor: 0,
+                    roughnessFactor: 1,
+                },
+            };
+        }),
+        accessors,
+        bufferViews,
+        buffers: [{ byteLength: byteOffset }],
+    };
+
+    // Chunks are padded to 4 bytes: JSON with spaces, binary with zeros
+    const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+    const jsonLength = Math.ceil(jsonBytes.length / 4) * 4;
+    const binLength = Math.ceil(byteOffset / 4) * 4;
+    const glb = new ArrayBuffer(12 + 8 + jsonLength + 8 + binLength);
+    const view = new DataView(glb);
+    const bytes = new Uint8Array(glb);
+
+    view.setUint32(0, 0x46546c67, true); // "glTF"
+    view.setUint32(4, 2, true);
+    view.setUint32(8, glb.byteLength, true);
+
+    view.setUint32(12, jsonLength, true);
+    view.setUint32(16, 0x4e4f534a, true); // "JSON"
+    bytes.set(jsonBytes, 20);
+    bytes.fill(0x20, 20 + jsonBytes.length, 20 + jsonLength);
+
+    const binStart = 20 + jsonLength;
+    view.setUint32(binStart, binLength, true);
+    view.setUint32(binStart + 4, 0x004e4942, true); // "BIN"
+    let offset = binStart + 8;
+    chunks.forEach((chunk) => {
+        bytes.set(new Uint8Array(chunk), offset);
+        offset += chunk.byteLength;
+    });
+
+    return glb;
+};
+
+/**
+ * Download voxels as an OBJ mesh and its MTL material library
+ * @param voxels - Voxels to export
+ * @param gridSize - Cells per side
+ * @param basename - Filename without extension, shared by both files
+ */
+export const downloadOBJ = (voxels: Voxel[], gridSize: number, basename: string): void => {
+    const { obj, mtl } = serializeOBJ(voxels, gridSize, `${basename}.mtl`);
+    downloadBlob(new Blob([obj], { type: 'model/obj' }), `${basename}.obj`);
+    downloadBlob(new Blob([mtl], { type: 'model/mtl' }), `${basename}.mtl`);
+};
+
+/**
+ * Download voxels as a binary glTF model
+ * @param voxels - Voxels to export
+ * @param gridSize - Cells per side
+ * @param filename - Filename for download
+ */
+export const downloadGLB = (voxels: Voxel[], gridSize: number, filename: string): void => {
+    downloadBlob(new Blob([serializeGLB(voxels, gridSize)], { type: 'model/gltf-binary' }), filename);
+};
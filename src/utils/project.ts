@@ -0,0 +1,490 @@
+import type { ColorOption, ExportSettings, Lighting, Voxel, VoxelLayer } from '../types/voxel';
+import type { CheckpointFile, FrameFile, ProjectCheckpoint, ProjectData, ProjectFile, ProjectFrame } from '../types/project';
+import { TECH_COLORS } from './colors';
+import { downloadBlob } from './download';
+import {
+    DEFAULT_EXPORT_SETTINGS,
+    MAX_EXPORT_PADDING,
+    MAX_EXPORT_SCALE,
+    MAX_EXPORT_SIZE,
+    MAX_OUTLINE_WIDTH,
+    MIN_EXPORT_SCALE,
+} from './exportSettings';
+import { MAX_FRAME_DURATION, MIN_FRAME_DURATION } from './frames';
+import { createDefaultLayers, getVoxelLayerId } from './layers';
+import { DEFAULT_LIGHTING, MAX_LIGHT_ELEVATION, MIN_LIGHT_ELEVATION } from './lighting';
+import { DEFAULT_GRID_SIZE, MAX_GRID_SIZE, MAX_LAYERS, MIN_GRID_SIZE, getVoxelKey } from './voxels';
+
+/**
+ * Format identifier written to every project file
+ */
+export const PROJECT_FORMAT = 'isometric-voxel';
+
+/**
+ * Current project file version, bumped whenever the document shape changes
+ */
+export const PROJECT_VERSION = 7;
+
+/**
+ * File extension for project files
+ */
+export const PROJECT_EXTENSION = '.voxel.json';
+
+/**
+ * Error raised when a project file cannot be read
+ */
+export class ProjectFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ProjectFileError';
+    }
+}
+
+type RawProject = Record<string, unknown>;
+
+/**
+ * Upgrade steps keyed by the version they upgrade from.
+ * Each step returns the document in the next version.
+ */
+const MIGRATIONS: Record<number, (data: RawProject) => RawProject> = {
+    // Version 2 adds layers; existing voxels go to a single default layer
+    1: (data) => {
+        const [layer] = createDefaultLayers();
+        const voxels = Array.isArray(data.voxels)
+            ? data.voxels.map((voxel) => (isRecord(voxel) ? { ...voxel, layer: layer.id } : voxel))
+            : data.voxels;
+        return { ...data, layers: [layer], voxels };
+    },
+    // Version 3 adds named checkpoints
+    2: (data) => ({ ...data, checkpoints: [] }),
+    // Version 4 adds the animation timeline
+    3: (data) => ({ ...data, frames: [] }),
+    // Version 5 remembers the image export settings
+    4: (data) => ({ ...data, exportSettings: DEFAULT_EXPORT_SETTINGS }),
+    // Version 6 replaces the lighting angle with a full light; the angle becomes its direction
+    5: ({ lightingAngle, ...data }) => ({ ...data, lighting: { ...DEFAULT_LIGHTING, azimuth: lightingAngle } }),
+    // Version 7 adds cast shadows and ambient occlusion, off so older projects keep their look
+    6: ({ lighting, ...data }) => ({
+        ...data,
+        lighting: isRecord(lighting) ? { ...lighting, shadows: false, ambientOcclusion: false } : lighting,
+    }),
+};
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const isRecord = (value: unknown): value is RawProject => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isInteger = (value: unknown): value is number => {
+    return typeof value === 'number' && Number.isInteger(value);
+};
+
+/**
+ * Bring a document of any supported version up to the current version
+ * @param data - Parsed document
+ * @returns Document in the current version
+ */
+const migrateProject = (data: RawProject): RawProject => {
+    const { version } = data;
+
+    if (!isInteger(version) || version < 1) {
+        throw new ProjectFileError('Missing or invalid format version');
+    }
+    if (version > PROJECT_VERSION) {
+        throw new ProjectFileError(
+            `File uses format version ${version}, but this app only supports up to version ${PROJECT_VERSION}`
+        );
+    }
+
+    let migrated = data;
+    for (let from = version; from < PROJECT_VERSION; from++) {
+        const migrate = MIGRATIONS[from];
+        if (!migrate) {
+            throw new ProjectFileError(`No upgrade path from format version ${from}`);
+        }
+        migrated = { ...migrate(migrated), version: from + 1 };
+    }
+
+    return migrated;
+};
+
+/**
+ * Validate palette entries
+ * @param value - Raw palette value
+ * @returns Palette
+ */
+const readPalette = (value: unknown): ColorOption[] => {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ProjectFileError('Palette must be a non-empty list of colors');
+    }
+
+    return value.map((entry, index) => {
+        if (!isRecord(entry) || typeof entry.name !== 'string' || typeof entry.hex !== 'string' || !HEX_COLOR.test(entry.hex)) {
+            throw new ProjectFileError(`Palette entry ${index} must have a name and a #RRGGBB hex color`);
+        }
+
+        return {
+            name: entry.name,
+            hex: entry.hex,
+            contrast: typeof entry.contrast === 'string' ? entry.contrast : '',
+        };
+    });
+};
+
+/**
+ * Validate the layer list
+ * @param value - Raw layer list
+ * @returns Layers bottom to top
+ */
+const readLayers = (value: unknown): VoxelLayer[] => {
+    if (!Array.isArray(value) || value.length === 0) {
+        throw new ProjectFileError('Layers must be a non-empty list');
+    }
+
+    const ids = new Set<string>();
+    return value.map((entry, index) => {
+        if (!isRecord(entry) || typeof entry.id !== 'string' || !entry.id || typeof entry.name !== 'string') {
+            throw new ProjectFileError(`Layer ${index} must have an id and a name`);
+        }
+        if (ids.has(entry.id)) {
+            throw new ProjectFileError(`Layer ${index} duplicates id "${entry.id}"`);
+        }
+        if (typeof entry.visible !== 'boolean' || typeof entry.locked !== 'boolean') {
+            throw new ProjectFileError(`Layer ${index} must have visible and locked flags`);
+        }
+        ids.add(entry.id);
+
+        return { id: entry.id, name: entry.name, visible: entry.visible, locked: entry.locked };
+    });
+};
+
+/**
+ * Validate voxel list against the grid bounds and layers
+ * @param value - Raw voxel list
+ * @param gridSize - Grid size of the project
+ * @param layers - Layers of the project
+ * @returns Map of voxels
+ */
+const readVoxels = (value: unknown, gridSize: number, layers: VoxelLayer[]): Map<string, Voxel> => {
+    if (!Array.isArray(value)) {
+        throw new ProjectFileError('Voxels must be a list');
+    }
+
+    const voxels = new Map<string, Voxel>();
+
+    value.forEach((entry, index) => {
+        if (!isRecord(entry)) {
+            throw new ProjectFileError(`Voxel ${index} is not an object`);
+        }
+
+        const { x, y, z, color, layer } = entry;
+        if (!isInteger(x) || !isInteger(y) || !isInteger(z)) {
+            throw new ProjectFileError(`Voxel ${index} must have integer x, y and z coordinates`);
+        }
+        if (x < 0 || y < 0 || x >= gridSize || y >= gridSize) {
+            throw new ProjectFileError(`Voxel ${index} at (${x}, ${y}) is outside the ${gridSize}×${gridSize} grid`);
+        }
+        if (z < 0 || z >= MAX_LAYERS) {
+            throw new ProjectFileError(`Voxel ${index} is on layer ${z}, expected 0 to ${MAX_LAYERS - 1}`);
+        }
+        if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+            throw new ProjectFileError(`Voxel ${index} must have a #RRGGBB hex color`);
+        }
+        if (typeof layer !== 'string' || !layers.some(({ id }) => id === layer)) {
+            throw new ProjectFileError(`Voxel ${index} must belong to one of the project's layers`);
+        }
+
+        const key = getVoxelKey(x, y, z);
+        if (voxels.has(key)) {
+            throw new ProjectFileError(`Voxel ${index} duplicates position (${x}, ${y}, ${z})`);
+        }
+        voxels.set(key, { x, y, z, color, layer });
+    });
+
+    return voxels;
+};
+
+/**
+ * Check a grid size read from a file
+ */
+const readGridSize = (value: unknown): number => {
+    if (!isInteger(value) || value < MIN_GRID_SIZE || value > MAX_GRID_SIZE) {
+        throw new ProjectFileError(`Grid size must be an integer from ${MIN_GRID_SIZE} to ${MAX_GRID_SIZE}`);
+    }
+    return value;
+};
+
+/**
+ * Validate the checkpoint list; each checkpoint is checked like a scene of its own
+ * @param value - Raw checkpoint list
+ * @returns Checkpoints
+ */
+const readCheckpoints = (value: unknown): ProjectCheckpoint[] => {
+    if (!Array.isArray(value)) {
+        throw new ProjectFileError('Checkpoints must be a list');
+    }
+
+    return value.map((entry, index) => {
+        if (!isRecord(entry) || typeof entry.id !== 'string' || typeof entry.name !== 'string' || !isInteger(entry.createdAt)) {
+            throw new ProjectFileError(`Checkpoint ${index} must have an id, a name and a creation time`);
+        }
+
+        try {
+            const gridSize = readGridSize(entry.gridSize);
+            const layers = readLayers(entry.layers);
+            return {
+                id: entry.id,
+                name: entry.name,
+                createdAt: entry.createdAt,
+                gridSize,
+                layers,
+                voxels: readVoxels(entry.voxels, gridSize, layers),
+            };
+        } catch (error) {
+            if (error instanceof ProjectFileError) {
+                throw new ProjectFileError(`Checkpoint "${entry.name}": ${error.message}`);
+            }
+            throw error;
+        }
+    });
+};
+
+/**
+ * Validate the animation frames; each frame is checked like a scene of its own
+ * @param value - Raw frame list
+ * @returns Frames in playback order
+ */
+const readFrames = (value: unknown): ProjectFrame[] => {
+    if (!Array.isArray(value)) {
+        throw new ProjectFileError('Frames must be a list');
+    }
+
+    return value.map((entry, index) => {
+        if (!isRecord(entry) || typeof entry.id !== 'string') {
+            throw new ProjectFileError(`Frame ${index + 1} must have an id`);
+        }
+        if (!isInteger(entry.duration) || entry.duration < MIN_FRAME_DURATION || entry.duration > MAX_FRAME_DURATION) {
+            throw new ProjectFileError(`Frame ${index + 1} must last ${MIN_FRAME_DURATION} to ${MAX_FRAME_DURATION} milliseconds`);
+        }
+
+        try {
+            const gridSize = readGridSize(entry.gridSize);
+            const layers = readLayers(entry.layers);
+            return {
+                id: entry.id,
+                duration: entry.duration,
+                gridSize,
+                layers,
+                voxels: readVoxels(entry.voxels, gridSize, layers),
+            };
+        } catch (error) {
+            if (error instanceof ProjectFileError) {
+                throw new ProjectFileError(`Frame ${index + 1}: ${error.message}`);
+            }
+            throw error;
+        }
+    });
+};
+
+/**
+ * Validate the export settings
+ * @param value - Raw export settings
+ * @returns Export settings
+ */
+const readExportSettings = (value: unknown): ExportSettings => {
+    if (!isRecord(value)) {
+        throw new ProjectFileError('Export settings must be an object');
+    }
+
+    const { sizeMode, scale, width, height, padding, background, outlines, outlineColor, outlineWidth } = value;
+    const inRange = (number: unknown, min: number, max: number): number is number => {
+        return typeof number === 'number' && Number.isFinite(number) && number >= min && number <= max;
+    };
+
+    if (sizeMode !== 'scale' && sizeMode !== 'fit') {
+        throw new ProjectFileError('Export size mode must be "scale" or "fit"');
+    }
+    if (!inRange(scale, MIN_EXPORT_SCALE, MAX_EXPORT_SCALE)) {
+        throw new ProjectFileError(`Export scale must be a number from ${MIN_EXPORT_SCALE} to ${MAX_EXPORT_SCALE}`);
+    }
+    if (!isInteger(width) || !isInteger(height) || !inRange(width, 1, MAX_EXPORT_SIZE) || !inRange(height, 1, MAX_EXPORT_SIZE)) {
+        throw new ProjectFileError(`Export width and height must be integers from 1 to ${MAX_EXPORT_SIZE}`);
+    }
+    if (!inRange(padding, 0, MAX_EXPORT_PADDING)) {
+        throw new ProjectFileError(`Export padding must be a number from 0 to ${MAX_EXPORT_PADDING}`);
+    }
+    if (background !== null && (typeof background !== 'string' || !HEX_COLOR.test(background))) {
+        throw new ProjectFileError('Export background must be a #RRGGBB hex color or null');
+    }
+    if (typeof outlines !== 'boolean' || typeof outlineColor !== 'string' || !HEX_COLOR.test(outlineColor)) {
+        throw new ProjectFileError('Export outlines must be on or off, with a #RRGGBB hex color');
+    }
+    if (!inRange(outlineWidth, 0, MAX_OUTLINE_WIDTH)) {
+        throw new ProjectFileError(`Export outline width must be a number from 0 to ${MAX_OUTLINE_WIDTH}`);
+    }
+
+    return { sizeMode, scale, width, height, padding, background, outlines, outlineColor, outlineWidth };
+};
+
+/**
+ * Validate the scene light
+ * @param value - Raw light
+ * @returns Light
+ */
+const readLighting = (value: unknown): Lighting => {
+    if (!isRecord(value)) {
+        throw new ProjectFileError('Lighting must be an object');
+    }
+
+    const { azimuth, elevation, ambient, color, shadows, ambientOcclusion } = value;
+    const inRange = (number: unknown, min: number, max: number): number is number => {
+        return typeof number === 'number' && Number.isFinite(number) && number >= min && number <= max;
+    };
+
+    if (!inRange(azimuth, 0, 360)) {
+        throw new ProjectFileError('Light azimuth must be a number from 0 to 360');
+    }
+    if (!inRange(elevation, MIN_LIGHT_ELEVATION, MAX_LIGHT_ELEVATION)) {
+        throw new ProjectFileError(`Light elevation must be a number from ${MIN_LIGHT_ELEVATION} to ${MAX_LIGHT_ELEVATION}`);
+    }
+    if (!inRange(ambient, 0, 1)) {
+        throw new ProjectFileError('Ambient light must be a number from 0 to 1');
+    }
+    if (typeof color !== 'string' || !HEX_COLOR.test(color)) {
+        throw new ProjectFileError('Light color must be a #RRGGBB hex color');
+    }
+    if (typeof shadows !== 'boolean') {
+        throw new ProjectFileError('Light shadows must be true or false');
+    }
+    if (typeof ambientOcclusion !== 'boolean') {
+        throw new ProjectFileError('Ambient occlusion must be true or false');
+    }
+
+    return { azimuth, elevation, ambient, color, shadows, ambientOcclusion };
+};
+
+/**
+ * Voxel list for a file, with every voxel assigned to an existing layer
+ */
+const writeVoxels = (voxels: Map<string, Voxel>, layers: VoxelLayer[]): Voxel[] => {
+    return Array.from(voxels.values()).map(({ x, y, z, color, layer }) => ({
+        x,
+        y,
+        z,
+        color,
+        layer: getVoxelLayerId({ x, y, z, color, layer }, layers),
+    }));
+};
+
+/**
+ * Create the state of a new, empty project
+ * @returns Project state
+ */
+export const createEmptyProject = (): ProjectData => ({
+    voxels: new Map(),
+    layers: createDefaultLayers(),
+    lighting: DEFAULT_LIGHTING,
+    palette: TECH_COLORS,
+    selectedColor: TECH_COLORS[0].hex,
+    gridSize: DEFAULT_GRID_SIZE,
+    checkpoints: [],
+    frames: [],
+    exportSettings: DEFAULT_EXPORT_SETTINGS,
+});
+
+/**
+ * Serialize project state into a `.voxel.json` document
+ * @param project - Project state
+ * @returns JSON string
+ */
+export const serializeProject = (project: ProjectData): string => {
+    const file: ProjectFile = {
+        format: PROJECT_FORMAT,
+        version: PROJECT_VERSION,
+        gridSize: project.gridSize,
+        lighting: project.lighting,
+        palette: project.palette,
+        selectedColor: project.selectedColor,
+        layers: project.layers,
+        voxels: writeVoxels(project.voxels, project.layers),
+        checkpoints: project.checkpoints.map((checkpoint): CheckpointFile => ({
+            id: checkpoint.id,
+            name: checkpoint.name,
+            createdAt: checkpoint.createdAt,
+            gridSize: checkpoint.gridSize,
+            layers: checkpoint.layers,
+            voxels: writeVoxels(checkpoint.voxels, checkpoint.layers),
+        })),
+        frames: project.frames.map((frame): FrameFile => ({
+            id: frame.id,
+            duration: frame.duration,
+            gridSize: frame.gridSize,
+            layers: frame.layers,
+            voxels: writeVoxels(frame.voxels, frame.layers),
+        })),
+        exportSettings: project.exportSettings,
+    };
+
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parse, migrate and validate a `.voxel.json` document
+ * @param text - File contents
+ * @returns Project state
+ * @throws ProjectFileError when the file is not a valid project
+ */
+export const parseProject = (text: string): ProjectData => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new ProjectFileError('File is not valid JSON');
+    }
+
+    if (!isRecord(parsed) || parsed.format !== PROJECT_FORMAT) {
+        throw new ProjectFileError('File is not an Isometric Voxel Builder project');
+    }
+
+    const data = migrateProject(parsed);
+
+    const { selectedColor } = data;
+    const gridSize = readGridSize(data.gridSize);
+    const lighting = readLighting(data.lighting);
+    if (typeof selectedColor !== 'string' || !HEX_COLOR.test(selectedColor)) {
+        throw new ProjectFileError('Selected color must be a #RRGGBB hex color');
+    }
+
+    const layers = readLayers(data.layers);
+
+    return {
+        gridSize,
+        lighting,
+        selectedColor,
+        palette: readPalette(data.palette),
+        layers,
+        voxels: readVoxels(data.voxels, gridSize, layers),
+        checkpoints: readCheckpoints(data.checkpoints),
+        frames: readFrames(data.frames),
+        exportSettings: readExportSettings(data.exportSettings),
+    };
+};
+
+/**
+ * Read a project from a user-selected file
+ * @param file - File to read
+ * @returns Project state
+ */
+export const readProjectFile = async (file: File): Promise<ProjectData> => {
+    return parseProject(await file.text());
+};
+
+/**
+ * Download project as a `.voxel.json` file
+ * @param project - Project state
+ * @param filename - Filename for download
+ */
+export const downloadProject = (project: ProjectData, filename: string): void => {
+    downloadBlob(new Blob([serializeProject(project)], { type: 'application/json' }), filename);
+};
@@ -0,0 +1,56 @@
+/**
+ * One image of a raster animation
+ */
+export interface RasterFrame {
+    /** RGBA pixels, four bytes per pixel, row by row */
+    data: Uint8ClampedArray;
+    /** Display time in milliseconds */
+    delay: number;
+}
+
+/**
+ * Draw an SVG onto a canvas of the given size, scaling it to fill the canvas
+ * @param svg - SVG string
+ * @param width - Canvas width in pixels
+ * @param height - Canvas height in pixels
+ * @param background - Fill drawn behind the SVG; transparent when omitted
+ * @returns Canvas with the rendered SVG
+ */
+export const rasterizeSVG = (svg: string, width: number, height: number, background?: string): Promise<HTMLCanvasElement> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const canvas = document.createElement('canvas');
+        const ctx = canvas.getContext('2d');
+
+        if (!ctx) {
+            reject(new Error('Could not get canvas context'));
+            return;
+        }
+
+        canvas.width = width;
+        canvas.height = height;
+
+        // Create blob URL from SVG string
+        const blob = new Blob([svg], { type: 'image/svg+xml' });
+        const url = URL.createObjectURL(blob);
+
+        img.onload = () => {
+            if (background) {
+                ctx.fillStyle = background;
+                ctx.fillRect(0, 0, width, height);
+            }
+
+            // Draw image scaled to canvas size
+            ctx.drawImage(img, 0, 0, width, height);
+            URL.revokeObjectURL(url);
+            resolve(canvas);
+        };
+
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('Failed to load SVG image'));
+        };
+
+        img.src = url;
+    });
+};
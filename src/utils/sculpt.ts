@@ -0,0 +1,195 @@
+import type { GridPosition, GridTool, SculptFalloff, SculptTool, Voxel } from '../types/voxel';
+import { getColumnKey, getVoxelKey } from './voxels';
+
+const SCULPT_TOOLS: SculptTool[] = ['raise', 'lower', 'smooth', 'flatten'];
+
+/**
+ * Largest sculpt brush radius in cells
+ */
+export const MAX_SCULPT_RADIUS = 12;
+
+/**
+ * Check whether a grid tool sculpts column heights
+ * @param tool - Grid tool
+ * @returns True for raise, lower, smooth and flatten
+ */
+export const isSculptTool = (tool: GridTool): tool is SculptTool => {
+    return SCULPT_TOOLS.includes(tool as SculptTool);
+};
+
+/**
+ * Strength of a brush at a distance from its center: 1 at the center, fading toward 0 just past the edge
+ * @param distance - Distance from the center in cells
+ * @param radius - Brush radius in cells
+ * @param falloff - Fade curve
+ * @returns Weight from 0 to 1
+ */
+export const getFalloffWeight = (distance: number, radius: number, falloff: SculptFalloff): number => {
+    const t = Math.min(1, distance / (radius + 1));
+    if (falloff === 'linear') {
+        return 1 - t;
+    }
+    if (falloff === 'smooth') {
+        return 0.5 + 0.5 * Math.cos(Math.PI * t);
+    }
+    return 1;
+};
+
+/**
+ * Cells covered by round brushes at one or more centers, each with the strongest weight it receives
+ * @param centers - Brush centers
+ * @param radius - Brush radius in cells; 0 covers only the center
+ * @param falloff - Fade curve
+ * @param gridSize - Cells per side
+ * @returns Covered cells keyed by column
+ */
+export const getBrushCells = (
+    centers: GridPosition[],
+    radius: number,
+    falloff: SculptFalloff,
+    gridSize: number
+): Map<string, GridPosition & { weight: number }> => {
+    const cells = new Map<string, GridPosition & { weight: number }>();
+
+    centers.forEach((center) => {
+        for (let y = Math.max(0, center.y - radius); y <= Math.min(gridSize - 1, center.y + radius); y++) {
+            for (let x = Math.max(0, center.x - radius); x <= Math.min(gridSize - 1, center.x + radius); x++) {
+                const distance = Math.hypot(x - center.x, y - center.y);
+                if (distance > radius + 0.5) {
+                    continue;
+                }
+
+                const key = getColumnKey(x, y);
+                const weight = getFalloffWeight(distance, radius, falloff);
+                if ((cells.get(key)?.weight ?? -1) < weight) {
+                    cells.set(key, { x, y, weight });
+                }
+            }
+        }
+    });
+
+    return cells;
+};
+
+/**
+ * New height of every brushed column that changes
+ * @param cells - Brushed cells with their weights
+ * @param tool - Sculpt tool
+ * @param options.strength - Levels added or removed at full weight
+ * @param options.maxHeight - Raising stops at this height
+ * @param options.flattenHeight - Height flatten pulls toward
+ * @param options.gridSize - Cells per side
+ * @param options.getHeight - Current column height
+ * @returns Target heights keyed by column
+ */
+export const getSculptHeights = (
+    cells: Map<string, GridPosition & { weight: number }>,
+    tool: SculptTool,
+    options: {
+        strength: number;
+        maxHeight: number;
+        flattenHeight: number;
+        gridSize: number;
+        getHeight: (x: number, y: number) => number;
+    }
+): Map<string, GridPosition & { height: number }> => {
+    const { strength, maxHeight, flattenHeight, gridSize, getHeight } = options;
+    const targets = new Map<string, GridPosition & { height: number }>();
+
+    // Mean height of a cell and its neighbours, read before any column changes
+    const getAverage = (x: number, y: number): number => {
+        let sum = 0;
+        let count = 0;
+        for (let ny = Math.max(0, y - 1); ny <= Math.min(gridSize - 1, y + 1); ny++) {
+            for (let nx = Math.max(0, x - 1); nx <= Math.min(gridSize - 1, x + 1); nx++) {
+                sum += getHeight(nx, ny);
+                count++;
+            }
+        }
+        return sum / count;
+    };
+
+    cells.forEach(({ x, y, weight }, key) => {
+        const height = getHeight(x, y);
+        let target = height;
+
+        if (tool === 'raise') {
+            target = height >= maxHeight ? height : Math.min(maxHeight, height + Math.round(strength * weight));
+        } else if (tool === 'lower') {
+            target = Math.max(0, height - Math.round(strength * weight));
+        } else {
+            const goal = tool === 'smooth' ? getAverage(x, y) : flattenHeight;
+            target = Math.round(height + (goal - height) * weight);
+        }
+
+        if (target !== height) {
+            targets.set(key, { x, y, height: target });
+        }
+    });
+
+    return targets;
+};
+
+/**
+ * Stretch or shrink a column to a new height. The top block stays on top and the block
+ * below it is repeated or removed, so the column keeps its colors and layers.
+ * @param voxels - Voxel map, changed in place
+ * @param position - Column to change
+ * @param height - Current height of the column
+ * @param target - New height
+ * @param canEdit - Whether a block may be moved, copied into or removed
+ * @param emptyFill - Block used to grow an empty column; null leaves empty columns alone
+ * @returns True when the column changed
+ */
+export const resizeColumn = (
+    voxels: Map<string, Voxel>,
+    { x, y }: GridPosition,
+    height: number,
+    target: number,
+    canEdit: (voxel: Voxel) => boolean,
+    emptyFill: Pick<Voxel, 'color' | 'layer'> | null
+): boolean => {
+    if (target === height) {
+        return false;
+    }
+
+    // Every position that changes must be empty or editable
+    const from = Math.max(0, Math.min(height, target) - 1);
+    const to = Math.max(height, target);
+    for (let z = from; z < to; z++) {
+        const existing = voxels.get(getVoxelKey(x, y, z));
+        if (existing && !canEdit(existing)) {
+            return false;
+        }
+    }
+
+    if (height === 0) {
+        if (!emptyFill) {
+            return false;
+        }
+        for (let z = 0; z < target; z++) {
+            voxels.set(getVoxelKey(x, y, z), { x, y, z, ...emptyFill });
+        }
+        return true;
+    }
+
+    const top = voxels.get(getVoxelKey(x, y, height - 1));
+    if (!top) {
+        return false;
+    }
+    const below = height > 1 ? voxels.get(getVoxelKey(x, y, height - 2)) : undefined;
+    const filler = below && canEdit(below) ? below : top;
+
+    for (let z = from; z < to; z++) {
+        voxels.delete(getVoxelKey(x, y, z));
+    }
+    if (target === 0) {
+        return true;
+    }
+
+    for (let z = from; z < target - 1; z++) {
+        voxels.set(getVoxelKey(x, y, z), { ...filler, z });
+    }
+    voxels.set(getVoxelKey(x, y, target - 1), { ...top, z: target - 1 });
+    return true;
+};
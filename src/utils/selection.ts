@@ -0,0 +1,107 @@
+import type { GridPosition, GridRect, MirrorAxis, Voxel } from '../types/voxel';
+
+/**
+ * Rectangle spanned by two corner cells, inclusive
+ * @param start - First corner
+ * @param end - Opposite corner
+ * @returns Rectangle covering both cells
+ */
+export const getRectFromCorners = (start: GridPosition, end: GridPosition): GridRect => ({
+    x: Math.min(start.x, end.x),
+    y: Math.min(start.y, end.y),
+    width: Math.abs(end.x - start.x) + 1,
+    height: Math.abs(end.y - start.y) + 1,
+});
+
+/**
+ * Shrink a rectangle to the cells inside the grid
+ * @param rect - Rectangle to clip
+ * @param gridSize - Cells per side
+ * @returns Clipped rectangle, or null when nothing is left
+ */
+export const clipRectToGrid = (rect: GridRect, gridSize: number): GridRect | null => {
+    const x = Math.max(0, rect.x);
+    const y = Math.max(0, rect.y);
+    const width = Math.min(gridSize, rect.x + rect.width) - x;
+    const height = Math.min(gridSize, rect.y + rect.height) - y;
+
+    return width > 0 && height > 0 ? { x, y, width, height } : null;
+};
+
+/**
+ * Move a rectangle the least amount needed to lie inside the grid
+ * @param rect - Rectangle no larger than the grid
+ * @param gridSize - Cells per side
+ * @returns Rectangle of the same size inside the grid
+ */
+export const fitRectToGrid = (rect: GridRect, gridSize: number): GridRect => ({
+    ...rect,
+    x: Math.max(0, Math.min(gridSize - rect.width, rect.x)),
+    y: Math.max(0, Math.min(gridSize - rect.height, rect.y)),
+});
+
+/**
+ * Check whether a cell lies inside a rectangle
+ */
+export const isInRect = (rect: GridRect, x: number, y: number): boolean => {
+    return x >= rect.x && y >= rect.y && x < rect.x + rect.width && y < rect.y + rect.height;
+};
+
+/**
+ * Collect every voxel whose column lies inside a rectangle
+ * @param voxels - Scene voxels
+ * @param rect - Region to collect
+ * @returns Voxels inside the region
+ */
+export const getVoxelsInRect = (voxels: Map<string, Voxel>, rect: GridRect): Voxel[] => {
+    const result: Voxel[] = [];
+    voxels.forEach((voxel) => {
+        if (isInRect(rect, voxel.x, voxel.y)) {
+            result.push(voxel);
+        }
+    });
+    return result;
+};
+
+/**
+ * Shift voxels by a number of cells
+ */
+export const translateVoxels = (voxels: Voxel[], dx: number, dy: number): Voxel[] => {
+    return voxels.map((voxel) => ({ ...voxel, x: voxel.x + dx, y: voxel.y + dy }));
+};
+
+/**
+ * Turn the contents of a rectangle a quarter turn as seen on the grid, keeping its top-left corner
+ * @param voxels - Voxels inside the rectangle
+ * @param rect - Region being turned
+ * @param clockwise - Turn direction
+ * @returns Turned region (width and height swapped) and voxels
+ */
+export const rotateRegion = (
+    voxels: Voxel[],
+    rect: GridRect,
+    clockwise: boolean
+): { rect: GridRect; voxels: Voxel[] } => {
+    const turned = voxels.map((voxel) => {
+        const rx = voxel.x - rect.x;
+        const ry = voxel.y - rect.y;
+        return clockwise
+            ? { ...voxel, x: rect.x + rect.height - 1 - ry, y: rect.y + rx }
+            : { ...voxel, x: rect.x + ry, y: rect.y + rect.width - 1 - rx };
+    });
+
+    return { rect: { ...rect, width: rect.height, height: rect.width }, voxels: turned };
+};
+
+/**
+ * Flip the contents of a rectangle in place
+ * @param voxels - Voxels inside the rectangle
+ * @param rect - Region being flipped
+ * @param axis - Flip direction
+ * @returns Flipped voxels
+ */
+export const mirrorRegion = (voxels: Voxel[], rect: GridRect, axis: MirrorAxis): Voxel[] => {
+    return voxels.map((voxel) => axis === 'horizontal'
+        ? { ...voxel, x: 2 * rect.x + rect.width - 1 - voxel.x }
+        : { ...voxel, y: 2 * rect.y + rect.height - 1 - voxel.y });
+};
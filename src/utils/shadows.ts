@@ -0,0 +1,257 @@
+import type { Voxel } from '../types/voxel';
+import { getFaceAxes } from './mesh';
+import type { FaceQuad } from './mesh';
+import { getColumnKey, getVoxelKey } from './voxels';
+
+/**
+ * Point on a horizontal plane, as [x, y]
+ */
+type PlanePoint = [number, number];
+
+/**
+ * Unbroken stack of voxels in one column, from the bottom of z0 up to the top of z1 - 1
+ */
+interface ColumnRun {
+    x: number;
+    y: number;
+    z0: number;
+    z1: number;
+}
+
+/**
+ * Voxels of a scene prepared for casting shadows along one light direction
+ */
+export interface ShadowCaster {
+    runs: ColumnRun[];
+    /** Runs by column key */
+    columns: Map<string, ColumnRun[]>;
+    /** Ground shift of a shadow per level of height, away from the light */
+    offset: PlanePoint;
+    /** Highest point of the scene */
+    top: number;
+}
+
+/**
+ * Strip along an inner corner of a face, in view space
+ */
+export interface OcclusionStrip {
+    /** Corners as [x, y, z]; the first two lie on the corner edge, the last two inside the face */
+    corners: [number, number, number][];
+}
+
+/**
+ * Width of an ambient occlusion strip, in blocks
+ */
+export const OCCLUSION_WIDTH = 0.35;
+
+/**
+ * Lowest light elevation in degrees that still casts shadows; lower lights would stretch them without bound
+ */
+export const MIN_SHADOW_ELEVATION = 10;
+
+/**
+ * Convex hull of points, counter-clockwise (monotone chain)
+ */
+const convexHull = (points: PlanePoint[]): PlanePoint[] => {
+    const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+    const cross = (o: PlanePoint, a: PlanePoint, b: PlanePoint) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+    const lower: PlanePoint[] = [];
+    const upper: PlanePoint[] = [];
+
+    sorted.forEach((point) => {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0) lower.pop();
+        lower.push(point);
+    });
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const point = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0) upper.pop();
+        upper.push(point);
+    }
+
+    return [...lower.slice(0, -1), ...upper.slice(0, -1)];
+};
+
+/**
+ * Clip a convex polygon to an axis-aligned rectangle (Sutherland-Hodgman), keeping its winding
+ */
+const clipToRect = (polygon: PlanePoint[], minX: number, minY: number, maxX: number, maxY: number): PlanePoint[] => {
+    const edges: [axis: 0 | 1, limit: number, keepBelow: boolean][] = [
+        [0, minX, false],
+        [0, maxX, true],
+        [1, minY, false],
+        [1, maxY, true],
+    ];
+
+    return edges.reduce((points, [axis, limit, keepBelow]) => {
+        const inside = (point: PlanePoint) => (keepBelow ? point[axis] <= limit : point[axis] >= limit);
+        const clipped: PlanePoint[] = [];
+        points.forEach((current, index) => {
+            const previous = points[(index + points.length - 1) % points.length];
+            if (inside(current) !== inside(previous)) {
+                const t = (limit - previous[axis]) / (current[axis] - previous[axis]);
+                clipped.push([previous[0] + (current[0] - previous[0]) * t, previous[1] + (current[1] - previous[1]) * t]);
+            }
+            if (inside(current)) clipped.push(current);
+        });
+        return clipped;
+    }, polygon);
+};
+
+/**
+ * Shadow of the part of a run above a plane, cast onto that plane
+ */
+const castRun = (run: ColumnRun, plane: number, offset: PlanePoint): PlanePoint[] => {
+    const corners: PlanePoint[] = [];
+    [Math.max(run.z0, plane), run.z1].forEach((z) => {
+        const shiftX = offset[0] * (z - plane);
+        const shiftY = offset[1] * (z - plane);
+        corners.push(
+            [run.x + shiftX, run.y + shiftY],
+            [run.x + 1 + shiftX, run.y + shiftY],
+            [run.x + 1 + shiftX, run.y + 1 + shiftY],
+            [run.x + shiftX, run.y + 1 + shiftY]
+        );
+    });
+    return convexHull(corners);
+};
+
+/**
+ * Prepare voxels for casting shadows
+ * @param voxels - Voxels in view space
+ * @param light - Unit vector towards the light in view space
+ * @returns Shadow caster, or null when the light is too low to cast shadows
+ */
+export const createShadowCaster = (voxels: Voxel[], light: [number, number, number]): ShadowCaster | null => {
+    if (light[2] < Math.sin((MIN_SHADOW_ELEVATION * Math.PI) / 180) - 1e-9) {
+        return null;
+    }
+
+    const levels = new Map<string, number[]>();
+    voxels.forEach(({ x, y, z }) => {
+        const key = getColumnKey(x, y);
+        const column = levels.get(key);
+        if (column) {
+            column.push(z);
+        } else {
+            levels.set(key, [z]);
+        }
+    });
+
+    const runs: ColumnRun[] = [];
+    const columns = new Map<string, ColumnRun[]>();
+    let top = 0;
+    levels.forEach((zs, key) => {
+        const [x, y] = key.split(',').map(Number);
+        const columnRuns: ColumnRun[] = [];
+        zs.sort((a, b) => a - b).forEach((z) => {
+            const last = columnRuns[columnRuns.length - 1];
+            if (last && last.z1 === z) {
+                last.z1 = z + 1;
+            } else {
+                columnRuns.push({ x, y, z0: z, z1: z + 1 });
+            }
+        });
+        top = Math.max(top, columnRuns[columnRuns.length - 1].z1);
+        runs.push(...columnRuns);
+        columns.set(key, columnRuns);
+    });
+
+    return { runs, columns, offset: [-light[0] / light[2], -light[1] / light[2]], top };
+};
+
+/**
+ * Shadow on the ground (z = 0) of every voxel
+ * @param caster - Shadow caster
+ * @returns Overlapping convex polygons of one winding, whose union is the shadow
+ */
+export const getGroundShadow = (caster: ShadowCaster): PlanePoint[][] => {
+    return caster.runs.map((run) => castRun(run, 0, caster.offset));
+};
+
+/**
+ * Shadow cast onto a top face by the voxels above its plane
+ * @param caster - Shadow caster
+ * @param quad - Top (+z) face quad in view space
+ * @returns Convex polygons of one winding inside the face, whose union is the shadow
+ */
+export const getTopFaceShadow = (caster: ShadowCaster, quad: FaceQuad): PlanePoint[][] => {
+    const { plane, u0, u1, v0, v1 } = quad;
+    const [offsetX, offsetY] = caster.offset;
+    const reach = caster.top - plane;
+    if (reach <= 0) {
+        return [];
+    }
+
+    // Only columns between the face and the light, up to the tallest shadow's length, can reach it
+    const minX = Math.floor(Math.min(u0, u0 - offsetX * reach)) - 1;
+    const maxX = Math.ceil(Math.max(u1, u1 - offsetX * reach));
+    const minY = Math.floor(Math.min(v0, v0 - offsetY * reach)) - 1;
+    const maxY = Math.ceil(Math.max(v1, v1 - offsetY * reach));
+
+    const polygons: PlanePoint[][] = [];
+    for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+            caster.columns.get(getColumnKey(x, y))?.forEach((run) => {
+                if (run.z1 <= plane) return;
+                const clipped = clipToRect(castRun(run, plane, caster.offset), u0, v0, u1, v1);
+                if (clipped.length < 3) return;
+                // Skip slivers that only touch the face along an edge
+                let area = 0;
+                clipped.forEach(([ax, ay], index) => {
+                    const [bx, by] = clipped[(index + 1) % clipped.length];
+                    area += ax * by - bx * ay;
+                });
+                if (Math.abs(area) > 1e-6) polygons.push(clipped);
+            });
+        }
+    }
+    return polygons;
+};
+
+/**
+ * Strips along the inner corners of a face: edges where another block, or the ground,
+ * rises out of the face's plane and blocks part of the ambient light
+ * @param quad - Visible face quad in view space
+ * @param occupied - Keys of all voxels in view space
+ * @returns One strip per block edge along each inner corner
+ */
+export const getOcclusionStrips = (quad: FaceQuad, occupied: Set<string>): OcclusionStrip[] => {
+    const { axis, sign, uAxis, vAxis } = getFaceAxes(quad.direction);
+    const { plane, u0, u1, v0, v1 } = quad;
+    // Cell in front of the face, along the normal
+    const front = sign > 0 ? plane : plane - 1;
+
+    const isSolid = (u: number, v: number): boolean => {
+        const cell = [0, 0, 0];
+        cell[axis] = front;
+        cell[uAxis] = u;
+        cell[vAxis] = v;
+        return cell[2] < 0 || occupied.has(getVoxelKey(cell[0], cell[1], cell[2]));
+    };
+    const point = (u: number, v: number): [number, number, number] => {
+        const corner: [number, number, number] = [0, 0, 0];
+        corner[axis] = plane;
+        corner[uAxis] = u;
+        corner[vAxis] = v;
+        return corner;
+    };
+
+    const strips: OcclusionStrip[] = [];
+    for (let v = v0; v < v1; v++) {
+        if (isSolid(u0 - 1, v)) {
+            strips.push({ corners: [point(u0, v), point(u0, v + 1), point(u0 + OCCLUSION_WIDTH, v + 1), point(u0 + OCCLUSION_WIDTH, v)] });
+        }
+        if (isSolid(u1, v)) {
+            strips.push({ corners: [point(u1, v), point(u1, v + 1), point(u1 - OCCLUSION_WIDTH, v + 1), point(u1 - OCCLUSION_WIDTH, v)] });
+        }
+    }
+    for (let u = u0; u < u1; u++) {
+        if (isSolid(u, v0 - 1)) {
+            strips.push({ corners: [point(u, v0), point(u + 1, v0), point(u + 1, v0 + OCCLUSION_WIDTH), point(u, v0 + OCCLUSION_WIDTH)] });
+        }
+        if (isSolid(u, v1)) {
+            strips.push({ corners: [point(u, v1), point(u + 1, v1), point(u + 1, v1 - OCCLUSION_WIDTH), point(u, v1 - OCCLUSION_WIDTH)] });
+        }
+    }
+    return strips;
+};
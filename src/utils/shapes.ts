@@ -0,0 +1,177 @@
+import type { GridPosition, GridTool, ShapeTool } from '../types/voxel';
+
+const SHAPE_TOOLS: ShapeTool[] = ['line', 'rectangle', 'filled-rectangle', 'ellipse', 'filled-ellipse'];
+
+/**
+ * Check whether a grid tool draws a shape from a drag
+ * @param tool - Grid tool
+ * @returns True for line, rectangle and ellipse tools
+ */
+export const isShapeTool = (tool: GridTool): tool is ShapeTool => {
+    return SHAPE_TOOLS.includes(tool as ShapeTool);
+};
+
+/**
+ * Cells on a straight line between two points (Bresenham)
+ * @param start - First end point
+ * @param end - Second end point
+ * @returns Cells on the line
+ */
+export const getLineCells = (start: GridPosition, end: GridPosition): GridPosition[] => {
+    const cells: GridPosition[] = [];
+    const dx = Math.abs(end.x - start.x);
+    const dy = -Math.abs(end.y - start.y);
+    const stepX = start.x < end.x ? 1 : -1;
+    const stepY = start.y < end.y ? 1 : -1;
+    let error = dx + dy;
+    let { x, y } = start;
+
+    while (true) {
+        cells.push({ x, y });
+        if (x === end.x && y === end.y) break;
+
+        const doubled = error * 2;
+        if (doubled >= dy) {
+            error += dy;
+            x += stepX;
+        }
+        if (doubled <= dx) {
+            error += dx;
+            y += stepY;
+        }
+    }
+
+    return cells;
+};
+
+/**
+ * Cells of an axis-aligned rectangle spanned by two corners
+ * @param start - First corner
+ * @param end - Opposite corner
+ * @param filled - Include the interior
+ * @returns Cells of the rectangle
+ */
+export const getRectangleCells = (start: GridPosition, end: GridPosition, filled: boolean): GridPosition[] => {
+    const cells: GridPosition[] = [];
+    const minX = Math.min(start.x, end.x);
+    const maxX = Math.max(start.x, end.x);
+    const minY = Math.min(start.y, end.y);
+    const maxY = Math.max(start.y, end.y);
+
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            if (filled || x === minX || x === maxX || y === minY || y === maxY) {
+                cells.push({ x, y });
+            }
+        }
+    }
+
+    return cells;
+};
+
+/**
+ * Cells of an ellipse inscribed in the rectangle spanned by two corners.
+ * A cell is inside when its center lies within the ellipse; the outline keeps
+ * inside cells that have a 4-neighbour outside.
+ * @param start - First corner of the bounding box
+ * @param end - Opposite corner of the bounding box
+ * @param filled - Include the interior
+ * @returns Cells of the ellipse
+ */
+export const getEllipseCells = (start: GridPosition, end: GridPosition, filled: boolean): GridPosition[] => {
+    const minX = Math.min(start.x, end.x);
+    const maxX = Math.max(start.x, end.x);
+    const minY = Math.min(start.y, end.y);
+    const maxY = Math.max(start.y, end.y);
+    const centerX = (minX + maxX + 1) / 2;
+    const centerY = (minY + maxY + 1) / 2;
+    const radiusX = (maxX - minX + 1) / 2;
+    const radiusY = (maxY - minY + 1) / 2;
+
+    const isInside = (x: number, y: number): boolean => {
+        const nx = (x + 0.5 - centerX) / radiusX;
+        const ny = (y + 0.5 - centerY) / radiusY;
+        return nx * nx + ny * ny <= 1;
+    };
+
+    const cells: GridPosition[] = [];
+    for (let y = minY; y <= maxY; y++) {
+        for (let x = minX; x <= maxX; x++) {
+            if (!isInside(x, y)) continue;
+
+            const onEdge = !isInside(x - 1, y) || !isInside(x + 1, y) || !isInside(x, y - 1) || !isInside(x, y + 1);
+            if (filled || onEdge) {
+                cells.push({ x, y });
+            }
+        }
+    }
+
+    return cells;
+};
+
+/**
+ * Cells covered by a drag with a shape tool
+ * @param tool - Shape tool
+ * @param start - Cell where the drag started
+ * @param end - Cell under the pointer
+ * @returns Cells of the shape, without duplicates
+ */
+export const getShapeCells = (tool: ShapeTool, start: GridPosition, end: GridPosition): GridPosition[] => {
+    switch (tool) {
+        case 'line':
+            return getLineCells(start, end);
+        case 'rectangle':
+            return getRectangleCells(start, end, false);
+        case 'filled-rectangle':
+            return getRectangleCells(start, end, true);
+        case 'ellipse':
+            return getEllipseCells(start, end, false);
+        case 'filled-ellipse':
+            return getEllipseCells(start, end, true);
+        default:
+            return [];
+    }
+};
+
+/**
+ * Contiguous region of cells matching the start cell (4-connected flood fill)
+ * @param start - Cell to fill from
+ * @param gridSize - Cells per side
+ * @param getCellSignature - Value two cells must share to belong to the same region
+ * @returns Cells in the region
+ */
+export const getFloodFillCells = (
+    start: GridPosition,
+    gridSize: number,
+    getCellSignature: (x: number, y: number) => string
+): GridPosition[] => {
+    const target = getCellSignature(start.x, start.y);
+    const visited = new Set<string>([`${start.x},${start.y}`]);
+    const queue: GridPosition[] = [start];
+    const cells: GridPosition[] = [];
+
+    while (queue.length > 0) {
+        const cell = queue.pop() as GridPosition;
+        cells.push(cell);
+
+        const neighbours = [
+            { x: cell.x + 1, y: cell.y },
+            { x: cell.x - 1, y: cell.y },
+            { x: cell.x, y: cell.y + 1 },
+            { x: cell.x, y: cell.y - 1 },
+        ];
+
+        neighbours.forEach((next) => {
+            const key = `${next.x},${next.y}`;
+            if (next.x < 0 || next.y < 0 || next.x >= gridSize || next.y >= gridSize || visited.has(key)) {
+                return;
+            }
+            visited.add(key);
+            if (getCellSignature(next.x, next.y) === target) {
+                queue.push(next);
+            }
+        });
+    }
+
+    return cells;
+};
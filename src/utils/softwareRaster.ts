@@ -0,0 +1,447 @@
+import { hexToRgb } from './colors';
+import { getSVGViewBox } from './svg';
+
+// Sub-scanlines per pixel row; horizontal coverage is computed exactly
+const SUBSAMPLES = 4;
+
+type Point = [number, number];
+
+type Color = [number, number, number];
+
+/**
+ * Color and opacity of a fill at a pixel center, in pixel coordinates
+ */
+type Paint = (x: number, y: number) => [...color: Color, opacity: number];
+
+interface GradientStop {
+    offset: number;
+    color: Color;
+    opacity: number;
+}
+
+interface LinearGradient {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    /** Whether the vector is in user space rather than fractions of the filled shape's bounding box */
+    userSpace: boolean;
+    stops: GradientStop[];
+}
+
+interface Edge {
+    x0: number;
+    y0: number;
+    x1: number;
+    y1: number;
+    /** +1 when the edge runs downward, -1 when upward */
+    winding: number;
+}
+
+/**
+ * Read the attributes of an element's start tag
+ */
+const readAttributes = (tag: string): Map<string, string> => {
+    const attributes = new Map<string, string>();
+    const pattern = /([\w:-]+)="([^"]*)"/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(tag))) {
+        attributes.set(match[1], match[2]);
+    }
+    return attributes;
+};
+
+/**
+ * Parse a paint value
+ * @param value - Attribute value
+ * @returns RGB color, or null for none
+ * @throws Error for paints other than hex colors and none
+ */
+const readPaint = (value: string): Color | null => {
+    if (value === 'none' || value === 'transparent') {
+        return null;
+    }
+    const short = /^#([0-9a-f])([0-9a-f])([0-9a-f])$/i.exec(value);
+    const hex = short ? `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}` : value;
+    if (!/^#[0-9a-f]{6}$/i.test(hex)) {
+        throw new Error(`Unsupported color "${value}"; only hex colors and none can be rasterized`);
+    }
+    const { r, g, b } = hexToRgb(hex);
+    return [r, g, b];
+};
+
+/**
+ * Parse a gradient coordinate or stop offset, a number or a percentage
+ */
+const readLength = (value: string | undefined, fallback: number): number => {
+    if (value === undefined) {
+        return fallback;
+    }
+    const number = value.endsWith('%') ? Number(value.slice(0, -1)) / 100 : Number(value);
+    if (!Number.isFinite(number)) {
+        throw new Error(`Malformed gradient value "${value}"`);
+    }
+    return number;
+};
+
+/**
+ * Read the linear gradients of an SVG by id
+ * @throws Error for malformed coordinates and unsupported stop colors
+ */
+const readLinearGradients = (svg: string): Map<string, LinearGradient> => {
+    const gradients = new Map<string, LinearGradient>();
+    const elements = /<linearGradient\b([^>]*)>([\s\S]*?)<\/linearGradient>/g;
+    let match: RegExpExecArray | null;
+    while ((match = elements.exec(svg))) {
+        const attributes = readAttributes(match[1]);
+        const id = attributes.get('id');
+        if (!id) continue;
+
+        const stops: GradientStop[] = [];
+        const stopPattern = /<stop\b([^>]*)>/g;
+        let stop: RegExpExecArray | null;
+        while ((stop = stopPattern.exec(match[2]))) {
+            const stopAttributes = readAttributes(stop[1]);
+            // Offsets never go back, as in SVG
+            const offset = Math.max(stops[stops.length - 1]?.offset ?? 0, Math.min(1, readLength(stopAttributes.get('offset'), 0)));
+            stops.push({
+                offset,
+                color: readPaint(stopAttributes.get('stop-color') ?? '#000000') ?? [0, 0, 0],
+                opacity: readLength(stopAttributes.get('stop-opacity'), 1),
+            });
+        }
+
+        gradients.set(id, {
+            x1: readLength(attributes.get('x1'), 0),
+            y1: readLength(attributes.get('y1'), 0),
+            x2: readLength(attributes.get('x2'), 1),
+            y2: readLength(attributes.get('y2'), 0),
+            userSpace: attributes.get('gradientUnits') === 'userSpaceOnUse',
+            stops,
+        });
+    }
+    return gradients;
+};
+
+/**
+ * Paint of a linear gradient over a shape, padded beyond its ends
+ * @param gradient - Gradient
+ * @param polygons - Filled shape in user space, for bounding box units
+ * @param toUser - Convert a pixel position to user space
+ * @returns Paint, or null for gradients without stops, which paint nothing
+ */
+const toGradientPaint = (gradient: LinearGradient, polygons: Point[][], toUser: (x: number, y: number) => Point): Paint | null => {
+    const { stops } = gradient;
+    if (stops.length === 0) {
+        return null;
+    }
+
+    let [boxX, boxY, boxWidth, boxHeight] = [0, 0, 1, 1];
+    if (!gradient.userSpace) {
+        const points = polygons.flat();
+        const xs = points.map(([x]) => x);
+        const ys = points.map(([, y]) => y);
+        boxX = Math.min(...xs);
+        boxY = Math.min(...ys);
+        boxWidth = Math.max(...xs) - boxX || 1;
+        boxHeight = Math.max(...ys) - boxY || 1;
+    }
+    const dx = gradient.x2 - gradient.x1;
+    const dy = gradient.y2 - gradient.y1;
+    const lengthSquared = dx * dx + dy * dy;
+
+    return (x, y) => {
+        const [userX, userY] = toUser(x, y);
+        const t = lengthSquared > 0
+            ? (((userX - boxX) / boxWidth - gradient.x1) * dx + ((userY - boxY) / boxHeight - gradient.y1) * dy) / lengthSquared
+            : 1;
+
+        const after = stops.findIndex((stop) => stop.offset > t);
+        if (after <= 0) {
+            const { color, opacity } = after === 0 ? stops[0] : stops[stops.length - 1];
+            return [...color, opacity];
+        }
+        const from = stops[after - 1];
+        const to = stops[after];
+        const share = (t - from.offset) / (to.offset - from.offset);
+        return [
+            from.color[0] + (to.color[0] - from.color[0]) * share,
+            from.color[1] + (to.color[1] - from.color[1]) * share,
+            from.color[2] + (to.color[2] - from.color[2]) * share,
+            from.opacity + (to.opacity - from.opacity) * share,
+        ];
+    };
+};
+
+/**
+ * Split path data into closed polygons. Only straight segments (M, L, H, V, Z) are supported,
+ * which covers everything the scene renderer writes.
+ * @param d - Path data
+ * @returns Polygons as lists of points
+ * @throws Error for curves and other unsupported commands
+ */
+const readPathPolygons = (d: string): Point[][] => {
+    const tokens = d.match(/[a-z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+    const polygons: Point[][] = [];
+    let current: Point[] = [];
+    let command = '';
+    let x = 0;
+    let y = 0;
+    let index = 0;
+
+    const next = (): number => {
+        const value = Number(tokens[index++]);
+        if (!Number.isFinite(value)) {
+            throw new Error(`Malformed path data "${d.slice(0, 40)}"`);
+        }
+        return value;
+    };
+    const close = () => {
+        if (current.length > 2) polygons.push(current);
+        current = [];
+    };
+
+    while (index < tokens.length) {
+        if (/^[a-z]$/i.test(tokens[index])) {
+            command = tokens[index++];
+        }
+        const relative = command === command.toLowerCase();
+        switch (command.toUpperCase()) {
+            case 'M':
+                close();
+                x = (relative ? x : 0) + next();
+                y = (relative ? y : 0) + next();
+                current.push([x, y]);
+                // Further coordinate pairs are line segments
+                command = relative ? 'l' : 'L';
+                break;
+            case 'L':
+                x = (relative ? x : 0) + next();
+                y = (relative ? y : 0) + next();
+                current.push([x, y]);
+                break;
+            case 'H':
+                x = (relative ? x : 0) + next();
+                current.push([x, y]);
+                break;
+            case 'V':
+                y = (relative ? y : 0) + next();
+                current.push([x, y]);
+                break;
+            case 'Z': {
+                const start = current[0];
+                close();
+                if (start) [x, y] = start;
+                break;
+            }
+            default:
+                throw new Error(`Unsupported path command "${command}"; only straight segments can be rasterized`);
+        }
+    }
+    close();
+
+    return polygons;
+};
+
+/**
+ * Edges of polygons, dropping horizontal ones
+ */
+const toEdges = (polygons: Point[][]): Edge[] => {
+    const edges: Edge[] = [];
+    polygons.forEach((polygon) => {
+        polygon.forEach(([x0, y0], index) => {
+            const [x1, y1] = polygon[(index + 1) % polygon.length];
+            if (y0 !== y1) {
+                edges.push({ x0, y0, x1, y1, winding: y1 > y0 ? 1 : -1 });
+            }
+        });
+    });
+    return edges;
+};
+
+/**
+ * Outline of polygons as one rectangle per side, extended by half the width at both ends
+ * so corners are covered. All rectangles share one orientation, so the nonzero rule fills their union.
+ */
+const toStrokePolygons = (polygons: Point[][], width: number): Point[][] => {
+    const half = width / 2;
+    const strokes: Point[][] = [];
+    polygons.forEach((polygon) => {
+        polygon.forEach(([ax, ay], index) => {
+            const [bx, by] = polygon[(index + 1) % polygon.length];
+            const length = Math.hypot(bx - ax, by - ay);
+            if (length === 0) return;
+            const dx = ((bx - ax) / length) * half;
+            const dy = ((by - ay) / length) * half;
+            strokes.push([
+                [ax - dx - dy, ay - dy + dx],
+                [bx + dx - dy, by + dy + dx],
+                [bx + dx + dy, by + dy - dx],
+                [ax - dx + dy, ay - dy - dx],
+            ]);
+        });
+    });
+    return strokes;
+};
+
+/**
+ * Paint polygons onto an RGBA buffer with the nonzero fill rule, anti-aliased, blending over what is there
+ * @param pixels - RGBA pixels, modified in place
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param polygons - Polygons in pixel coordinates
+ * @param paint - Paint at each pixel
+ */
+const fillPolygons = (pixels: Uint8ClampedArray, width: number, height: number, polygons: Point[][], paint: Paint): void => {
+    const edges = toEdges(polygons);
+    if (edges.length === 0) return;
+
+    let minY = Infinity;
+    let maxY = -Infinity;
+    edges.forEach((edge) => {
+        minY = Math.min(minY, edge.y0, edge.y1);
+        maxY = Math.max(maxY, edge.y0, edge.y1);
+    });
+    const firstRow = Math.max(0, Math.floor(minY));
+    const lastRow = Math.min(height - 1, Math.ceil(maxY));
+
+    const coverage = new Float32Array(width);
+    const crossings: { x: number; winding: number }[] = [];
+
+    for (let row = firstRow; row <= lastRow; row++) {
+        let left = width;
+        let right = -1;
+
+        for (let sample = 0; sample < SUBSAMPLES; sample++) {
+            const y = row + (sample + 0.5) / SUBSAMPLES;
+            crossings.length = 0;
+            edges.forEach((edge) => {
+                const top = Math.min(edge.y0, edge.y1);
+                const bottom = Math.max(edge.y0, edge.y1);
+                if (y >= top && y < bottom) {
+                    crossings.push({ x: edge.x0 + ((y - edge.y0) / (edge.y1 - edge.y0)) * (edge.x1 - edge.x0), winding: edge.winding });
+                }
+            });
+            crossings.sort((a, b) => a.x - b.x);
+
+            let winding = 0;
+            for (let i = 0; i < crossings.length - 1; i++) {
+                winding += crossings[i].winding;
+                if (winding === 0) continue;
+
+                // Add the covered share of each pixel between this crossing and the next
+                const start = Math.max(0, crossings[i].x);
+                const end = Math.min(width, crossings[i + 1].x);
+                if (end <= start) continue;
+                const first = Math.floor(start);
+                const last = Math.floor(end);
+                if (first === last) {
+                    coverage[first] += (end - start) / SUBSAMPLES;
+                } else {
+                    coverage[first] += (first + 1 - start) / SUBSAMPLES;
+                    for (let x = first + 1; x < last; x++) coverage[x] += 1 / SUBSAMPLES;
+                    if (last < width) coverage[last] += (end - last) / SUBSAMPLES;
+                }
+                left = Math.min(left, first);
+                right = Math.max(right, Math.min(width - 1, last));
+            }
+        }
+
+        for (let x = left; x <= right; x++) {
+            const covered = Math.min(1, coverage[x]);
+            coverage[x] = 0;
+            if (covered <= 0) continue;
+            const [red, green, blue, opacity] = paint(x + 0.5, row + 0.5);
+            const color = [red, green, blue];
+            const alpha = covered * Math.max(0, Math.min(1, opacity));
+            if (alpha <= 0) continue;
+
+            const offset = (row * width + x) * 4;
+            const backAlpha = pixels[offset + 3] / 255;
+            const outAlpha = alpha + backAlpha * (1 - alpha);
+            for (let channel = 0; channel < 3; channel++) {
+                pixels[offset + channel] = (color[channel] * alpha + pixels[offset + channel] * backAlpha * (1 - alpha)) / outAlpha;
+            }
+            pixels[offset + 3] = outAlpha * 255;
+        }
+    }
+};
+
+/**
+ * Paint of one color
+ */
+const solidPaint = (color: Color, opacity: number = 1): Paint => () => [...color, opacity];
+
+/**
+ * Rasterize a flat SVG without a browser: `<rect>` and straight-edged `<path>` elements with
+ * hex fills, fill opacities, linear gradient fills and solid strokes, drawn in document order,
+ * as written by generateSceneSVG. Groups are flattened; transforms, other paint servers,
+ * text and animations are not supported.
+ * The viewBox is fitted into the image like preserveAspectRatio="xMidYMid meet".
+ * @param svg - SVG string
+ * @param width - Image width in pixels
+ * @param height - Image height in pixels
+ * @param background - Fill drawn behind the SVG; transparent when omitted
+ * @returns RGBA pixels, row by row
+ * @throws Error for content that can't be rasterized
+ */
+export const rasterizeSVGPixels = (svg: string, width: number, height: number, background?: string): Uint8ClampedArray => {
+    const pixels = new Uint8ClampedArray(width * height * 4);
+    const [boxX, boxY, boxWidth, boxHeight] = getSVGViewBox(svg) ?? [0, 0, width, height];
+    const scale = Math.min(width / boxWidth, height / boxHeight);
+    const offsetX = (width - boxWidth * scale) / 2 - boxX * scale;
+    const offsetY = (height - boxHeight * scale) / 2 - boxY * scale;
+    const toPixels = (polygons: Point[][]): Point[][] => {
+        return polygons.map((polygon) => polygon.map(([x, y]): Point => [x * scale + offsetX, y * scale + offsetY]));
+    };
+    const toUser = (x: number, y: number): Point => [(x - offsetX) / scale, (y - offsetY) / scale];
+    const gradients = readLinearGradients(svg);
+
+    if (background) {
+        const color = readPaint(background);
+        if (color) {
+            fillPolygons(pixels, width, height, [[[0, 0], [width, 0], [width, height], [0, height]]], solidPaint(color));
+        }
+    }
+
+    const elements = /<(path|rect)\b([^>]*)>/g;
+    let match: RegExpExecArray | null;
+    while ((match = elements.exec(svg))) {
+        const attributes = readAttributes(match[2]);
+        let polygons: Point[][];
+        if (match[1] === 'rect') {
+            const x = Number(attributes.get('x') ?? 0);
+            const y = Number(attributes.get('y') ?? 0);
+            const w = Number(attributes.get('width') ?? 0);
+            const h = Number(attributes.get('height') ?? 0);
+            polygons = [[[x, y], [x + w, y], [x + w, y + h], [x, y + h]]];
+        } else {
+            polygons = readPathPolygons(attributes.get('d') ?? '');
+        }
+
+        const fillValue = attributes.get('fill') ?? '#000000';
+        const reference = /^url\(#([^)]+)\)$/.exec(fillValue);
+        let fill: Paint | null;
+        if (reference) {
+            const gradient = gradients.get(reference[1]);
+            if (!gradient) {
+                throw new Error(`Unsupported fill "${fillValue}"; only linear gradients can be rasterized`);
+            }
+            fill = toGradientPaint(gradient, polygons, toUser);
+        } else {
+            const color = readPaint(fillValue);
+            fill = color && solidPaint(color, readLength(attributes.get('fill-opacity'), 1));
+        }
+        if (fill) {
+            fillPolygons(pixels, width, height, toPixels(polygons), fill);
+        }
+
+        const stroke = readPaint(attributes.get('stroke') ?? 'none');
+        const strokeWidth = Number(attributes.get('stroke-width') ?? 1) * scale;
+        if (stroke && strokeWidth > 0) {
+            fillPolygons(pixels, width, height, toStrokePolygons(toPixels(polygons), strokeWidth), solidPaint(stroke));
+        }
+    }
+
+    return pixels;
+};
@@ -0,0 +1,235 @@
+import type { Lighting, Voxel, VoxelLayer, VoxelSelection } from '../types/voxel';
+import { downloadBlob } from './download';
+import { generateSceneSVG } from './isometric';
+import { getVisibleVoxels, getVoxelLayerId } from './layers';
+import { rasterizeSVG } from './raster';
+import { getSVGViewBox, setSVGViewBox } from './svg';
+import { getVoxelKey } from './voxels';
+
+/**
+ * What each sprite shows: the whole scene, one visible layer, or the selection
+ */
+export type SpriteSource = 'scene' | 'layers' | 'selection';
+
+/**
+ * TexturePacker JSON flavours: frames keyed by name, or a list of named frames
+ */
+export type AtlasFormat = 'hash' | 'array';
+
+export interface SpriteSheetOptions {
+    source: SpriteSource;
+    /** Width and height of every sprite in pixels */
+    tileSize: number;
+    /** Number of views, in quarter turns clockwise from the current one (1-4) */
+    rotations: number;
+    atlasFormat: AtlasFormat;
+    voxelOutlines: boolean;
+}
+
+interface AtlasRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+interface AtlasFrame {
+    frame: AtlasRect;
+    rotated: boolean;
+    trimmed: boolean;
+    spriteSourceSize: AtlasRect;
+    sourceSize: { w: number; h: number };
+}
+
+/**
+ * Packed sprite sheet, ready to save
+ */
+export interface SpriteSheet {
+    image: Blob;
+    atlas: string;
+}
+
+// Transparent pixels between sprites, so texture filtering doesn't bleed into neighbours
+const SPRITE_SPACING = 2;
+
+/**
+ * Blocks to render for each sprite, by sprite name
+ * @param voxels - Scene voxels
+ * @param layers - Scene layers
+ * @param selection - Current selection, if any
+ * @param source - What each sprite shows
+ * @returns Named block sets in sheet order
+ * @throws Error when there is nothing to render
+ */
+const collectSprites = (
+    voxels: Map<string, Voxel>,
+    layers: VoxelLayer[],
+    selection: VoxelSelection | null,
+    source: SpriteSource
+): { name: string; voxels: Map<string, Voxel> }[] => {
+    if (source === 'selection') {
+        if (!selection || selection.voxels.length === 0) {
+            throw new Error('Select a region with blocks first');
+        }
+        return [{ name: 'selection', voxels: new Map(selection.voxels.map((voxel) => [getVoxelKey(voxel.x, voxel.y, voxel.z), voxel])) }];
+    }
+
+    const visible = getVisibleVoxels(voxels, layers);
+    if (visible.size === 0) {
+        throw new Error('There are no visible blocks to export');
+    }
+    if (source === 'scene') {
+        return [{ name: 'scene', voxels: visible }];
+    }
+
+    // Layer names become sprite names, so repeats get a number
+    const names = new Set<string>();
+    return layers
+        .filter((layer) => layer.visible)
+        .map((layer) => {
+            const layerVoxels = new Map<string, Voxel>();
+            visible.forEach((voxel, key) => {
+                if (getVoxelLayerId(voxel, layers) === layer.id) {
+                    layerVoxels.set(key, voxel);
+                }
+            });
+
+            const base = layer.name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'layer';
+            let name = base;
+            for (let n = 2; names.has(name); n++) {
+                name = `${base}-${n}`;
+            }
+            names.add(name);
+            return { name, voxels: layerVoxels };
+        })
+        .filter((sprite) => sprite.voxels.size > 0);
+};
+
+/**
+ * Render sprites from one or more views and pack them into a grid on one PNG,
+ * described by a TexturePacker-style JSON atlas (as loaded by Phaser, Godot importers and others).
+ * All sprites share one scale, and sprites of the same view share one framing,
+ * so layers rendered separately line up when drawn at the same position.
+ * @param voxels - Scene voxels
+ * @param layers - Scene layers
+ * @param selection - Current selection, if any
+ * @param lighting - Scene light
+ * @param viewRotation - First view, in quarter turns
+ * @param options - Sprite source, size, views and atlas format
+ * @param imageName - Filename of the PNG, recorded in the atlas
+ * @returns PNG and atlas JSON
+ */
+export const createSpriteSheet = async (
+    voxels: Map<string, Voxel>,
+    layers: VoxelLayer[],
+    selection: VoxelSelection | null,
+    lighting: Lighting,
+    viewRotation: number,
+    options: SpriteSheetOptions,
+    imageName: string
+): Promise<SpriteSheet> => {
+    const sprites = collectSprites(voxels, layers, selection, options.source);
+    const rotations = Array.from({ length: Math.max(1, Math.min(4, options.rotations)) }, (_, index) => (viewRotation + index) % 4);
+
+    const views = rotations.map((rotation) => {
+        const svgs = sprites.map((sprite) => generateSceneSVG(sprite.voxels, lighting, rotation, { voxelOutlines: options.voxelOutlines }));
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        svgs.forEach((svg) => {
+            const [x, y, width, height] = getSVGViewBox(svg) ?? [0, 0, 400, 400];
+            minX = Math.min(minX, x);
+            minY = Math.min(minY, y);
+            maxX = Math.max(maxX, x + width);
+            maxY = Math.max(maxY, y + height);
+        });
+        return { rotation, svgs, centerX: (minX + maxX) / 2, centerY: (minY + maxY) / 2, extent: Math.max(maxX - minX, maxY - minY) };
+    });
+
+    // One square framing size for every view keeps blocks the same size across the sheet
+    const extent = Math.max(...views.map((view) => view.extent));
+    const tileSize = options.tileSize;
+    const count = sprites.length * views.length;
+    const columns = Math.ceil(Math.sqrt(count));
+    const rows = Math.ceil(count / columns);
+    const width = columns * tileSize + (columns - 1) * SPRITE_SPACING;
+    const height = rows * tileSize + (rows - 1) * SPRITE_SPACING;
+
+    const sheet = document.createElement('canvas');
+    sheet.width = width;
+    sheet.height = height;
+    const ctx = sheet.getContext('2d');
+    if (!ctx) {
+        throw new Error('Could not get canvas context');
+    }
+
+    const frames: { filename: string; data: AtlasFrame }[] = [];
+    let index = 0;
+    for (let spriteIndex = 0; spriteIndex < sprites.length; spriteIndex++) {
+        for (const view of views) {
+            const svg = setSVGViewBox(view.svgs[spriteIndex], [view.centerX - extent / 2, view.centerY - extent / 2, extent, extent]);
+            const tile = await rasterizeSVG(svg, tileSize, tileSize);
+            const x = (index % columns) * (tileSize + SPRITE_SPACING);
+            const y = Math.floor(index / columns) * (tileSize + SPRITE_SPACING);
+            ctx.drawImage(tile, x, y);
+
+            const name = views.length > 1 ? `${sprites[spriteIndex].name}-${view.rotation * 90}` : sprites[spriteIndex].name;
+            frames.push({
+                filename: `${name}.png`,
+                data: {
+                    frame: { x, y, w: tileSize, h: tileSize },
+                    rotated: false,
+                    trimmed: false,
+                    spriteSourceSize: { x: 0, y: 0, w: tileSize, h: tileSize },
+                    sourceSize: { w: tileSize, h: tileSize },
+                },
+            });
+            index++;
+        }
+    }
+
+    const image = await new Promise<Blob>((resolve, reject) => {
+        sheet.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode PNG'))), 'image/png');
+    });
+
+    const atlas = {
+        frames: options.atlasFormat === 'hash'
+            ? Object.fromEntries(frames.map(({ filename, data }) => [filename, data]))
+            : frames.map(({ filename, data }) => ({ filename, ...data })),
+        meta: {
+            app: 'Isometric Voxel Builder',
+            version: '1.0',
+            image: imageName,
+            format: 'RGBA8888',
+            size: { w: width, h: height },
+            scale: '1',
+        },
+    };
+
+    return { image, atlas: JSON.stringify(atlas, null, 2) };
+};
+
+/**
+ * Render a sprite sheet and download the PNG and its JSON atlas
+ * @param voxels - Scene voxels
+ * @param layers - Scene layers
+ * @param selection - Current selection, if any
+ * @param lighting - Scene light
+ * @param viewRotation - First view, in quarter turns
+ * @param options - Sprite source, size, views and atlas format
+ * @param basename - Filename for both files, without extension
+ */
+export const downloadSpriteSheet = async (
+    voxels: Map<string, Voxel>,
+    layers: VoxelLayer[],
+    selection: VoxelSelection | null,
+    lighting: Lighting,
+    viewRotation: number,
+    options: SpriteSheetOptions,
+    basename: string
+): Promise<void> => {
+    const { image, atlas } = await createSpriteSheet(voxels, layers, selection, lighting, viewRotation, options, `${basename}.png`);
+    downloadBlob(image, `${basename}.png`);
+    downloadBlob(new Blob([atlas], { type: 'application/json' }), `${basename}.json`);
+};
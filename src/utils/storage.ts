@@ -0,0 +1,132 @@
+import type { StoredProject } from '../types/project';
+
+const DB_NAME = 'isometric-voxel-builder';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const LAST_PROJECT_KEY = 'isometric-voxel:last-project';
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open the project database, creating the object store on first use
+ * @returns Database connection
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error('IndexedDB is not available in this browser'));
+                return;
+            }
+
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+                    db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error ?? new Error('Could not open project database'));
+        });
+
+        // Allow a later call to retry after a failed open
+        databasePromise.catch(() => {
+            databasePromise = null;
+        });
+    }
+
+    return databasePromise;
+};
+
+/**
+ * Run a single request against the project store and wait for its transaction to commit
+ * @param mode - Transaction mode
+ * @param run - Creates the request from the store
+ * @returns Request result
+ */
+const runRequest = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+    const db = await openDatabase();
+
+    return new Promise((resolve, reject) => {
+        const transaction = db.transaction(PROJECT_STORE, mode);
+        const request = run(transaction.objectStore(PROJECT_STORE));
+
+        transaction.oncomplete = () => resolve(request.result);
+        transaction.onerror = () => reject(transaction.error ?? new Error('Project database request failed'));
+        transaction.onabort = () => reject(transaction.error ?? new Error('Project database request was aborted'));
+    });
+};
+
+/**
+ * List all stored projects, most recently updated first
+ * @returns Stored projects
+ */
+export const listProjects = async (): Promise<StoredProject[]> => {
+    const projects = await runRequest<StoredProject[]>('readonly', (store) => store.getAll());
+    return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * Read a stored project
+ * @param id - Project id
+ * @returns Stored project, if present
+ */
+export const getProject = (id: string): Promise<StoredProject | undefined> => {
+    return runRequest<StoredProject | undefined>('readonly', (store) => store.get(id));
+};
+
+/**
+ * Insert or replace a stored project
+ * @param project - Project to store
+ */
+export const putProject = async (project: StoredProject): Promise<void> => {
+    await runRequest('readwrite', (store) => store.put(project));
+};
+
+/**
+ * Delete a stored project
+ * @param id - Project id
+ */
+export const deleteProject = async (id: string): Promise<void> => {
+    await runRequest('readwrite', (store) => store.delete(id));
+};
+
+/**
+ * Generate a unique project id
+ * @returns Project id
+ */
+export const createProjectId = (): string => {
+    if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
+
+/**
+ * Read the id of the project that was open last
+ * @returns Project id, if any
+ */
+export const getLastProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(LAST_PROJECT_KEY);
+    } catch {
+        return null;
+    }
+};
+
+/**
+ * Remember the id of the open project for the next visit
+ * @param id - Project id
+ */
+export const setLastProjectId = (id: string): void => {
+    try {
+        localStorage.setItem(LAST_PROJECT_KEY, id);
+    } catch {
+        // Storage may be disabled; restoring simply falls back to the newest project
+    }
+};
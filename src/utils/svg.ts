@@ -1,25 +1,12 @@
+import { downloadBlob } from './download';
+
 /**
  * Download SVG file to user's device
  * @param svg - SVG string
  * @param filename - Filename for download
  */
 export const downloadSVG = (svg: string, filename: string): void => {
-    const blob = new Blob([svg], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = filename;
-    link.style.display = 'none';
-
-    document.body.appendChild(link);
-    link.click();
-
-    // Cleanup
-    setTimeout(() => {
-        document.body.removeChild(link);
-        URL.revokeObjectURL(url);
-    }, 100);
+    downloadBlob(new Blob([svg], { type: 'image/svg+xml' }), filename);
 };
 
 /**
@@ -34,6 +21,30 @@ export const addSVGMetadata = (svg: string): string => {
     return svg.replace('<svg', `${metadata}\n<svg`);
 };
 
+/**
+ * Read the viewBox of an SVG
+ * @param svg - SVG string
+ * @returns x, y, width and height, or null without a viewBox
+ */
+export const getSVGViewBox = (svg: string): [number, number, number, number] | null => {
+    const match = /viewBox="([^"]+)"/.exec(svg);
+    if (!match) {
+        return null;
+    }
+    const [x, y, width, height] = match[1].trim().split(/[\s,]+/).map(Number);
+    return [x, y, width, height];
+};
+
+/**
+ * Replace the viewBox of an SVG
+ * @param svg - SVG string with a viewBox
+ * @param viewBox - x, y, width and height
+ * @returns SVG string
+ */
+export const setSVGViewBox = (svg: string, [x, y, width, height]: [number, number, number, number]): string => {
+    return svg.replace(/viewBox="[^"]+"/, `viewBox="${x} ${y} ${width} ${height}"`);
+};
+
 /**
  * Generate filename with timestamp
  * @returns Filename string
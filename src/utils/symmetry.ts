@@ -0,0 +1,64 @@
+import type { GridPosition, SymmetryMode } from '../types/voxel';
+
+/**
+ * Resolve the symmetry center
+ * @param axis - User-placed center, or null for the middle of the grid
+ * @param gridSize - Cells per side
+ * @returns Center in grid-line coordinates
+ */
+export const getSymmetryCenter = (axis: GridPosition | null, gridSize: number): GridPosition => {
+    return axis ?? { x: gridSize / 2, y: gridSize / 2 };
+};
+
+/**
+ * Repeat cells according to a symmetry mode.
+ * The center is in grid-line coordinates, so `gridSize / 2` is the middle of the grid
+ * and `x + 0.5` runs through the middle of cell column x.
+ * @param cells - Cells painted directly
+ * @param mode - Symmetry mode
+ * @param center - Point the mirror axes pass through
+ * @returns The cells with their symmetric counterparts, without duplicates
+ */
+export const getSymmetricCells = (cells: GridPosition[], mode: SymmetryMode, center: GridPosition): GridPosition[] => {
+    if (mode === 'none') {
+        return cells;
+    }
+
+    const seen = new Set<string>();
+    const result: GridPosition[] = [];
+    const add = (x: number, y: number) => {
+        const key = `${x},${y}`;
+        if (!seen.has(key)) {
+            seen.add(key);
+            result.push({ x, y });
+        }
+    };
+
+    cells.forEach(({ x, y }) => {
+        const mirroredX = 2 * center.x - x - 1;
+        const mirroredY = 2 * center.y - y - 1;
+        add(x, y);
+
+        switch (mode) {
+            case 'mirror-x':
+                add(mirroredX, y);
+                break;
+            case 'mirror-y':
+                add(x, mirroredY);
+                break;
+            case 'quad':
+                add(mirroredX, y);
+                add(x, mirroredY);
+                add(mirroredX, mirroredY);
+                break;
+            case 'radial':
+                // Quarter turns of the cell center around the axis center
+                add(center.x + center.y - y - 1, center.y - center.x + x);
+                add(mirroredX, mirroredY);
+                add(center.x - center.y + y, center.x + center.y - x - 1);
+                break;
+        }
+    });
+
+    return result;
+};
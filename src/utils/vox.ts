@@ -0,0 +1,327 @@
+import type { ColorOption, Voxel } from '../types/voxel';
+import type { ProjectData } from '../types/project';
+import { findNearestColor, hexToRgb } from './colors';
+import { downloadBlob } from './download';
+import { createEmptyProject } from './project';
+import { MAX_GRID_SIZE, MAX_LAYERS, MIN_GRID_SIZE, getVoxelKey } from './voxels';
+
+/**
+ * File extension for MagicaVoxel models
+ */
+export const VOX_EXTENSION = '.vox';
+
+// Version written to exported files; readers accept any version
+const VOX_VERSION = 150;
+
+// Largest model size per axis and number of colors the format allows
+const VOX_MAX_SIZE = 256;
+const VOX_MAX_COLORS = 255;
+
+// Smallest content of the chunks that are read, in bytes
+const MIN_CHUNK_SIZES: Record<string, number> = {
+    SIZE: 12,
+    XYZI: 4,
+    RGBA: 1024,
+};
+
+/**
+ * Error raised when a `.vox` file cannot be read
+ */
+export class VoxFileError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VoxFileError';
+    }
+}
+
+interface VoxModel {
+    size: { x: number; y: number; z: number };
+    /** Four bytes per voxel: x, y, z, palette index */
+    voxels: Uint8Array;
+}
+
+const toHex = (r: number, g: number, b: number): string => {
+    return '#' + ((r << 16) | (g << 8) | b).toString(16).padStart(6, '0').toUpperCase();
+};
+
+/**
+ * MagicaVoxel's built-in palette, used by files without an RGBA chunk.
+ * Index 0 is unused; 1-215 are a color cube without black, followed by
+ * red, green, blue and gray ramps.
+ */
+const DEFAULT_PALETTE: string[] = (() => {
+    const cube = [0xff, 0xcc, 0x99, 0x66, 0x33, 0x00];
+    const ramp = [0xee, 0xdd, 0xbb, 0xaa, 0x88, 0x77, 0x55, 0x44, 0x22, 0x11];
+    const palette = ['#000000'];
+
+    cube.forEach((r) => cube.forEach((g) => cube.forEach((b) => {
+        if (r !== 0 || g !== 0 || b !== 0) {
+            palette.push(toHex(r, g, b));
+        }
+    })));
+    ramp.forEach((v) => palette.push(toHex(v, 0, 0)));
+    ramp.forEach((v) => palette.push(toHex(0, v, 0)));
+    ramp.forEach((v) => palette.push(toHex(0, 0, v)));
+    ramp.forEach((v) => palette.push(toHex(v, v, v)));
+
+    return palette;
+})();
+
+const readId = (view: DataView, offset: number): string => {
+    return String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+};
+
+/**
+ * Read the models and palette from a `.vox` file
+ * @param buffer - File contents
+ * @returns Models in file order and the 256-entry palette (index 0 unused)
+ */
+const readVoxChunks = (buffer: ArrayBuffer): { models: VoxModel[]; palette: string[] } => {
+    const view = new DataView(buffer);
+    if (buffer.byteLength < 20 || readId(view, 0) !== 'VOX ') {
+        throw new VoxFileError('File is not a MagicaVoxel .vox model');
+    }
+    if (readId(view, 8) !== 'MAIN') {
+        throw new VoxFileError('File has no MAIN chunk');
+    }
+
+    const models: VoxModel[] = [];
+    let palette = DEFAULT_PALETTE;
+    let size: VoxModel['size'] | null = null;
+
+    // Children of MAIN follow its (empty) content
+    let offset = 20 + view.getUint32(12, true);
+    const end = Math.min(buffer.byteLength, offset + view.getUint32(16, true));
+
+    while (offset + 12 <= end) {
+        const id = readId(view, offset);
+        const contentSize = view.getUint32(offset + 4, true);
+        const childrenSize = view.getUint32(offset + 8, true);
+        const content = offset + 12;
+        if (content + contentSize > buffer.byteLength) {
+            throw new VoxFileError(`Chunk ${id} runs past the end of the file`);
+        }
+        if (contentSize < (MIN_CHUNK_SIZES[id] ?? 0)) {
+            throw new VoxFileError(`Chunk ${id} is ${contentSize} bytes, expected at least ${MIN_CHUNK_SIZES[id]}`);
+        }
+
+        if (id === 'SIZE') {
+            size = {
+                x: view.getUint32(content, true),
+                y: view.getUint32(content + 4, true),
+                z: view.getUint32(content + 8, true),
+            };
+        } else if (id === 'XYZI') {
+            if (!size) {
+                throw new VoxFileError('XYZI chunk without a preceding SIZE chunk');
+            }
+            const count = view.getUint32(content, true);
+            if (4 + count * 4 > contentSize) {
+                throw new VoxFileError('XYZI chunk is shorter than its voxel count');
+            }
+            models.push({ size, voxels: new Uint8Array(buffer, content + 4, count * 4) });
+            size = null;
+        } else if (id === 'RGBA') {
+            // Entry i of the chunk is palette index i + 1
+            palette = ['#000000'];
+            for (let i = 0; i < 255; i++) {
+                const entry = content + i * 4;
+                palette.push(toHex(view.getUint8(entry), view.getUint8(entry + 1), view.getUint8(entry + 2)));
+            }
+        }
+
+        offset = content + contentSize + childrenSize;
+    }
+
+    return { models, palette };
+};
+
+/**
+ * Convert a `.vox` file into a new project. MagicaVoxel's Y axis points away from the
+ * viewer, so rows are flipped to keep models from appearing mirrored.
+ * Blocks that don't fit are left out and reported in the warnings.
+ * @param buffer - File contents
+ * @returns Project and human-readable warnings
+ * @throws VoxFileError when the file is not a valid model
+ */
+export const parseVox = (buffer: ArrayBuffer): { project: ProjectData; warnings: string[] } => {
+    const { models, palette } = readVoxChunks(buffer);
+    if (models.length === 0) {
+        throw new VoxFileError('File contains no models');
+    }
+
+    const warnings: string[] = [];
+    if (models.length > 1) {
+        warnings.push(`The file has ${models.length} models; only the first was imported.`);
+    }
+
+    const [model] = models;
+    const gridSize = Math.max(MIN_GRID_SIZE, Math.min(MAX_GRID_SIZE, Math.max(model.size.x, model.size.y)));
+    const offsetX = Math.floor((gridSize - model.size.x) / 2);
+    const offsetY = Math.floor((gridSize - model.size.y) / 2);
+
+    const project = createEmptyProject();
+    const layer = project.layers[0].id;
+    const voxels = new Map<string, Voxel>();
+    const colors: ColorOption[] = [];
+    let tooTall = 0;
+    let outside = 0;
+    let noColor = 0;
+
+    for (let i = 0; i < model.voxels.length; i += 4) {
+        const [vx, vy, z, index] = [model.voxels[i], model.voxels[i + 1], model.voxels[i + 2], model.voxels[i + 3]];
+        const x = vx + offsetX;
+        const y = model.size.y - 1 - vy + offsetY;
+
+        if (index === 0) {
+            noColor++;
+            continue;
+        }
+        if (x < 0 || y < 0 || x >= gridSize || y >= gridSize) {
+            outside++;
+            continue;
+        }
+        if (z >= MAX_LAYERS) {
+            tooTall++;
+            continue;
+        }
+
+        const color = palette[index];
+        if (!colors.some(({ hex }) => hex === color)) {
+            colors.push({ name: `Color ${index}`, hex: color, contrast: '' });
+        }
+        voxels.set(getVoxelKey(x, y, z), { x, y, z, color, layer });
+    }
+
+    if (tooTall > 0) {
+        warnings.push(`${tooTall} blocks above level ${MAX_LAYERS} were left out; the model is ${model.size.z} levels tall but the builder holds ${MAX_LAYERS}.`);
+    }
+    if (outside > 0) {
+        warnings.push(`${outside} blocks outside the ${gridSize}×${gridSize} grid were left out.`);
+    }
+    if (noColor > 0) {
+        warnings.push(`${noColor} blocks with palette index 0 were left out.`);
+    }
+
+    return {
+        project: {
+            ...project,
+            gridSize,
+            voxels,
+            palette: colors.length > 0 ? colors : project.palette,
+            selectedColor: colors[0]?.hex ?? project.selectedColor,
+        },
+        warnings,
+    };
+};
+
+/**
+ * Read a `.vox` file chosen by the user
+ * @param file - File to read
+ * @returns Project and warnings
+ */
+export const readVoxFile = async (file: File): Promise<{ project: ProjectData; warnings: string[] }> => {
+    return parseVox(await file.arrayBuffer());
+};
+
+/**
+ * Encode voxels as a single-model `.vox` file with its own palette
+ * @param voxels - Voxels to write
+ * @param gridSize - Cells per side; becomes the model's X and Y size
+ * @returns File contents and warnings about anything that had to change
+ */
+export const serializeVox = (voxels: Map<string, Voxel>, gridSize: number): { data: ArrayBuffer; warnings: string[] } => {
+    const warnings: string[] = [];
+
+    // Palette indexes in order of first use; colors past the limit share the closest index
+    const indexes = new Map<string, number>();
+    const extraColors = new Set<string>();
+    voxels.forEach(({ color }) => {
+        const hex = color.toUpperCase();
+        if (indexes.has(hex) || extraColors.has(hex)) return;
+        if (indexes.size < VOX_MAX_COLORS) {
+            indexes.set(hex, indexes.size + 1);
+        } else {
+            extraColors.add(hex);
+        }
+    });
+    if (extraColors.size > 0) {
+        const kept = Array.from(indexes.keys()).map((hex) => ({ name: hex, hex, contrast: '' }));
+        extraColors.forEach((hex) => indexes.set(hex, indexes.get(findNearestColor(hexToRgb(hex), kept)) as number));
+        warnings.push(`The scene uses more than ${VOX_MAX_COLORS} colors; ${extraColors.size} were replaced with the closest remaining color.`);
+    }
+
+    const size = Math.min(gridSize, VOX_MAX_SIZE);
+    let height = 1;
+    const cells: number[] = [];
+    voxels.forEach(({ x, y, z, color }) => {
+        if (x >= size || y >= size) return;
+        height = Math.max(height, z + 1);
+        cells.push(x, size - 1 - y, z, indexes.get(color.toUpperCase()) as number);
+    });
+    if (cells.length / 4 < voxels.size) {
+        warnings.push(`${voxels.size - cells.length / 4} blocks outside the ${VOX_MAX_SIZE}×${VOX_MAX_SIZE} model limit were left out.`);
+    }
+
+    const sizeChunk = 12 + 12;
+    const xyziChunk = 12 + 4 + cells.length;
+    const rgbaChunk = 12 + 256 * 4;
+    const buffer = new ArrayBuffer(8 + 12 + sizeChunk + xyziChunk + rgbaChunk);
+    const view = new DataView(buffer);
+    let offset = 0;
+
+    const writeId = (id: string) => {
+        for (let i = 0; i < 4; i++) view.setUint8(offset++, id.charCodeAt(i));
+    };
+    const writeInt = (value: number) => {
+        view.setUint32(offset, value, true);
+        offset += 4;
+    };
+    const writeChunk = (id: string, contentSize: number, childrenSize: number) => {
+        writeId(id);
+        writeInt(contentSize);
+        writeInt(childrenSize);
+    };
+
+    writeId('VOX ');
+    writeInt(VOX_VERSION);
+    writeChunk('MAIN', 0, sizeChunk + xyziChunk + rgbaChunk);
+
+    writeChunk('SIZE', 12, 0);
+    writeInt(size);
+    writeInt(size);
+    writeInt(height);
+
+    writeChunk('XYZI', 4 + cells.length, 0);
+    writeInt(cells.length / 4);
+    cells.forEach((value) => view.setUint8(offset++, value));
+
+    // Unused entries keep MagicaVoxel's defaults so artists still get a full palette
+    const palette = DEFAULT_PALETTE.slice();
+    indexes.forEach((index, hex) => {
+        if (!extraColors.has(hex)) palette[index] = hex;
+    });
+    writeChunk('RGBA', 256 * 4, 0);
+    for (let i = 1; i <= 256; i++) {
+        const value = parseInt((palette[i] ?? '#000000').slice(1), 16);
+        view.setUint8(offset++, (value >> 16) & 0xff);
+        view.setUint8(offset++, (value >> 8) & 0xff);
+        view.setUint8(offset++, value & 0xff);
+        view.setUint8(offset++, 0xff);
+    }
+
+    return { data: buffer, warnings };
+};
+
+/**
+ * Download voxels as a `.vox` file
+ * @param voxels - Voxels to write
+ * @param gridSize - Cells per side
+ * @param filename - Filename for download
+ * @returns Warnings about anything that had to change
+ */
+export const downloadVox = (voxels: Map<string, Voxel>, gridSize: number, filename: string): string[] => {
+    const { data, warnings } = serializeVox(voxels, gridSize);
+    downloadBlob(new Blob([data], { type: 'application/octet-stream' }), filename);
+    return warnings;
+};
@@ -0,0 +1,59 @@
+import type { Voxel, VoxelColumn } from '../types/voxel';
+
+/**
+ * Maximum number of vertical levels a scene can use
+ */
+export const MAX_LAYERS = 32;
+
+/**
+ * Default tallest column reached by the height slider and sculpt brushes
+ */
+export const DEFAULT_MAX_HEIGHT = 10;
+
+/**
+ * Grid size limits (cells per side)
+ */
+export const DEFAULT_GRID_SIZE = 20;
+export const MIN_GRID_SIZE = 8;
+export const MAX_GRID_SIZE = 256;
+
+/**
+ * Generate key for a voxel position
+ * @param x - Grid X coordinate
+ * @param y - Grid Y coordinate
+ * @param z - Vertical level
+ * @returns Voxel key
+ */
+export const getVoxelKey = (x: number, y: number, z: number): string => {
+    return `${x},${y},${z}`;
+};
+
+/**
+ * Generate key for a grid column
+ * @param x - Grid X coordinate
+ * @param y - Grid Y coordinate
+ * @returns Column key
+ */
+export const getColumnKey = (x: number, y: number): string => {
+    return `${x},${y}`;
+};
+
+/**
+ * Index voxels by column so the highest block of each cell can be looked up directly
+ * @param voxels - Map of voxels
+ * @returns Map of column key to column summary
+ */
+export const buildColumnIndex = (voxels: Map<string, Voxel>): Map<string, VoxelColumn> => {
+    const columns = new Map<string, VoxelColumn>();
+
+    voxels.forEach((voxel) => {
+        const key = getColumnKey(voxel.x, voxel.y);
+        const column = columns.get(key);
+
+        if (!column || voxel.z + 1 > column.height) {
+            columns.set(key, { height: voxel.z + 1, top: voxel });
+        }
+    });
+
+    return columns;
+};
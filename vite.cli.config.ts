@@ -0,0 +1,21 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Builds the voxel-render command line tool as a single Node script
+ */
+export default defineConfig({
+    publicDir: false,
+    build: {
+        ssr: 'src/cli/voxel-render.ts',
+        outDir: 'dist-cli',
+        target: 'node18',
+        sourcemap: false,
+        minify: false,
+        rollupOptions: {
+            output: {
+                entryFileNames: 'voxel-render.js',
+                banner: '#!/usr/bin/env node',
+            },
+        },
+    },
+});
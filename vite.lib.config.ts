@@ -0,0 +1,19 @@
+import { defineConfig } from 'vite';
+
+/**
+ * Builds the renderer library as a dependency-free ES module; type declarations come from tsconfig.lib.json
+ */
+export default defineConfig({
+    publicDir: false,
+    build: {
+        lib: {
+            entry: 'src/lib/index.ts',
+            formats: ['es'],
+            fileName: 'voxel-renderer',
+        },
+        outDir: 'dist-lib',
+        emptyOutDir: false,
+        sourcemap: true,
+        minify: false,
+    },
+});